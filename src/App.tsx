@@ -7,17 +7,23 @@ import { lazy, Suspense } from 'react';
 import { Provider } from 'react-redux';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { store } from '@/app/store';
+import { config } from '@/config';
 import { Toaster } from '@/components/ui/toaster';
 import { TooltipProvider } from '@/components/ui/tooltip';
-import { MainLayout, ProtectedRoute } from '@/components/layout';
+import { MainLayout, ProtectedRoute, SessionBootstrap } from '@/components/layout';
 import { ErrorBoundary, LoadingSpinner } from '@/components/common';
 
 // Lazy loaded pages for code splitting
 const LoginPage = lazy(() => import('@/pages/LoginPage'));
+const ChangePasswordPage = lazy(() => import('@/pages/ChangePasswordPage'));
+const AuthCallbackPage = lazy(() => import('@/pages/AuthCallbackPage'));
+const MockIdpPage = lazy(() => import('@/pages/MockIdpPage'));
 const DashboardPage = lazy(() => import('@/pages/DashboardPage'));
 const UsersPage = lazy(() => import('@/pages/UsersPage'));
 const ProductsPage = lazy(() => import('@/pages/ProductsPage'));
+const ProductDetailPage = lazy(() => import('@/pages/ProductDetailPage'));
 const ReportsPage = lazy(() => import('@/pages/ReportsPage'));
+const ActivityPage = lazy(() => import('@/pages/ActivityPage'));
 const SettingsPage = lazy(() => import('@/pages/SettingsPage'));
 const NotFound = lazy(() => import('@/pages/NotFound'));
 
@@ -25,39 +31,59 @@ const App = () => (
   <Provider store={store}>
     <TooltipProvider>
       <ErrorBoundary>
-        <BrowserRouter>
-          <Suspense fallback={<LoadingSpinner fullScreen text="Loading..." />}>
-            <Routes>
-              {/* Public Routes */}
-              <Route path="/login" element={<LoginPage />} />
-              
-              {/* Protected Routes with Layout */}
-              <Route element={<ProtectedRoute><MainLayout /></ProtectedRoute>}>
-                <Route path="/dashboard" element={<DashboardPage />} />
-                <Route path="/users" element={
-                  <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                    <UsersPage />
-                  </ProtectedRoute>
-                } />
-                <Route path="/products" element={<ProductsPage />} />
-                <Route path="/reports" element={
-                  <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                    <ReportsPage />
-                  </ProtectedRoute>
-                } />
-                <Route path="/settings" element={
-                  <ProtectedRoute allowedRoles={['admin']}>
-                    <SettingsPage />
-                  </ProtectedRoute>
-                } />
-              </Route>
-              
-              {/* Redirects */}
-              <Route path="/" element={<Navigate to="/dashboard" replace />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Suspense>
-        </BrowserRouter>
+        <SessionBootstrap>
+          <BrowserRouter>
+            <Suspense fallback={<LoadingSpinner fullScreen text="Loading..." />}>
+              <Routes>
+                {/* Public Routes */}
+                <Route path="/login" element={<LoginPage />} />
+                <Route path={config.oidc.redirectPath} element={<AuthCallbackPage />} />
+                {/* Bundled identity provider, served by the app itself while the API is mocked */}
+                {config.useMockApi && <Route path="/mock-idp/authorize" element={<MockIdpPage />} />}
+                <Route path="/change-password" element={<ProtectedRoute><ChangePasswordPage /></ProtectedRoute>} />
+                
+                {/* Protected Routes with Layout */}
+                <Route element={<ProtectedRoute><MainLayout /></ProtectedRoute>}>
+                  <Route path="/dashboard" element={<DashboardPage />} />
+                  <Route path="/users" element={
+                    <ProtectedRoute permission="users:read">
+                      <UsersPage />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/products" element={
+                    <ProtectedRoute permission="products:read">
+                      <ProductsPage />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/products/:id" element={
+                    <ProtectedRoute permission="products:read">
+                      <ProductDetailPage />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/reports" element={
+                    <ProtectedRoute permission="reports:read">
+                      <ReportsPage />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/activity" element={
+                    <ProtectedRoute permission="activity:read">
+                      <ActivityPage />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/settings" element={
+                    <ProtectedRoute permission="settings:read">
+                      <SettingsPage />
+                    </ProtectedRoute>
+                  } />
+                </Route>
+                
+                {/* Redirects */}
+                <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </Suspense>
+          </BrowserRouter>
+        </SessionBootstrap>
         <Toaster />
       </ErrorBoundary>
     </TooltipProvider>
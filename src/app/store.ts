@@ -10,6 +10,7 @@ import authReducer from '@/features/auth/authSlice';
 import uiReducer from '@/features/ui/uiSlice';
 import usersReducer from '@/features/users/usersSlice';
 import productsReducer from '@/features/products/productsSlice';
+import savedViewsReducer from '@/features/savedViews/savedViewsSlice';
 
 // Combine all reducers
 const rootReducer = combineReducers({
@@ -17,6 +18,7 @@ const rootReducer = combineReducers({
   ui: uiReducer,
   users: usersReducer,
   products: productsReducer,
+  savedViews: savedViewsReducer,
   [apiSlice.reducerPath]: apiSlice.reducer,
 });
 
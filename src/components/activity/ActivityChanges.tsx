@@ -0,0 +1,48 @@
+// ============================================
+// Activity Changes Component
+// Before/after table for the fields one change touched
+// ============================================
+
+import { memo } from 'react';
+import { formatActivityValue, getFieldLabel } from '@/lib/activity';
+import type { ActivityChange } from '@/types';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface ActivityChangesProps {
+  changes: ActivityChange[];
+}
+
+const ActivityChanges = memo(({ changes }: ActivityChangesProps) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No details you have access to.</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/4">Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {changes.map((change) => (
+            <TableRow key={change.field}>
+              <TableCell className="font-medium">{getFieldLabel(change.field)}</TableCell>
+              <TableCell className="break-all text-muted-foreground line-through decoration-muted-foreground/50">
+                {formatActivityValue(change.before)}
+              </TableCell>
+              <TableCell className="break-all">{formatActivityValue(change.after)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+});
+
+ActivityChanges.displayName = 'ActivityChanges';
+
+export default ActivityChanges;
@@ -0,0 +1,44 @@
+// ============================================
+// Activity Detail Dialog Component
+// Who changed what on one record, field by field
+// ============================================
+
+import { memo } from 'react';
+import { activityActionLabels, activityEntityLabels } from '@/lib/activity';
+import type { ActivityLog } from '@/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import ActivityChanges from './ActivityChanges';
+
+interface ActivityDetailDialogProps {
+  entry: ActivityLog | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ActivityDetailDialog = memo(({ entry, onOpenChange }: ActivityDetailDialogProps) => (
+  <Dialog open={entry !== null} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-2xl">
+      {entry && (
+        <>
+          <DialogHeader>
+            <DialogTitle>
+              {activityActionLabels[entry.action]} {activityEntityLabels[entry.entity].toLowerCase()} "{entry.entityName}"
+            </DialogTitle>
+            <DialogDescription>
+              By {entry.userName} on {new Date(entry.createdAt).toLocaleString()}
+              {entry.impersonatedBy &&
+                `, while ${entry.impersonatedBy.firstName} ${entry.impersonatedBy.lastName} was viewing as them`}
+              .
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <ActivityChanges changes={entry.changes} />
+          </div>
+        </>
+      )}
+    </DialogContent>
+  </Dialog>
+));
+
+ActivityDetailDialog.displayName = 'ActivityDetailDialog';
+
+export default ActivityDetailDialog;
@@ -0,0 +1,66 @@
+// ============================================
+// Recent Activity Component
+// Dashboard card with the latest changes from the activity log
+// ============================================
+
+import { memo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight } from 'lucide-react';
+import { useGetActivityQuery } from '@/services/api';
+import { activityActionLabels, activityEntityLabels, formatTimeAgo } from '@/lib/activity';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+
+const RECENT_ACTIVITY_COUNT = 5;
+
+const RecentActivity = memo(() => {
+  const { data, isLoading } = useGetActivityQuery({ page: 1, pageSize: RECENT_ACTIVITY_COUNT });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-base font-medium">Recent Activities</CardTitle>
+        <Button variant="ghost" size="sm" className="gap-1 text-xs" asChild>
+          <Link to="/activity">
+            View All <ArrowRight className="h-3 w-3" />
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-[200px] flex items-center justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : !data?.data.length ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No changes have been made yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {data.data.map((activity) => (
+              <div key={activity.id} className="flex items-start gap-3">
+                <div className={cn(
+                  'mt-1.5 h-2 w-2 rounded-full',
+                  activity.entity === 'user' && 'bg-primary',
+                  activity.entity === 'product' && 'bg-accent',
+                  activity.entity === 'role' && 'bg-warning'
+                )} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {activityEntityLabels[activity.entity]} {activityActionLabels[activity.action].toLowerCase()}: {activity.entityName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{activity.userName}</p>
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{formatTimeAgo(activity.createdAt)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+RecentActivity.displayName = 'RecentActivity';
+
+export default RecentActivity;
@@ -0,0 +1,176 @@
+// ============================================
+// Record History Component
+// Every change to one user or product, with restoring earlier versions
+// ============================================
+
+import { memo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, RotateCcw } from 'lucide-react';
+import { getApiErrorMessage, useGetRecordHistoryQuery, useRestoreRecordVersionMutation } from '@/services/api';
+import { activityActionLabels, activityEntityLabels, formatTimeAgo } from '@/lib/activity';
+import type { ActivityLog, HistoryEntity } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { toast } from '@/hooks/use-toast';
+import ActivityChanges from './ActivityChanges';
+
+const HISTORY_PAGE_SIZE = 10;
+
+interface RecordHistoryProps {
+  entity: HistoryEntity;
+  entityId: string;
+  // Whether the viewer may write the record; restoring is an ordinary update
+  canRestore: boolean;
+}
+
+const RecordHistory = memo(({ entity, entityId, canRestore }: RecordHistoryProps) => {
+  const [page, setPage] = useState(1);
+  const [entryToRestore, setEntryToRestore] = useState<ActivityLog | null>(null);
+  const { data, isLoading, isFetching, error } = useGetRecordHistoryQuery({
+    entity,
+    entityId,
+    page,
+    pageSize: HISTORY_PAGE_SIZE,
+  });
+  const [restoreVersion, { isLoading: isRestoring }] = useRestoreRecordVersionMutation();
+
+  const handleRestore = async () => {
+    if (!entryToRestore) return;
+    try {
+      await restoreVersion({ entity, entityId, entryId: entryToRestore.id }).unwrap();
+      toast({
+        title: 'Version restored',
+        description: `The ${activityEntityLabels[entity].toLowerCase()} is back to how it was on ${new Date(entryToRestore.createdAt).toLocaleString()}.`,
+      });
+      setEntryToRestore(null);
+      // The restore is now the newest entry
+      setPage(1);
+    } catch (err) {
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-[200px] items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!data?.data.length) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No changes have been recorded yet.</p>;
+  }
+
+  const { pagination } = data;
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-4">
+        {data.data.map((entry, index) => {
+          // The newest entry describes the record as it is now
+          const isCurrent = page === 1 && index === 0;
+          return (
+            <li key={entry.id} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">{activityActionLabels[entry.action]}</span>
+                    {isCurrent && (
+                      <Badge variant="secondary" className="font-normal">
+                        Current version
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    By {entry.userName}
+                    {entry.impersonatedBy && ` via ${entry.impersonatedBy.firstName} ${entry.impersonatedBy.lastName}`}
+                    {' · '}
+                    <time dateTime={entry.createdAt} title={new Date(entry.createdAt).toLocaleString()}>
+                      {formatTimeAgo(entry.createdAt)}
+                    </time>
+                  </p>
+                </div>
+                {canRestore && !isCurrent && entry.action !== 'delete' && (
+                  <Button variant="outline" size="sm" className="gap-1" onClick={() => setEntryToRestore(entry)}>
+                    <RotateCcw className="h-3 w-3" />
+                    Restore this version
+                  </Button>
+                )}
+              </div>
+              <ActivityChanges changes={entry.changes} />
+            </li>
+          );
+        })}
+      </ol>
+
+      {pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={page <= 1 || isFetching}
+              onClick={() => setPage(page - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={page >= pagination.totalPages || isFetching}
+              onClick={() => setPage(page + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={entryToRestore !== null} onOpenChange={(open) => !open && setEntryToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every change made after {entryToRestore && new Date(entryToRestore.createdAt).toLocaleString()} will be
+              undone. The restore is recorded as a new change, so it can be undone the same way.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isRestoring}
+              onClick={(e) => {
+                // Stay open until the restore finishes
+                e.preventDefault();
+                handleRestore();
+              }}
+            >
+              {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+});
+
+RecordHistory.displayName = 'RecordHistory';
+
+export default RecordHistory;
@@ -0,0 +1,8 @@
+// ============================================
+// Activity Component Exports
+// ============================================
+
+export { default as ActivityChanges } from './ActivityChanges';
+export { default as ActivityDetailDialog } from './ActivityDetailDialog';
+export { default as RecentActivity } from './RecentActivity';
+export { default as RecordHistory } from './RecordHistory';
@@ -0,0 +1,31 @@
+// ============================================
+// Can Component
+// Renders its children only when the user has the given permissions
+// ============================================
+
+import { memo, type ReactNode } from 'react';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Permission } from '@/types';
+
+interface CanProps {
+  // Every one of these is required
+  permission?: Permission | Permission[];
+  // At least one of these is required
+  anyOf?: Permission[];
+  // Rendered instead when access is missing
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+// UI gating only; the backend checks the same permissions on every request
+const Can = memo(({ permission, anyOf, fallback = null, children }: CanProps) => {
+  const { hasAllPermissions, hasAnyPermission } = usePermissions();
+  const required = permission === undefined ? [] : Array.isArray(permission) ? permission : [permission];
+  const allowed = hasAllPermissions(required) && (!anyOf || hasAnyPermission(anyOf));
+
+  return <>{allowed ? children : fallback}</>;
+});
+
+Can.displayName = 'Can';
+
+export default Can;
@@ -0,0 +1,125 @@
+// ============================================
+// Impersonate Dialog Component
+// Starts viewing the app as another user, with the reason for the audit trail
+// ============================================
+
+import { memo, useEffect, useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { getApiErrorMessage } from '@/services/api';
+import { useImpersonation } from '@/hooks/useImpersonation';
+import type { User } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+const impersonateSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(200, 'Reason is too long'),
+  allowDestructive: z.boolean(),
+});
+
+type ImpersonateFormData = z.infer<typeof impersonateSchema>;
+
+interface ImpersonateDialogProps {
+  user: User | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ImpersonateDialog = memo(({ user, onOpenChange }: ImpersonateDialogProps) => {
+  const { start, isStarting } = useImpersonation();
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ImpersonateFormData>({
+    resolver: zodResolver(impersonateSchema),
+    defaultValues: { reason: '', allowDestructive: false },
+  });
+
+  useEffect(() => {
+    if (!user) return;
+    setServerError(null);
+    reset({ reason: '', allowDestructive: false });
+  }, [user, reset]);
+
+  const onSubmit = async (data: ImpersonateFormData) => {
+    if (!user) return;
+    setServerError(null);
+    try {
+      await start({ userId: user.id, reason: data.reason, allowDestructive: data.allowDestructive });
+    } catch (err) {
+      setServerError(getApiErrorMessage(err));
+    }
+  };
+
+  return (
+    <Dialog open={user !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>View as {user?.firstName} {user?.lastName}</DialogTitle>
+          <DialogDescription>
+            You will see exactly what {user?.email} sees until you stop. Everything you change is recorded.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {serverError && (
+            <Alert variant="destructive">
+              <AlertDescription>{serverError}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="impersonationReason">Reason</Label>
+            <Textarea
+              id="impersonationReason"
+              placeholder="e.g. Support ticket #1234"
+              {...register('reason')}
+              className={errors.reason ? 'border-destructive' : ''}
+              disabled={isStarting}
+            />
+            {errors.reason && <p className="text-xs text-destructive">{errors.reason.message}</p>}
+          </div>
+          <Controller
+            control={control}
+            name="allowDestructive"
+            render={({ field }) => (
+              <label className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                  disabled={isStarting}
+                  className="mt-0.5"
+                />
+                <span>
+                  Allow destructive actions
+                  <span className="block text-muted-foreground">Deleting anything is blocked unless this is checked.</span>
+                </span>
+              </label>
+            )}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isStarting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isStarting}>
+              {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Viewing
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ImpersonateDialog.displayName = 'ImpersonateDialog';
+
+export default ImpersonateDialog;
@@ -0,0 +1,109 @@
+// ============================================
+// Impersonation Log Component
+// Audit trail of who viewed the app as whom, and what they changed
+// ============================================
+
+import { memo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { getApiErrorMessage, useGetImpersonationLogQuery } from '@/services/api';
+import type { ImpersonationEvent, UserSummary } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const PAGE_SIZE = 10;
+
+const eventLabels: Record<ImpersonationEvent['type'], string> = {
+  start: 'Started',
+  stop: 'Stopped',
+  request: 'Change',
+  blocked: 'Blocked',
+};
+
+const fullName = (user: UserSummary) => `${user.firstName} ${user.lastName}`;
+
+const describeEvent = (event: ImpersonationEvent) =>
+  event.type === 'start' ? event.reason : event.method && `${event.method} ${event.path} · ${event.status}`;
+
+const ImpersonationLog = memo(() => {
+  const [page, setPage] = useState(1);
+  const { data, isFetching, error } = useGetImpersonationLogQuery({ page, pageSize: PAGE_SIZE });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium">Impersonation Log</h4>
+        <p className="text-sm text-muted-foreground">
+          Every session spent viewing the app as another user, and each change made during it.
+        </p>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      ) : !data ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : data.data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No one has viewed the app as another user yet.</p>
+      ) : (
+        <>
+          <div className="rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Administrator</TableHead>
+                  <TableHead>Viewed As</TableHead>
+                  <TableHead>Event</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.data.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {new Date(event.timestamp).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{fullName(event.actor)}</TableCell>
+                    <TableCell>{fullName(event.target)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={event.type === 'blocked' ? 'destructive' : 'outline'} className="font-normal">
+                          {eventLabels[event.type]}
+                        </Badge>
+                        <span className="text-sm text-muted-foreground">{describeEvent(event)}</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            <span className="text-sm text-muted-foreground">
+              Page {data.pagination.page} of {data.pagination.totalPages}
+            </span>
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= data.pagination.totalPages}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+ImpersonationLog.displayName = 'ImpersonationLog';
+
+export default ImpersonationLog;
@@ -0,0 +1,58 @@
+// ============================================
+// Login Error Alert Component
+// Explains why a sign-in was refused and when it can be retried
+// ============================================
+
+import { memo } from 'react';
+import { AlertCircle, Clock, Lock, ShieldAlert, UserX, type LucideIcon } from 'lucide-react';
+import type { LoginError, LoginErrorCode } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+interface LoginErrorAlertProps {
+  error: LoginError;
+  // From useCountdown(error.retryAt), which the form also uses to hold back the next attempt
+  secondsLeft: number;
+}
+
+const errorDetails: Record<LoginErrorCode, { title: string; icon: LucideIcon }> = {
+  INVALID_CREDENTIALS: { title: 'Sign-in failed', icon: AlertCircle },
+  ACCOUNT_LOCKED: { title: 'Account locked', icon: Lock },
+  ACCOUNT_INACTIVE: { title: 'Account deactivated', icon: UserX },
+  TOO_MANY_ATTEMPTS: { title: 'Too many attempts', icon: Clock },
+  SSO_FAILED: { title: 'Single sign-on failed', icon: ShieldAlert },
+};
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+const LoginErrorAlert = memo(({ error, secondsLeft }: LoginErrorAlertProps) => {
+  const { title, icon: Icon } = errorDetails[error.code];
+
+  return (
+    <Alert variant="destructive">
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="space-y-1">
+        <p>{error.message}</p>
+        {secondsLeft > 0 && (
+          <p aria-live="polite">
+            You can try again in {formatWait(secondsLeft)}.
+          </p>
+        )}
+        {error.attemptsRemaining !== undefined && (
+          <p>
+            {error.attemptsRemaining} attempt{error.attemptsRemaining === 1 ? '' : 's'} left before the account is
+            locked.
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+});
+
+LoginErrorAlert.displayName = 'LoginErrorAlert';
+
+export default LoginErrorAlert;
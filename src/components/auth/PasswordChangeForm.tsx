@@ -0,0 +1,109 @@
+// ============================================
+// Password Change Form Component
+// Current/new/confirm password form validated against the password policy
+// ============================================
+
+import { memo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { passwordChangeSchema, type PasswordChangeFormData } from '@/lib/passwordPolicy';
+import { getApiErrorMessage, useChangePasswordMutation } from '@/services/api';
+import type { User } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+
+interface PasswordChangeFormProps {
+  onChanged?: (user: User) => void;
+  submitLabel?: string;
+  className?: string;
+}
+
+// Shared by the Security settings tab and the forced change after sign-in. The schema mirrors
+// the server's checks so most mistakes are caught while typing; reuse history is server-only.
+const PasswordChangeForm = memo(({ onChanged, submitLabel = 'Update Password', className }: PasswordChangeFormProps) => {
+  const [changePassword, { isLoading }] = useChangePasswordMutation();
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<PasswordChangeFormData>({
+    resolver: zodResolver(passwordChangeSchema),
+    defaultValues: { currentPassword: '', newPassword: '', confirmPassword: '' },
+  });
+
+  const newPassword = watch('newPassword');
+
+  const onSubmit = async ({ currentPassword, newPassword }: PasswordChangeFormData) => {
+    setServerError(null);
+    try {
+      const user = await changePassword({ currentPassword, newPassword }).unwrap();
+      reset();
+      onChanged?.(user);
+    } catch (err) {
+      setServerError(getApiErrorMessage(err));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className={className ?? 'space-y-4'}>
+      {serverError && (
+        <Alert variant="destructive">
+          <AlertDescription>{serverError}</AlertDescription>
+        </Alert>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="currentPassword">Current Password</Label>
+        <Input
+          id="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          {...register('currentPassword')}
+          className={errors.currentPassword ? 'border-destructive' : ''}
+          disabled={isLoading}
+        />
+        {errors.currentPassword && <p className="text-xs text-destructive">{errors.currentPassword.message}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">New Password</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          {...register('newPassword')}
+          className={errors.newPassword ? 'border-destructive' : ''}
+          disabled={isLoading}
+        />
+        {errors.newPassword && <p className="text-xs text-destructive">{errors.newPassword.message}</p>}
+        <PasswordStrengthMeter password={newPassword} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm New Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          {...register('confirmPassword')}
+          className={errors.confirmPassword ? 'border-destructive' : ''}
+          disabled={isLoading}
+        />
+        {errors.confirmPassword && <p className="text-xs text-destructive">{errors.confirmPassword.message}</p>}
+      </div>
+      <Button type="submit" disabled={isLoading} className="gap-2">
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+});
+
+PasswordChangeForm.displayName = 'PasswordChangeForm';
+
+export default PasswordChangeForm;
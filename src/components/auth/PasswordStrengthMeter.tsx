@@ -0,0 +1,52 @@
+// ============================================
+// Password Strength Meter Component
+// Live strength estimate and policy checklist for a new password
+// ============================================
+
+import { memo } from 'react';
+import { Check, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getPasswordRules, getPasswordStrength, PASSWORD_STRENGTH_LABELS } from '@/lib/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const barColors = ['bg-destructive', 'bg-destructive', 'bg-warning', 'bg-primary', 'bg-success'];
+
+const PasswordStrengthMeter = memo(({ password }: PasswordStrengthMeterProps) => {
+  const strength = getPasswordStrength(password);
+  const rules = getPasswordRules();
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn('h-1.5 flex-1 rounded-full', password && strength >= segment ? barColors[strength] : 'bg-muted')}
+          />
+        ))}
+      </div>
+      {password && <p className="text-xs text-muted-foreground">Strength: {PASSWORD_STRENGTH_LABELS[strength]}</p>}
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+        {rules.map((rule) => {
+          const passed = rule.test(password);
+          return (
+            <li
+              key={rule.id}
+              className={cn('flex items-center gap-1.5 text-xs', passed ? 'text-success' : 'text-muted-foreground')}
+            >
+              {passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              {rule.label}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+});
+
+PasswordStrengthMeter.displayName = 'PasswordStrengthMeter';
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,112 @@
+// ============================================
+// Permission Matrix Component
+// Grid of roles against permissions with per-role actions
+// ============================================
+
+import { memo, Fragment } from 'react';
+import { Copy, MoreHorizontal, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { permissionGroups } from '@/lib/permissions';
+import type { Permission, Role } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface PermissionMatrixProps {
+  roles: Role[];
+  // Unsaved permission sets by role id; roles missing here show what is saved
+  draft: Record<string, Permission[]>;
+  readOnly?: boolean;
+  onToggle: (roleId: string, permission: Permission, granted: boolean) => void;
+  onClone?: (role: Role) => void;
+  onDelete?: (role: Role) => void;
+}
+
+// The admin role always keeps every permission, so its column is never editable
+const isLockedRole = (role: Role) => role.id === 'admin';
+
+const PermissionMatrix = memo(({ roles, draft, readOnly, onToggle, onClone, onDelete }: PermissionMatrixProps) => (
+  <div className="overflow-x-auto rounded-lg border border-border">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="min-w-[200px]">Permission</TableHead>
+          {roles.map((role) => (
+            <TableHead key={role.id} className="min-w-[120px] text-center">
+              <div className="flex items-center justify-center gap-1">
+                <span className="truncate">{role.name}</span>
+                {!readOnly && (onClone || onDelete) && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" aria-label={`${role.name} actions`}>
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {onClone && (
+                        <DropdownMenuItem onClick={() => onClone(role)} className="gap-2">
+                          <Copy className="h-4 w-4" />
+                          Clone
+                        </DropdownMenuItem>
+                      )}
+                      {onDelete && !role.isSystem && (
+                        <DropdownMenuItem onClick={() => onDelete(role)} className="gap-2 text-destructive">
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+              {!role.isSystem && (
+                <Badge variant="outline" className="mt-1 font-normal">
+                  Custom
+                </Badge>
+              )}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {permissionGroups.map((group) => (
+          <Fragment key={group.label}>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableCell colSpan={roles.length + 1} className="py-2 text-xs font-medium uppercase text-muted-foreground">
+                {group.label}
+              </TableCell>
+            </TableRow>
+            {group.permissions.map(({ value, label }) => (
+              <TableRow key={value}>
+                <TableCell>
+                  <p className="text-sm">{label}</p>
+                  <p className="font-mono text-xs text-muted-foreground">{value}</p>
+                </TableCell>
+                {roles.map((role) => {
+                  const saved = role.permissions.includes(value);
+                  const granted = (draft[role.id] ?? role.permissions).includes(value);
+                  return (
+                    <TableCell key={role.id} className={cn('text-center', saved !== granted && 'bg-primary/10')}>
+                      <Checkbox
+                        checked={granted}
+                        onCheckedChange={(checked) => onToggle(role.id, value, checked === true)}
+                        disabled={readOnly || isLockedRole(role)}
+                        aria-label={`${label} for ${role.name}`}
+                      />
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </Fragment>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+));
+
+PermissionMatrix.displayName = 'PermissionMatrix';
+
+export default PermissionMatrix;
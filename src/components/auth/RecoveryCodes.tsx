@@ -0,0 +1,63 @@
+// ============================================
+// Recovery Codes Component
+// Shows freshly issued 2FA recovery codes with copy and download
+// ============================================
+
+import { memo } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { downloadFile } from '@/lib/csv';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// Codes are only returned once by the API, so this is the user's single chance to keep them
+const RecoveryCodes = memo(({ codes }: RecoveryCodesProps) => {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: 'Recovery codes copied' });
+    } catch {
+      toast({ title: 'Could not copy', description: 'Select the codes and copy them manually.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each code can be used once to sign in if you lose access to your authenticator app. Store them somewhere safe.
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy} className="gap-2">
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => downloadFile('recovery-codes.txt', text, 'text/plain')}
+          className="gap-2"
+        >
+          <Download className="h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+RecoveryCodes.displayName = 'RecoveryCodes';
+
+export default RecoveryCodes;
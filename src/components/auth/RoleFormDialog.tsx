@@ -0,0 +1,150 @@
+// ============================================
+// Role Form Dialog Component
+// Creates a custom role, from scratch or as a copy of another
+// ============================================
+
+import { memo, useEffect, useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { getApiErrorMessage, useCreateRoleMutation } from '@/services/api';
+import { permissionGroups } from '@/lib/permissions';
+import { toast } from '@/hooks/use-toast';
+import { PERMISSIONS, type Permission, type Role, type RoleInput } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+const roleSchema = z.object({
+  name: z.string().trim().min(1, 'Role name is required').max(40, 'Role name is too long'),
+  description: z.string().max(200, 'Description is too long'),
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+type RoleFormData = z.infer<typeof roleSchema>;
+
+interface RoleFormDialogProps {
+  open: boolean;
+  // Prefills the form from this role when cloning
+  source?: Role | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RoleFormDialog = memo(({ open, source, onOpenChange }: RoleFormDialogProps) => {
+  const [createRole, { isLoading }] = useCreateRoleMutation();
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<RoleFormData>({
+    resolver: zodResolver(roleSchema),
+    defaultValues: { name: '', description: '', permissions: [] },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setServerError(null);
+    reset(
+      source
+        ? { name: `${source.name} (copy)`, description: source.description, permissions: source.permissions }
+        : { name: '', description: '', permissions: [] }
+    );
+  }, [open, source, reset]);
+
+  const onSubmit = async (data: RoleFormData) => {
+    setServerError(null);
+    try {
+      const role = await createRole(data as RoleInput).unwrap();
+      toast({ title: `Role "${role.name}" created` });
+      onOpenChange(false);
+    } catch (err) {
+      setServerError(getApiErrorMessage(err));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{source ? `Clone ${source.name}` : 'New Role'}</DialogTitle>
+          <DialogDescription>Custom roles can be assigned to users like the built-in ones.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {serverError && (
+            <Alert variant="destructive">
+              <AlertDescription>{serverError}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="roleName">Name</Label>
+            <Input
+              id="roleName"
+              {...register('name')}
+              className={errors.name ? 'border-destructive' : ''}
+              disabled={isLoading}
+            />
+            {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="roleDescription">Description</Label>
+            <Input id="roleDescription" {...register('description')} disabled={isLoading} />
+            {errors.description && <p className="text-xs text-destructive">{errors.description.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>Permissions</Label>
+            <Controller
+              control={control}
+              name="permissions"
+              render={({ field }) => (
+                <div className="max-h-64 space-y-3 overflow-y-auto rounded-lg border border-border p-3">
+                  {permissionGroups.map((group) => (
+                    <div key={group.label} className="space-y-2">
+                      <p className="text-xs font-medium uppercase text-muted-foreground">{group.label}</p>
+                      {group.permissions.map(({ value, label }) => (
+                        <label key={value} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(value)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked === true
+                                  ? [...field.value, value]
+                                  : field.value.filter((p: Permission) => p !== value)
+                              )
+                            }
+                            disabled={isLoading}
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Role
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+RoleFormDialog.displayName = 'RoleFormDialog';
+
+export default RoleFormDialog;
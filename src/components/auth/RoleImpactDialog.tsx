@@ -0,0 +1,118 @@
+// ============================================
+// Role Impact Dialog Component
+// Previews whose access pending permission changes affect before saving
+// ============================================
+
+import { memo, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getApiErrorMessage, usePreviewRoleChangesMutation } from '@/services/api';
+import { getPermissionLabel } from '@/lib/permissions';
+import { useRoles } from '@/hooks/useRoles';
+import type { RolePermissionChange } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface RoleImpactDialogProps {
+  open: boolean;
+  changes: RolePermissionChange[];
+  isSaving: boolean;
+  onConfirm: () => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RoleImpactDialog = memo(({ open, changes, isSaving, onConfirm, onOpenChange }: RoleImpactDialogProps) => {
+  const { getRoleName } = useRoles();
+  const [previewChanges, { data: impacts, isLoading, error, reset }] = usePreviewRoleChangesMutation();
+
+  // Asked fresh every time, since assignments may have changed since the last preview
+  useEffect(() => {
+    if (open) {
+      previewChanges(changes);
+    } else {
+      reset();
+    }
+  }, [open, changes, previewChanges, reset]);
+
+  const affectedUsers = impacts?.reduce((total, impact) => total + impact.userCount, 0) ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review Permission Changes</DialogTitle>
+          <DialogDescription>
+            {impacts
+              ? `${affectedUsers.toLocaleString()} user${affectedUsers === 1 ? '' : 's'} will have their access changed.`
+              : 'Checking who these changes affect...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+          </Alert>
+        ) : isLoading || !impacts ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-h-96 space-y-4 overflow-y-auto">
+            {impacts.map((impact) => (
+              <div key={impact.roleId} className="space-y-2 rounded-lg border border-border p-3">
+                <p className="font-medium">{getRoleName(impact.roleId)}</p>
+                <div className="flex flex-wrap gap-1">
+                  {impact.granted.map((permission) => (
+                    <Badge key={permission} variant="outline" className="border-success text-success font-normal">
+                      + {getPermissionLabel(permission)}
+                    </Badge>
+                  ))}
+                  {impact.revoked.map((permission) => (
+                    <Badge key={permission} variant="outline" className="border-destructive text-destructive font-normal">
+                      − {getPermissionLabel(permission)}
+                    </Badge>
+                  ))}
+                </div>
+                {impact.userCount === 0 ? (
+                  <p className="text-sm text-muted-foreground">No users have this role.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {impact.users.map((user) => (
+                      <li key={user.id} className="flex items-center justify-between gap-2">
+                        <span>
+                          {user.firstName} {user.lastName}
+                          <span className="text-muted-foreground"> · {user.email}</span>
+                        </span>
+                        {!user.isActive && <span className="text-xs text-muted-foreground">Inactive</span>}
+                      </li>
+                    ))}
+                    {impact.userCount > impact.users.length && (
+                      <li className="text-muted-foreground">
+                        and {(impact.userCount - impact.users.length).toLocaleString()} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Keep Editing
+          </Button>
+          <Button onClick={onConfirm} disabled={isSaving || isLoading || !!error}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+RoleImpactDialog.displayName = 'RoleImpactDialog';
+
+export default RoleImpactDialog;
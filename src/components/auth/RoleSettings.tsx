@@ -0,0 +1,192 @@
+// ============================================
+// Role Settings Component
+// Roles & permissions matrix with custom roles and an impact preview
+// ============================================
+
+import { memo, useMemo, useState } from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { getApiErrorMessage, useDeleteRoleMutation, useUpdateRoleMutation } from '@/services/api';
+import { isSamePermissionSet } from '@/lib/permissions';
+import { useRoles } from '@/hooks/useRoles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { toast } from '@/hooks/use-toast';
+import { PERMISSIONS, type Permission, type Role, type RolePermissionChange } from '@/types';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import PermissionMatrix from './PermissionMatrix';
+import RoleFormDialog from './RoleFormDialog';
+import RoleImpactDialog from './RoleImpactDialog';
+import Can from './Can';
+
+const noChanges: RolePermissionChange[] = [];
+
+const RoleSettings = memo(() => {
+  const { roles, isLoading } = useRoles();
+  const { hasPermission } = usePermissions();
+  const [updateRole] = useUpdateRoleMutation();
+  const [deleteRole, { isLoading: isDeleting }] = useDeleteRoleMutation();
+  const [draft, setDraft] = useState<Record<string, Permission[]>>({});
+  // Snapshot of the changes under review, so the preview matches exactly what gets saved
+  const [reviewing, setReviewing] = useState<RolePermissionChange[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formState, setFormState] = useState<{ open: boolean; source: Role | null }>({ open: false, source: null });
+  const [roleToDelete, setRoleToDelete] = useState<Role | null>(null);
+
+  const canWrite = hasPermission('roles:write');
+
+  // Roles deleted since they were edited drop out of the pending changes
+  const changes = useMemo<RolePermissionChange[]>(
+    () =>
+      roles
+        .filter((role) => draft[role.id] && !isSamePermissionSet(role.permissions, draft[role.id]))
+        .map((role) => ({ roleId: role.id, permissions: draft[role.id] })),
+    [roles, draft]
+  );
+
+  const handleToggle = (roleId: string, permission: Permission, granted: boolean) => {
+    const role = roles.find((r) => r.id === roleId);
+    if (!role) return;
+    setDraft((current) => {
+      const existing = current[roleId] ?? role.permissions;
+      const next = PERMISSIONS.filter((p) => (p === permission ? granted : existing.includes(p)));
+      const rest = { ...current };
+      delete rest[roleId];
+      return isSamePermissionSet(role.permissions, next) ? rest : { ...rest, [roleId]: next };
+    });
+  };
+
+  // Saved one role at a time; anything that fails stays in the draft to retry
+  const handleSave = async () => {
+    if (!reviewing) return;
+    setIsSaving(true);
+    let saved = 0;
+    for (const change of reviewing) {
+      try {
+        await updateRole({ id: change.roleId, data: { permissions: change.permissions } }).unwrap();
+        saved++;
+        setDraft((current) => {
+          const rest = { ...current };
+          delete rest[change.roleId];
+          return rest;
+        });
+      } catch (err) {
+        const name = roles.find((r) => r.id === change.roleId)?.name ?? change.roleId;
+        toast({ title: `Failed to update ${name}`, description: getApiErrorMessage(err), variant: 'destructive' });
+      }
+    }
+    setIsSaving(false);
+    setReviewing(null);
+    if (saved > 0) toast({ title: `${saved} role${saved === 1 ? '' : 's'} updated` });
+  };
+
+  const handleDelete = async () => {
+    if (!roleToDelete) return;
+    try {
+      await deleteRole(roleToDelete.id).unwrap();
+      toast({ title: `Role "${roleToDelete.name}" deleted` });
+    } catch (err) {
+      toast({ title: 'Failed to delete role', description: getApiErrorMessage(err), variant: 'destructive' });
+    } finally {
+      setRoleToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-medium">Permissions Matrix</h4>
+          <p className="text-sm text-muted-foreground">What each role is allowed to do. Changes apply after review.</p>
+        </div>
+        <Can permission="roles:write">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => setFormState({ open: true, source: null })}
+          >
+            <Plus className="h-4 w-4" />
+            New Role
+          </Button>
+        </Can>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : (
+        <PermissionMatrix
+          roles={roles}
+          draft={draft}
+          readOnly={!canWrite}
+          onToggle={handleToggle}
+          onClone={(role) => setFormState({ open: true, source: role })}
+          onDelete={setRoleToDelete}
+        />
+      )}
+
+      {changes.length > 0 && (
+        <div className="flex items-center justify-between gap-4 rounded-lg bg-muted p-3">
+          <p className="text-sm">
+            Unsaved changes to {changes.length} role{changes.length === 1 ? '' : 's'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft({})} disabled={isSaving}>
+              Discard
+            </Button>
+            <Button size="sm" onClick={() => setReviewing(changes)} disabled={isSaving}>
+              Review & Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <RoleFormDialog
+        open={formState.open}
+        source={formState.source}
+        onOpenChange={(open) => setFormState((current) => ({ ...current, open }))}
+      />
+
+      <RoleImpactDialog
+        open={reviewing !== null}
+        changes={reviewing ?? noChanges}
+        isSaving={isSaving}
+        onConfirm={handleSave}
+        onOpenChange={(open) => !open && setReviewing(null)}
+      />
+
+      <AlertDialog open={roleToDelete !== null} onOpenChange={(open) => !open && setRoleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Role</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the "{roleToDelete?.name}" role? Roles still assigned to users cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+});
+
+RoleSettings.displayName = 'RoleSettings';
+
+export default RoleSettings;
@@ -0,0 +1,50 @@
+// ============================================
+// SSO Sign-In Button Component
+// Starts the OpenID Connect authorization code flow
+// ============================================
+
+import { memo, useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { config } from '@/config';
+import { createAuthorizationUrl } from '@/lib/oidc';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+
+interface SsoSignInButtonProps {
+  // In-app path to land on after signing in
+  returnTo: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const SsoSignInButton = memo(({ returnTo, disabled, className }: SsoSignInButtonProps) => {
+  const [isRedirecting, setIsRedirecting] = useState(false);
+
+  const handleClick = async () => {
+    setIsRedirecting(true);
+    try {
+      // Leaves the app; the identity provider sends the browser back to the callback route
+      window.location.assign(await createAuthorizationUrl(returnTo));
+    } catch (err) {
+      setIsRedirecting(false);
+      toast({ title: 'Could not start single sign-on', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      className={className ?? 'w-full gap-2'}
+      onClick={handleClick}
+      disabled={disabled || isRedirecting}
+    >
+      {isRedirecting ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+      Continue with {config.oidc.providerName}
+    </Button>
+  );
+});
+
+SsoSignInButton.displayName = 'SsoSignInButton';
+
+export default SsoSignInButton;
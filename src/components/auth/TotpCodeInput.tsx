@@ -0,0 +1,48 @@
+// ============================================
+// TOTP Code Input Component
+// Six-digit authenticator code entry
+// ============================================
+
+import { memo } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { TOTP_DIGITS } from '@/lib/totp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all digits are entered, so the code can be submitted without a click
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+const TotpCodeInput = memo(({ value, onChange, onComplete, disabled, autoFocus }: TotpCodeInputProps) => (
+  <InputOTP
+    maxLength={TOTP_DIGITS}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus={autoFocus}
+    autoComplete="one-time-code"
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      {[0, 1, 2].map((index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      {[3, 4, 5].map((index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+));
+
+TotpCodeInput.displayName = 'TotpCodeInput';
+
+export default TotpCodeInput;
@@ -0,0 +1,129 @@
+// ============================================
+// Two-Factor Challenge Component
+// Second sign-in step after the password was accepted
+// ============================================
+
+import { memo, useState } from 'react';
+import { ArrowLeft, KeyRound, Loader2, ShieldCheck, Smartphone } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import {
+  completeTwoFactorEnrollmentAsync,
+  selectAuth,
+  twoFactorChallengeCleared,
+  verifyTwoFactorAsync,
+} from '@/features/auth/authSlice';
+import { TOTP_DIGITS } from '@/lib/totp';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import TotpCodeInput from './TotpCodeInput';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+
+// Rendered by the login page and the lock screen while `auth.twoFactorChallenge` is set.
+// Accounts with 2FA enter a code; accounts whose role requires 2FA enroll first.
+const TwoFactorChallengeStep = memo(() => {
+  const dispatch = useAppDispatch();
+  const { twoFactorChallenge: challenge, isLoading, error } = useAppSelector(selectAuth);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+
+  if (!challenge) return null;
+
+  const handleBack = () => dispatch(twoFactorChallengeCleared());
+
+  if (challenge.enrollmentRequired) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <ShieldCheck className="h-4 w-4" />
+          <AlertDescription>
+            Your organization requires two-factor authentication for your role. Set it up to finish signing in.
+          </AlertDescription>
+        </Alert>
+        <TwoFactorEnrollment
+          challengeToken={challenge.challengeToken}
+          onComplete={(enrollment) => enrollment.session && dispatch(completeTwoFactorEnrollmentAsync(enrollment.session))}
+          onCancel={handleBack}
+        />
+      </div>
+    );
+  }
+
+  const submit = async (value: string) => {
+    const result = await dispatch(verifyTwoFactorAsync(value));
+    if (verifyTwoFactorAsync.rejected.match(result)) setCode('');
+  };
+
+  const toggleMethod = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        submit(code);
+      }}
+      className="space-y-4"
+    >
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            disabled={isLoading}
+            autoComplete="off"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">Each recovery code can only be used once.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label className="block text-center">Enter the 6-digit code from your authenticator app</Label>
+          <TotpCodeInput value={code} onChange={setCode} onComplete={submit} disabled={isLoading} autoFocus />
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isLoading || (useRecoveryCode ? !code.trim() : code.length < TOTP_DIGITS)}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          'Verify'
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="ghost" size="sm" onClick={handleBack} disabled={isLoading} className="gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <Button type="button" variant="link" size="sm" onClick={toggleMethod} disabled={isLoading} className="gap-2">
+          {useRecoveryCode ? <Smartphone className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </Button>
+      </div>
+    </form>
+  );
+});
+
+TwoFactorChallengeStep.displayName = 'TwoFactorChallengeStep';
+
+export default TwoFactorChallengeStep;
@@ -0,0 +1,170 @@
+// ============================================
+// Two-Factor Enrollment Component
+// QR code, verification and recovery codes for a new TOTP authenticator
+// ============================================
+
+import { memo, useEffect, useState } from 'react';
+import { toDataURL } from 'qrcode';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { formatTotpSecret, TOTP_DIGITS } from '@/lib/totp';
+import { getApiErrorMessage, useEnableTwoFactorMutation, useStartTwoFactorSetupMutation } from '@/services/api';
+import type { TwoFactorEnrollment as TwoFactorEnrollmentResult } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import RecoveryCodes from './RecoveryCodes';
+import TotpCodeInput from './TotpCodeInput';
+
+interface TwoFactorEnrollmentProps {
+  // Enrolls the user of a sign-in challenge instead of the signed-in user
+  challengeToken?: string;
+  // Called after the user confirms the recovery codes are saved
+  onComplete: (enrollment: TwoFactorEnrollmentResult) => void;
+  onCancel?: () => void;
+}
+
+// Step 1 registers the secret in an authenticator app and proves it works with a first code;
+// step 2 shows the recovery codes, which the API never returns again.
+const TwoFactorEnrollment = memo(({ challengeToken, onComplete, onCancel }: TwoFactorEnrollmentProps) => {
+  const [startSetup, { data: setup, error: setupError, isLoading: isStarting }] = useStartTwoFactorSetupMutation();
+  const [enableTwoFactor, { isLoading: isVerifying }] = useEnableTwoFactorMutation();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollmentResult | null>(null);
+  const [hasSavedCodes, setHasSavedCodes] = useState(false);
+
+  useEffect(() => {
+    startSetup(challengeToken ? { challengeToken } : undefined);
+  }, [startSetup, challengeToken]);
+
+  useEffect(() => {
+    if (!setup) return;
+    let cancelled = false;
+    toDataURL(setup.otpauthUrl, { margin: 1, width: 192 })
+      .then((url) => !cancelled && setQrCode(url))
+      .catch(() => !cancelled && setQrCode(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [setup]);
+
+  const handleVerify = async (value = code) => {
+    setError(null);
+    try {
+      setEnrollment(await enableTwoFactor({ code: value, challengeToken }).unwrap());
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+      setCode('');
+    }
+  };
+
+  if (enrollment) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-sm font-medium">Save your recovery codes</h4>
+          <p className="text-sm text-muted-foreground">
+            Two-factor authentication is now on. These codes will not be shown again.
+          </p>
+        </div>
+        <RecoveryCodes codes={enrollment.recoveryCodes} />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="recovery-codes-saved"
+            checked={hasSavedCodes}
+            onCheckedChange={(checked) => setHasSavedCodes(checked === true)}
+          />
+          <Label htmlFor="recovery-codes-saved" className="text-sm font-normal">
+            I have saved my recovery codes
+          </Label>
+        </div>
+        <Button className="w-full" disabled={!hasSavedCodes} onClick={() => onComplete(enrollment)}>
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  if (setupError) {
+    return (
+      <div className="space-y-4">
+        <Alert variant="destructive">
+          <AlertDescription>{getApiErrorMessage(setupError)}</AlertDescription>
+        </Alert>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button onClick={() => startSetup(challengeToken ? { challengeToken } : undefined)} className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isStarting || !setup) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        handleVerify();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </p>
+      <div className="flex justify-center">
+        {qrCode ? (
+          <img src={qrCode} alt="Authenticator setup QR code" className="h-48 w-48 rounded-lg border border-border" />
+        ) : (
+          <div className="h-48 w-48 rounded-lg bg-muted" />
+        )}
+      </div>
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <p className="font-mono text-sm select-all break-all">{formatTotpSecret(setup.secret)}</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label className="block text-center">Enter the 6-digit code from the app</Label>
+        <TotpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={isVerifying} autoFocus />
+      </div>
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isVerifying}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={isVerifying || code.length < TOTP_DIGITS}>
+          {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Verify
+        </Button>
+      </div>
+    </form>
+  );
+});
+
+TwoFactorEnrollment.displayName = 'TwoFactorEnrollment';
+
+export default TwoFactorEnrollment;
@@ -0,0 +1,274 @@
+// ============================================
+// Two-Factor Settings Component
+// Enrollment management and the per-role enforcement policy
+// ============================================
+
+import { memo, useEffect, useState } from 'react';
+import { Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import {
+  getApiErrorMessage,
+  useDisableTwoFactorMutation,
+  useGetTwoFactorPolicyQuery,
+  useGetTwoFactorStatusQuery,
+  useRegenerateRecoveryCodesMutation,
+  useUpdateTwoFactorPolicyMutation,
+} from '@/services/api';
+import { useRoles } from '@/hooks/useRoles';
+import { toast } from '@/hooks/use-toast';
+import { TOTP_DIGITS } from '@/lib/totp';
+import type { Role } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import RecoveryCodes from './RecoveryCodes';
+import TotpCodeInput from './TotpCodeInput';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+import Can from './Can';
+
+interface CodeConfirmDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  isLoading: boolean;
+  error: string | null;
+  onConfirm: (code: string) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sensitive changes are confirmed with a current authenticator code
+const CodeConfirmDialog = memo(
+  ({ open, title, description, confirmLabel, destructive, isLoading, error, onConfirm, onOpenChange }: CodeConfirmDialogProps) => {
+    const [code, setCode] = useState('');
+
+    useEffect(() => {
+      if (!open) setCode('');
+    }, [open]);
+
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <TotpCodeInput value={code} onChange={setCode} disabled={isLoading} autoFocus />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              variant={destructive ? 'destructive' : 'default'}
+              onClick={() => onConfirm(code)}
+              disabled={isLoading || code.length < TOTP_DIGITS}
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+);
+
+CodeConfirmDialog.displayName = 'CodeConfirmDialog';
+
+const TwoFactorPolicySettings = memo(() => {
+  const { data: policy, isLoading } = useGetTwoFactorPolicyQuery();
+  const [updatePolicy, { isLoading: isSaving }] = useUpdateTwoFactorPolicyMutation();
+  const { roles, isLoading: isRolesLoading } = useRoles();
+
+  const handleToggle = async (role: Role, required: boolean) => {
+    const current = policy?.requiredRoles ?? [];
+    const requiredRoles = required ? [...current, role.id] : current.filter((r) => r !== role.id);
+    try {
+      await updatePolicy({ requiredRoles }).unwrap();
+      toast({
+        title: required ? `2FA required for the ${role.name} role` : `2FA optional for the ${role.name} role`,
+        description: required ? 'Members without 2FA will be asked to set it up at their next sign-in.' : undefined,
+      });
+    } catch (err) {
+      toast({ title: 'Failed to update policy', description: getApiErrorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium">Enforcement Policy</h4>
+        <p className="text-sm text-muted-foreground">Require two-factor authentication for everyone in a role.</p>
+      </div>
+      {roles.map((role) => (
+        <div key={role.id} className="flex items-center justify-between">
+          <p className="font-medium">{role.name}</p>
+          <Switch
+            checked={policy?.requiredRoles.includes(role.id) ?? false}
+            onCheckedChange={(checked) => handleToggle(role, checked)}
+            disabled={isLoading || isRolesLoading || isSaving}
+          />
+        </div>
+      ))}
+    </div>
+  );
+});
+
+TwoFactorPolicySettings.displayName = 'TwoFactorPolicySettings';
+
+type ActiveDialog = 'enroll' | 'disable' | 'regenerate' | null;
+
+const TwoFactorSettings = memo(() => {
+  const { data: status, isLoading } = useGetTwoFactorStatusQuery();
+  const [disableTwoFactor, { isLoading: isDisabling }] = useDisableTwoFactorMutation();
+  const [regenerateCodes, { isLoading: isRegenerating }] = useRegenerateRecoveryCodesMutation();
+  const [activeDialog, setActiveDialog] = useState<ActiveDialog>(null);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const openDialog = (dialog: ActiveDialog) => {
+    setDialogError(null);
+    setActiveDialog(dialog);
+  };
+
+  const handleDisable = async (code: string) => {
+    try {
+      await disableTwoFactor({ code }).unwrap();
+      setActiveDialog(null);
+      toast({ title: 'Two-factor authentication turned off' });
+    } catch (err) {
+      setDialogError(getApiErrorMessage(err));
+    }
+  };
+
+  const handleRegenerate = async (code: string) => {
+    try {
+      const result = await regenerateCodes({ code }).unwrap();
+      setActiveDialog(null);
+      setNewCodes(result.recoveryCodes);
+    } catch (err) {
+      setDialogError(getApiErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-medium">Two-Factor Authentication</h4>
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : status?.enabled ? (
+        <>
+          <div className="bg-muted rounded-lg p-4 flex items-start gap-3">
+            <ShieldCheck className="h-5 w-5 text-success mt-0.5" />
+            <div>
+              <p className="font-medium">Enabled with an authenticator app</p>
+              <p className="text-sm text-muted-foreground">
+                {status.enabledAt && `Since ${new Date(status.enabledAt).toLocaleDateString()} • `}
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => openDialog('regenerate')}>
+              New Recovery Codes
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => openDialog('disable')}
+              disabled={status.required}
+              className="gap-2"
+            >
+              <ShieldOff className="h-4 w-4" />
+              Disable 2FA
+            </Button>
+          </div>
+          {status.required && (
+            <p className="text-xs text-muted-foreground">Two-factor authentication is required for your role.</p>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Add an extra layer of security to your account.
+            {status?.required && ' Your role requires it from your next sign-in.'}
+          </p>
+          <Button variant="outline" onClick={() => openDialog('enroll')}>
+            Enable 2FA
+          </Button>
+        </>
+      )}
+
+      <Can permission="settings:write">
+        <Separator />
+        <TwoFactorPolicySettings />
+      </Can>
+
+      <Dialog open={activeDialog === 'enroll'} onOpenChange={(open) => !open && setActiveDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>You will be asked for a code from your authenticator app when signing in.</DialogDescription>
+          </DialogHeader>
+          {activeDialog === 'enroll' && (
+            <TwoFactorEnrollment
+              onComplete={() => {
+                setActiveDialog(null);
+                toast({ title: 'Two-factor authentication enabled' });
+              }}
+              onCancel={() => setActiveDialog(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CodeConfirmDialog
+        open={activeDialog === 'disable'}
+        title="Disable Two-Factor Authentication"
+        description="Enter a code from your authenticator app to turn off two-factor authentication."
+        confirmLabel="Disable"
+        destructive
+        isLoading={isDisabling}
+        error={dialogError}
+        onConfirm={handleDisable}
+        onOpenChange={(open) => !open && setActiveDialog(null)}
+      />
+
+      <CodeConfirmDialog
+        open={activeDialog === 'regenerate'}
+        title="Generate New Recovery Codes"
+        description="Your existing recovery codes will stop working. Enter a code from your authenticator app to continue."
+        confirmLabel="Generate"
+        isLoading={isRegenerating}
+        error={dialogError}
+        onConfirm={handleRegenerate}
+        onOpenChange={(open) => !open && setActiveDialog(null)}
+      />
+
+      <Dialog open={newCodes !== null} onOpenChange={(open) => !open && setNewCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Recovery Codes</DialogTitle>
+            <DialogDescription>Your previous codes no longer work. These will not be shown again.</DialogDescription>
+          </DialogHeader>
+          {newCodes && <RecoveryCodes codes={newCodes} />}
+          <DialogFooter>
+            <Button onClick={() => setNewCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+TwoFactorSettings.displayName = 'TwoFactorSettings';
+
+export default TwoFactorSettings;
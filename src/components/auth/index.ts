@@ -0,0 +1,20 @@
+// ============================================
+// Auth Component Exports
+// ============================================
+
+export { default as TotpCodeInput } from './TotpCodeInput';
+export { default as RecoveryCodes } from './RecoveryCodes';
+export { default as TwoFactorEnrollment } from './TwoFactorEnrollment';
+export { default as TwoFactorChallengeStep } from './TwoFactorChallengeStep';
+export { default as TwoFactorSettings } from './TwoFactorSettings';
+export { default as PasswordStrengthMeter } from './PasswordStrengthMeter';
+export { default as PasswordChangeForm } from './PasswordChangeForm';
+export { default as LoginErrorAlert } from './LoginErrorAlert';
+export { default as SsoSignInButton } from './SsoSignInButton';
+export { default as Can } from './Can';
+export { default as RoleSettings } from './RoleSettings';
+export { default as PermissionMatrix } from './PermissionMatrix';
+export { default as RoleFormDialog } from './RoleFormDialog';
+export { default as RoleImpactDialog } from './RoleImpactDialog';
+export { default as ImpersonateDialog } from './ImpersonateDialog';
+export { default as ImpersonationLog } from './ImpersonationLog';
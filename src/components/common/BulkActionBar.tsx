@@ -0,0 +1,67 @@
+// ============================================
+// Bulk Action Bar Component
+// Selection summary and actions for selected table rows
+// ============================================
+
+import { memo } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  pageRowCount: number;
+  totalCount: number;
+  isAllMatching: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  itemLabel?: string;
+  // Shown after the selection summary, e.g. rows the actions will leave out
+  note?: string;
+  children?: React.ReactNode;
+}
+
+const BulkActionBar = memo(
+  ({
+    selectedCount,
+    pageRowCount,
+    totalCount,
+    isAllMatching,
+    onSelectAllMatching,
+    onClear,
+    itemLabel = 'rows',
+    note,
+    children,
+  }: BulkActionBarProps) => {
+    if (selectedCount === 0 && !isAllMatching) return null;
+
+    // Offer to extend a full-page selection to every matching row
+    const canSelectAllMatching = !isAllMatching && selectedCount === pageRowCount && totalCount > pageRowCount;
+
+    return (
+      <div className="flex flex-wrap items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 px-4 py-2 animate-fade-in">
+        <span className="text-sm font-medium">
+          {isAllMatching
+            ? `All ${totalCount.toLocaleString()} matching ${itemLabel} selected`
+            : `${selectedCount.toLocaleString()} selected`}
+        </span>
+        {canSelectAllMatching && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAllMatching}>
+            Select all {totalCount.toLocaleString()} matching {itemLabel}
+          </Button>
+        )}
+        {note && <span className="text-sm text-muted-foreground">{note}</span>}
+        <div className="ml-auto flex items-center gap-2">
+          {children}
+          <Button variant="ghost" size="sm" className="gap-1" onClick={onClear}>
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+    );
+  }
+);
+
+BulkActionBar.displayName = 'BulkActionBar';
+
+export default BulkActionBar;
@@ -0,0 +1,122 @@
+// ============================================
+// Cell Editor Component
+// In-place input used by editable DataTable cells
+// ============================================
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export type CellParseResult = { success: true; value: unknown } | { success: false; error: string };
+
+export interface ColumnEditor {
+  type: 'text' | 'number' | 'select';
+  options?: { label: string; value: string }[];
+  // Validates and converts the raw input; the string is committed as-is when omitted
+  parse?: (input: string) => CellParseResult;
+}
+
+// How the editor was left, so the table can move focus like a spreadsheet
+export type CellEditorExit = 'enter' | 'tab' | 'shift-tab' | 'escape' | 'blur';
+
+interface CellEditorProps {
+  editor: ColumnEditor;
+  initialValue: string;
+  onCommit: (value: unknown, exit: CellEditorExit) => void;
+  onCancel: (exit: CellEditorExit) => void;
+}
+
+const CellEditor = memo(({ editor, initialValue, onCommit, onCancel }: CellEditorProps) => {
+  const [draft, setDraft] = useState(initialValue);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isDoneRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const finish = (input: string, exit: CellEditorExit) => {
+    if (isDoneRef.current) return;
+    const result: CellParseResult = editor.parse ? editor.parse(input) : { success: true, value: input };
+    if ('error' in result) {
+      // Leaving the cell with an invalid value discards the edit instead of trapping focus
+      if (exit === 'blur') {
+        isDoneRef.current = true;
+        onCancel(exit);
+      } else {
+        setError(result.error);
+      }
+      return;
+    }
+    isDoneRef.current = true;
+    onCommit(result.value, exit);
+  };
+
+  const cancel = (exit: CellEditorExit) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    onCancel(exit);
+  };
+
+  if (editor.type === 'select') {
+    return (
+      <Select
+        defaultOpen
+        value={draft}
+        onValueChange={(value) => {
+          setDraft(value);
+          finish(value, 'enter');
+        }}
+        onOpenChange={(open) => !open && cancel('escape')}
+      >
+        <SelectTrigger className="h-8" onClick={(e) => e.stopPropagation()}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {editor.options?.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      ref={inputRef}
+      type={editor.type === 'number' ? 'number' : 'text'}
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        setError(null);
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          finish(draft, 'enter');
+        } else if (e.key === 'Tab') {
+          e.preventDefault();
+          finish(draft, e.shiftKey ? 'shift-tab' : 'tab');
+        } else if (e.key === 'Escape') {
+          e.preventDefault();
+          cancel('escape');
+        }
+      }}
+      onBlur={() => finish(draft, 'blur')}
+      aria-invalid={!!error}
+      title={error ?? undefined}
+      className={cn('h-8 px-2', error && 'border-destructive focus-visible:ring-destructive')}
+    />
+  );
+});
+
+CellEditor.displayName = 'CellEditor';
+
+export default CellEditor;
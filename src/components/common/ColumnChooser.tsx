@@ -0,0 +1,133 @@
+// ============================================
+// Column Chooser Component
+// Toggles, reorders and pins DataTable columns
+// ============================================
+
+import { memo } from 'react';
+import { ArrowDown, ArrowLeftToLine, ArrowRightToLine, ArrowUp, Columns3, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { applyColumnLayout } from '@/lib/tableQuery';
+import type { ColumnLayout } from '@/types';
+import type { Column } from './DataTable';
+
+interface ColumnChooserProps<T> {
+  columns: Column<T>[];
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+  onReset: () => void;
+}
+
+function ColumnChooserInner<T>({ columns, layout, onChange, onReset }: ColumnChooserProps<T>) {
+  // Hidden columns are listed too, in their saved position
+  const ordered = applyColumnLayout(columns, { order: layout.order, hidden: [] });
+  const visibleCount = ordered.filter((c) => !layout.hidden.includes(c.id)).length;
+
+  const toggleHidden = (id: string, visible: boolean) => {
+    onChange({
+      ...layout,
+      hidden: visible ? layout.hidden.filter((h) => h !== id) : [...layout.hidden, id],
+    });
+  };
+
+  const move = (index: number, offset: -1 | 1) => {
+    const order = ordered.map((c) => c.id);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    onChange({ ...layout, order });
+  };
+
+  const togglePin = (id: string, side: 'left' | 'right') => {
+    const pinned = { ...layout.pinned };
+    if (pinned[id] === side) {
+      delete pinned[id];
+    } else {
+      pinned[id] = side;
+    }
+    onChange({ ...layout, pinned });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Columns3 className="h-4 w-4" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <div className="flex items-center justify-between px-2 py-1">
+          <span className="text-sm font-medium">Columns</span>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={onReset}>
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </Button>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {ordered.map((column, index) => {
+            const isVisible = !layout.hidden.includes(column.id);
+            const pinned = layout.pinned[column.id];
+            // Keep at least one column on screen
+            const canHide = column.hideable !== false && (!isVisible || visibleCount > 1);
+            return (
+              <div key={column.id} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-muted/50">
+                <Checkbox
+                  checked={isVisible}
+                  disabled={!canHide}
+                  onCheckedChange={(checked) => toggleHidden(column.id, checked === true)}
+                  aria-label={`Show ${column.header || column.id}`}
+                />
+                <span className={cn('flex-1 truncate text-sm', !isVisible && 'text-muted-foreground')}>
+                  {column.header || column.id}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn('h-6 w-6', pinned === 'left' && 'text-primary')}
+                  onClick={() => togglePin(column.id, 'left')}
+                  title={pinned === 'left' ? 'Unpin' : 'Pin left'}
+                >
+                  <ArrowLeftToLine className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn('h-6 w-6', pinned === 'right' && 'text-primary')}
+                  onClick={() => togglePin(column.id, 'right')}
+                  title={pinned === 'right' ? 'Unpin' : 'Pin right'}
+                >
+                  <ArrowRightToLine className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === ordered.length - 1}
+                  onClick={() => move(index, 1)}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+const ColumnChooser = memo(ColumnChooserInner) as typeof ColumnChooserInner;
+
+export default ColumnChooser;
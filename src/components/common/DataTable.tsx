@@ -3,15 +3,19 @@
 // Enterprise-grade table with virtualization
 // ============================================
 
-import { memo, useCallback, useMemo, useRef } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import EmptyState from '@/components/common/EmptyState';
+import CellEditor, { type CellEditorExit, type ColumnEditor } from '@/components/common/CellEditor';
 import { config } from '@/config';
+import { applyColumnLayout, moveColumn } from '@/lib/tableQuery';
+import type { ColumnLayout, SortConfig } from '@/types';
 
 export interface Column<T> {
   id: string;
@@ -19,10 +23,28 @@ export interface Column<T> {
   accessor: keyof T | ((row: T) => React.ReactNode);
   sortable?: boolean;
   width?: number | string;
+  minWidth?: number;
+  // Whether users may resize/hide the column when the layout is user-managed (default true)
+  resizable?: boolean;
+  hideable?: boolean;
   className?: string;
   cell?: (value: unknown, row: T) => React.ReactNode;
+  // Inline editing; only active when the table has an `onCellEdit` handler
+  editable?: boolean | ((row: T) => boolean);
+  editor?: ColumnEditor;
 }
 
+interface CellPosition {
+  rowIndex: number;
+  columnId: string;
+}
+
+type CellDirection = 'up' | 'down' | 'left' | 'right' | 'next' | 'prev';
+
+const DEFAULT_COLUMN_WIDTH = 150;
+const MIN_COLUMN_WIDTH = 60;
+const SELECTION_COLUMN_WIDTH = 44;
+
 interface DataTableProps<T> {
   data: T[];
   columns: Column<T>[];
@@ -36,9 +58,19 @@ interface DataTableProps<T> {
   };
   onPageChange?: (page: number) => void;
   onPageSizeChange?: (pageSize: number) => void;
-  sortConfig?: { field: string; direction: 'asc' | 'desc' } | null;
-  onSort?: (field: string) => void;
+  sortConfig?: SortConfig[];
+  // `multi` is true when the header was shift-clicked to add a secondary sort key
+  onSort?: (field: string, multi: boolean) => void;
   onRowClick?: (row: T) => void;
+  // Column visibility/order/width/pinning; columns render in declaration order when omitted
+  columnLayout?: ColumnLayout;
+  // Enables drag-to-reorder and drag-to-resize headers
+  onColumnLayoutChange?: (layout: ColumnLayout) => void;
+  // Row selection; passing `onSelectionChange` adds a pinned checkbox column
+  selectedRowKeys?: string[];
+  onSelectionChange?: (keys: string[]) => void;
+  // Called with the parsed value when an editable cell is committed with a changed value
+  onCellEdit?: (row: T, columnId: string, value: unknown) => void;
   rowKey: keyof T | ((row: T) => string);
   emptyTitle?: string;
   emptyDescription?: string;
@@ -58,6 +90,11 @@ function DataTableInner<T>({
   sortConfig,
   onSort,
   onRowClick,
+  columnLayout,
+  onColumnLayoutChange,
+  selectedRowKeys = [],
+  onSelectionChange,
+  onCellEdit,
   rowKey,
   emptyTitle = 'No data found',
   emptyDescription = 'There are no items to display.',
@@ -67,6 +104,116 @@ function DataTableInner<T>({
 }: DataTableProps<T>) {
   const parentRef = useRef<HTMLDivElement>(null);
 
+  const isLayoutManaged = !!columnLayout && !!onColumnLayoutChange;
+  const [draggedColumnId, setDraggedColumnId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [resizing, setResizing] = useState<{ id: string; width: number } | null>(null);
+  const stopResizeRef = useRef<(() => void) | null>(null);
+  const lastSelectedIndexRef = useRef<number | null>(null);
+  const isSelectable = !!onSelectionChange;
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  const isFocusPendingRef = useRef(false);
+
+  // Remove window listeners if unmounted mid-resize
+  useEffect(() => () => stopResizeRef.current?.(), []);
+
+  // Ordered, visible columns with pinned ones moved to the edges
+  const visibleColumns = useMemo(() => {
+    if (!columnLayout) return columns;
+    const ordered = applyColumnLayout(columns, columnLayout);
+    const pinnedTo = (side: 'left' | 'right') => ordered.filter((c) => columnLayout.pinned[c.id] === side);
+    return [...pinnedTo('left'), ...ordered.filter((c) => !columnLayout.pinned[c.id]), ...pinnedTo('right')];
+  }, [columns, columnLayout]);
+
+  const getColumnWidth = useCallback(
+    (column: Column<T>): number | string | undefined => {
+      if (resizing?.id === column.id) return resizing.width;
+      return columnLayout?.widths[column.id] ?? column.width ?? (isLayoutManaged ? DEFAULT_COLUMN_WIDTH : undefined);
+    },
+    [columnLayout, isLayoutManaged, resizing]
+  );
+
+  // Sticky offsets for pinned columns, accumulated from each edge
+  const pinnedOffsets = useMemo(() => {
+    const offsets: Record<string, { side: 'left' | 'right'; offset: number; isEdge: boolean }> = {};
+    const numericWidth = (column: Column<T>) => {
+      const width = getColumnWidth(column);
+      return typeof width === 'number' ? width : DEFAULT_COLUMN_WIDTH;
+    };
+    const left = visibleColumns.filter((c) => columnLayout?.pinned[c.id] === 'left');
+    const right = visibleColumns.filter((c) => columnLayout?.pinned[c.id] === 'right').reverse();
+    let offset = isSelectable ? SELECTION_COLUMN_WIDTH : 0;
+    left.forEach((column, index) => {
+      offsets[column.id] = { side: 'left', offset, isEdge: index === left.length - 1 };
+      offset += numericWidth(column);
+    });
+    offset = 0;
+    right.forEach((column, index) => {
+      offsets[column.id] = { side: 'right', offset, isEdge: index === right.length - 1 };
+      offset += numericWidth(column);
+    });
+    return offsets;
+  }, [visibleColumns, columnLayout, getColumnWidth, isSelectable]);
+
+  const getCellProps = (column: Column<T>) => {
+    const width = getColumnWidth(column);
+    const pinned = pinnedOffsets[column.id];
+    return {
+      style: {
+        width,
+        minWidth: isLayoutManaged ? width : column.minWidth,
+        ...(pinned && { [pinned.side]: pinned.offset }),
+      },
+      className: cn(
+        column.className,
+        pinned && 'cell-pinned',
+        pinned?.isEdge && (pinned.side === 'left' ? 'cell-pinned-left-edge' : 'cell-pinned-right-edge')
+      ),
+    };
+  };
+
+  const handleResizeStart = (e: React.MouseEvent, column: Column<T>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!columnLayout || !onColumnLayoutChange) return;
+
+    const header = (e.currentTarget as HTMLElement).closest('th');
+    const startX = e.clientX;
+    const startWidth = header?.getBoundingClientRect().width ?? DEFAULT_COLUMN_WIDTH;
+    const minWidth = column.minWidth ?? MIN_COLUMN_WIDTH;
+    let width = startWidth;
+
+    const onMouseMove = (event: MouseEvent) => {
+      width = Math.max(minWidth, Math.round(startWidth + event.clientX - startX));
+      setResizing({ id: column.id, width });
+    };
+    const stop = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+      stopResizeRef.current = null;
+    };
+    const onMouseUp = () => {
+      stop();
+      setResizing(null);
+      onColumnLayoutChange({ ...columnLayout, widths: { ...columnLayout.widths, [column.id]: width } });
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+    stopResizeRef.current = stop;
+    setResizing({ id: column.id, width });
+  };
+
+  const handleColumnDrop = (targetId: string) => {
+    if (columnLayout && onColumnLayoutChange && draggedColumnId) {
+      const fullOrder = applyColumnLayout(columns, { order: columnLayout.order, hidden: [] }).map((c) => c.id);
+      onColumnLayoutChange({ ...columnLayout, order: moveColumn(fullOrder, draggedColumnId, targetId) });
+    }
+    setDraggedColumnId(null);
+    setDropTargetId(null);
+  };
+
   const getRowKey = useCallback(
     (row: T): string => {
       if (typeof rowKey === 'function') {
@@ -94,6 +241,124 @@ function DataTableInner<T>({
 
   const virtualRows = virtualizer.getVirtualItems();
 
+  const selectedKeySet = useMemo(() => new Set(selectedRowKeys), [selectedRowKeys]);
+  const pageKeys = useMemo(() => data.map(getRowKey), [data, getRowKey]);
+  const selectedOnPage = pageKeys.filter((key) => selectedKeySet.has(key)).length;
+
+  // Shift-click selects (or clears) the range from the previously clicked row
+  const handleRowSelect = (index: number, shiftKey: boolean) => {
+    if (!onSelectionChange) return;
+    const key = pageKeys[index];
+    const shouldSelect = !selectedKeySet.has(key);
+    const anchor = lastSelectedIndexRef.current;
+    const rangeKeys =
+      shiftKey && anchor !== null && anchor < pageKeys.length
+        ? pageKeys.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+        : [key];
+    const next = new Set(selectedKeySet);
+    rangeKeys.forEach((k) => (shouldSelect ? next.add(k) : next.delete(k)));
+    lastSelectedIndexRef.current = index;
+    onSelectionChange(pageKeys.filter((k) => next.has(k)));
+  };
+
+  const handleSelectPage = () => {
+    lastSelectedIndexRef.current = null;
+    onSelectionChange?.(selectedOnPage === pageKeys.length ? [] : pageKeys);
+  };
+
+  // Keyboard navigation moves between editable cells only
+  const editableColumnIds = useMemo(
+    () => (onCellEdit ? visibleColumns.filter((c) => c.editor && c.editable).map((c) => c.id) : []),
+    [visibleColumns, onCellEdit]
+  );
+
+  // A new set of rows invalidates cell positions; optimistic edits keep the same keys
+  const pageKeySignature = pageKeys.join('|');
+  useEffect(() => {
+    setActiveCell(null);
+    setEditingCell(null);
+  }, [pageKeySignature]);
+
+  // Moves DOM focus after navigation, once the target cell has rendered
+  useEffect(() => {
+    if (!isFocusPendingRef.current || !activeCell || editingCell) return;
+    isFocusPendingRef.current = false;
+    parentRef.current
+      ?.querySelector<HTMLElement>(`[data-cell="${activeCell.rowIndex}:${activeCell.columnId}"]`)
+      ?.focus();
+  });
+
+  const isCellEditable = (row: T, column: Column<T>) =>
+    !!onCellEdit &&
+    !!column.editor &&
+    (typeof column.editable === 'function' ? column.editable(row) : !!column.editable);
+
+  const focusCell = (cell: CellPosition) => {
+    setActiveCell(cell);
+    isFocusPendingRef.current = true;
+    if (enableVirtualization) virtualizer.scrollToIndex(cell.rowIndex);
+  };
+
+  const getNeighbourCell = (cell: CellPosition, direction: CellDirection): CellPosition | null => {
+    let rowIndex = cell.rowIndex;
+    let columnIndex = editableColumnIds.indexOf(cell.columnId);
+    const lastColumn = editableColumnIds.length - 1;
+    if (direction === 'up') rowIndex -= 1;
+    if (direction === 'down') rowIndex += 1;
+    if (direction === 'left' || direction === 'prev') columnIndex -= 1;
+    if (direction === 'right' || direction === 'next') columnIndex += 1;
+    // Tab order wraps onto the next/previous row
+    if (direction === 'next' && columnIndex > lastColumn) [rowIndex, columnIndex] = [rowIndex + 1, 0];
+    if (direction === 'prev' && columnIndex < 0) [rowIndex, columnIndex] = [rowIndex - 1, lastColumn];
+    if (rowIndex < 0 || rowIndex >= data.length || columnIndex < 0 || columnIndex > lastColumn) return null;
+    return { rowIndex, columnId: editableColumnIds[columnIndex] };
+  };
+
+  const startEditing = (cell: CellPosition) => {
+    const column = visibleColumns.find((c) => c.id === cell.columnId);
+    if (!column || !isCellEditable(data[cell.rowIndex], column)) return;
+    setActiveCell(cell);
+    setEditingCell(cell);
+  };
+
+  const handleCellKeyDown = (e: React.KeyboardEvent, cell: CellPosition) => {
+    const directions: Record<string, CellDirection> = {
+      ArrowUp: 'up',
+      ArrowDown: 'down',
+      ArrowLeft: 'left',
+      ArrowRight: 'right',
+      Tab: e.shiftKey ? 'prev' : 'next',
+    };
+    if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      startEditing(cell);
+      return;
+    }
+    const direction = directions[e.key];
+    const target = direction && getNeighbourCell(cell, direction);
+    // Tab past the last editable cell falls through to normal focus order
+    if (target) {
+      e.preventDefault();
+      focusCell(target);
+    }
+  };
+
+  const handleEditorCommit = (cell: CellPosition, row: T, column: Column<T>, value: unknown, exit: CellEditorExit) => {
+    if (value !== getCellValue(row, column.accessor)) {
+      onCellEdit?.(row, column.id, value);
+    }
+    handleEditorExit(cell, exit);
+  };
+
+  // Enter moves down and Tab moves across, as in a spreadsheet
+  const handleEditorExit = (cell: CellPosition, exit: CellEditorExit) => {
+    setEditingCell(null);
+    if (exit === 'blur') return;
+    const direction: CellDirection | null =
+      exit === 'enter' ? 'down' : exit === 'tab' ? 'next' : exit === 'shift-tab' ? 'prev' : null;
+    focusCell((direction && getNeighbourCell(cell, direction)) || cell);
+  };
+
   // Loading state
   if (isLoading && data.length === 0) {
     return (
@@ -124,15 +389,104 @@ function DataTableInner<T>({
     );
   }
 
+  const tableWidth = visibleColumns.reduce(
+    (sum, column) => {
+      const width = getColumnWidth(column);
+      return sum + (typeof width === 'number' ? width : DEFAULT_COLUMN_WIDTH);
+    },
+    isSelectable ? SELECTION_COLUMN_WIDTH : 0
+  );
+
   const renderSortIcon = (columnId: string) => {
-    if (!sortConfig || sortConfig.field !== columnId) {
+    const index = sortConfig?.findIndex((s) => s.field === columnId) ?? -1;
+    if (index === -1) {
       return <ArrowUpDown className="h-4 w-4 text-muted-foreground/50" />;
     }
-    return sortConfig.direction === 'asc' ? (
+    const icon = sortConfig[index].direction === 'asc' ? (
       <ArrowUp className="h-4 w-4 text-primary" />
     ) : (
       <ArrowDown className="h-4 w-4 text-primary" />
     );
+    // Show the sort priority once more than one key is active
+    return sortConfig.length > 1 ? (
+      <span className="flex items-center text-primary">
+        {icon}
+        <span className="text-[10px] font-semibold leading-none">{index + 1}</span>
+      </span>
+    ) : (
+      icon
+    );
+  };
+
+  const renderRow = (row: T, index: number, style?: React.CSSProperties) => {
+    const key = pageKeys[index];
+    const isSelected = selectedKeySet.has(key);
+    return (
+      <tr
+        key={key}
+        onClick={() => onRowClick?.(row)}
+        className={cn(onRowClick && 'cursor-pointer', isSelected && 'bg-primary/5')}
+        data-state={isSelected ? 'selected' : undefined}
+        style={style}
+      >
+        {isSelectable && (
+          <td className="cell-pinned" style={{ width: SELECTION_COLUMN_WIDTH, left: 0 }}>
+            <Checkbox
+              checked={isSelected}
+              onClick={(e) => {
+                // Handled here rather than in onCheckedChange, which doesn't expose shiftKey
+                e.preventDefault();
+                e.stopPropagation();
+                handleRowSelect(index, e.shiftKey);
+              }}
+              aria-label="Select row"
+            />
+          </td>
+        )}
+        {visibleColumns.map((column) => {
+          const value = getCellValue(row, column.accessor);
+          const cellProps = getCellProps(column);
+          const content = column.cell ? column.cell(value, row) : String(value ?? '');
+          if (!column.editor || !isCellEditable(row, column)) {
+            return (
+              <td key={column.id} style={cellProps.style} className={cellProps.className}>
+                {content}
+              </td>
+            );
+          }
+
+          const cell = { rowIndex: index, columnId: column.id };
+          const isActive = activeCell?.rowIndex === index && activeCell.columnId === column.id;
+          const isEditing = editingCell?.rowIndex === index && editingCell.columnId === column.id;
+          return (
+            <td
+              key={column.id}
+              style={cellProps.style}
+              className={cn(cellProps.className, 'cell-editable')}
+              data-cell={`${index}:${column.id}`}
+              tabIndex={isActive ? 0 : -1}
+              // Clicking selects the cell instead of the row; double-click edits it
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={() => startEditing(cell)}
+              onFocus={() => setActiveCell(cell)}
+              // The editor's keys, including its portalled select menu, still bubble up here
+              onKeyDown={isEditing ? undefined : (e) => handleCellKeyDown(e, cell)}
+            >
+              {isEditing ? (
+                <CellEditor
+                  editor={column.editor}
+                  initialValue={String(value ?? '')}
+                  onCommit={(next, exit) => handleEditorCommit(cell, row, column, next, exit)}
+                  onCancel={(exit) => handleEditorExit(cell, exit)}
+                />
+              ) : (
+                content
+              )}
+            </td>
+          );
+        })}
+      </tr>
+    );
   };
 
   return (
@@ -143,28 +497,78 @@ function DataTableInner<T>({
         className="overflow-auto"
         style={{ maxHeight: enableVirtualization ? maxHeight : undefined }}
       >
-        <table className="table-enterprise">
+        <table
+          className="table-enterprise"
+          // Fixed layout lets user-set widths win over content width; the table scrolls horizontally when wider
+          style={isLayoutManaged ? { tableLayout: 'fixed', width: tableWidth, minWidth: '100%' } : undefined}
+        >
           <thead>
             <tr>
-              {columns.map((column) => (
-                <th
-                  key={column.id}
-                  style={{ width: column.width }}
-                  className={cn(column.className)}
-                >
-                  {column.sortable && onSort ? (
-                    <button
-                      onClick={() => onSort(column.id)}
-                      className="flex items-center gap-1 hover:text-foreground transition-colors"
-                    >
-                      {column.header}
-                      {renderSortIcon(column.id)}
-                    </button>
-                  ) : (
-                    column.header
-                  )}
+              {isSelectable && (
+                <th className="cell-pinned" style={{ width: SELECTION_COLUMN_WIDTH, left: 0 }}>
+                  <Checkbox
+                    checked={
+                      selectedOnPage === 0 ? false : selectedOnPage === pageKeys.length ? true : 'indeterminate'
+                    }
+                    onCheckedChange={handleSelectPage}
+                    aria-label="Select all rows on this page"
+                  />
                 </th>
-              ))}
+              )}
+              {visibleColumns.map((column) => {
+                const cellProps = getCellProps(column);
+                return (
+                  <th
+                    key={column.id}
+                    style={cellProps.style}
+                    className={cn(
+                      cellProps.className,
+                      isLayoutManaged && 'relative select-none',
+                      dropTargetId === column.id && draggedColumnId !== column.id && 'bg-primary/10'
+                    )}
+                    draggable={isLayoutManaged && !resizing}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedColumnId(column.id);
+                    }}
+                    onDragOver={(e) => {
+                      if (!draggedColumnId) return;
+                      e.preventDefault();
+                      setDropTargetId(column.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedColumnId(null);
+                      setDropTargetId(null);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleColumnDrop(column.id);
+                    }}
+                  >
+                    {column.sortable && onSort ? (
+                      <button
+                        onClick={(e) => onSort(column.id, e.shiftKey)}
+                        className="flex items-center gap-1 hover:text-foreground transition-colors"
+                        title="Click to sort, shift-click to add a secondary sort"
+                      >
+                        {column.header}
+                        {renderSortIcon(column.id)}
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+                    {isLayoutManaged && column.resizable !== false && (
+                      <div
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={`Resize ${column.header || column.id} column`}
+                        onMouseDown={(e) => handleResizeStart(e, column)}
+                        className={cn('column-resize-handle', resizing?.id === column.id && 'bg-primary')}
+                      />
+                    )}
+                  </th>
+                );
+              })}
             </tr>
           </thead>
           <tbody>
@@ -173,47 +577,15 @@ function DataTableInner<T>({
                 {virtualRows.length > 0 && (
                   <tr style={{ height: virtualRows[0].start }} />
                 )}
-                {virtualRows.map((virtualRow) => {
-                  const row = data[virtualRow.index];
-                  return (
-                    <tr
-                      key={getRowKey(row)}
-                      onClick={() => onRowClick?.(row)}
-                      className={cn(onRowClick && 'cursor-pointer')}
-                      style={{ height: rowHeight }}
-                    >
-                      {columns.map((column) => {
-                        const value = getCellValue(row, column.accessor);
-                        return (
-                          <td key={column.id} className={column.className}>
-                            {column.cell ? column.cell(value, row) : String(value ?? '')}
-                          </td>
-                        );
-                      })}
-                    </tr>
-                  );
-                })}
+                {virtualRows.map((virtualRow) =>
+                  renderRow(data[virtualRow.index], virtualRow.index, { height: rowHeight })
+                )}
                 {virtualRows.length > 0 && (
                   <tr style={{ height: virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end }} />
                 )}
               </>
             ) : (
-              data.map((row) => (
-                <tr
-                  key={getRowKey(row)}
-                  onClick={() => onRowClick?.(row)}
-                  className={cn(onRowClick && 'cursor-pointer')}
-                >
-                  {columns.map((column) => {
-                    const value = getCellValue(row, column.accessor);
-                    return (
-                      <td key={column.id} className={column.className}>
-                        {column.cell ? column.cell(value, row) : String(value ?? '')}
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))
+              data.map((row, index) => renderRow(row, index))
             )}
           </tbody>
         </table>
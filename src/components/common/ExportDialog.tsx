@@ -0,0 +1,154 @@
+// ============================================
+// Export Dialog Component
+// Exports every row matching a table's current query
+// ============================================
+
+import { memo, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { useAppSelector } from '@/app/hooks';
+import { selectProductsTableState } from '@/features/products/productsSlice';
+import { selectUsersTableState } from '@/features/users/usersSlice';
+import { readStoredColumnLayout } from '@/hooks/useColumnLayout';
+import { useTableExport } from '@/hooks/useTableExport';
+import { getExportColumns, type ExportFormat } from '@/services/exportService';
+import type { TableId } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+const entityLabels: Record<TableId, string> = {
+  products: 'Products',
+  users: 'Users',
+};
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Tables the user can choose from; the first one is preselected
+  entities: TableId[];
+}
+
+const ExportDialog = memo(({ open, onOpenChange, entities }: ExportDialogProps) => {
+  const [entity, setEntity] = useState<TableId>(entities[0]);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const { isExporting, progress, startExport, cancelExport } = useTableExport();
+
+  // Table state lives in the store, and column layouts are persisted on every change,
+  // so exports match what the user last saw even from other pages
+  const tableStates = {
+    products: useAppSelector(selectProductsTableState),
+    users: useAppSelector(selectUsersTableState),
+  };
+  const tableState = tableStates[entity];
+  const layout = readStoredColumnLayout(entity) ?? undefined;
+  const columns = getExportColumns(entity, layout);
+  const percent = progress && progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isExporting) cancelExport();
+    onOpenChange(next);
+  };
+
+  const handleExport = async () => {
+    const ok = await startExport({ entity, tableState, format, layout });
+    if (ok) onOpenChange(false);
+  };
+
+  const criteria = [
+    tableState.search && `search "${tableState.search}"`,
+    tableState.filters.length > 0 && `${tableState.filters.length} filter${tableState.filters.length > 1 ? 's' : ''}`,
+    tableState.sort.length > 0 && `sorted by ${tableState.sort.map((s) => s.field).join(', ')}`,
+  ].filter(Boolean);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Data</DialogTitle>
+          <DialogDescription>
+            Exports all matching rows, not just the current page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {entities.length > 1 && (
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Select value={entity} onValueChange={(value) => setEntity(value as TableId)} disabled={isExporting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {entities.map((e) => (
+                    <SelectItem key={e} value={e}>
+                      {entityLabels[e]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex gap-4"
+              disabled={isExporting}
+            >
+              {formats.map((f) => (
+                <label key={f.value} className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value={f.value} />
+                  {f.label}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="rounded-md bg-muted/50 p-3 text-xs text-muted-foreground space-y-1">
+            <p>Rows: {criteria.length > 0 ? criteria.join(', ') : 'all records'}</p>
+            <p>Columns: {columns.map((c) => c.header).join(', ')}</p>
+          </div>
+          {isExporting && (
+            <div className="space-y-2">
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {progress
+                  ? `${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()} rows`
+                  : 'Starting export...'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={cancelExport}>
+              Cancel export
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          )}
+          <Button onClick={handleExport} disabled={isExporting} className="gap-2">
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ExportDialog.displayName = 'ExportDialog';
+
+export default ExportDialog;
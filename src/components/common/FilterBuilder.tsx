@@ -0,0 +1,275 @@
+// ============================================
+// Filter Builder Component
+// Composes structured AND-ed filters for a DataTable
+// ============================================
+
+import { memo, useState } from 'react';
+import { Plus, X, SlidersHorizontal } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FilterConfig } from '@/types';
+
+export interface FilterField {
+  field: string;
+  label: string;
+  type: 'text' | 'number' | 'select' | 'date';
+  options?: { label: string; value: string }[];
+}
+
+interface FilterBuilderProps {
+  fields: FilterField[];
+  filters: FilterConfig[];
+  onChange: (filters: FilterConfig[]) => void;
+  className?: string;
+}
+
+type Operator = FilterConfig['operator'];
+
+const operatorsByType: Record<FilterField['type'], Operator[]> = {
+  text: ['contains', 'eq', 'in'],
+  number: ['eq', 'gt', 'gte', 'lt', 'lte'],
+  select: ['eq', 'in'],
+  date: ['eq', 'gt', 'gte', 'lt', 'lte'],
+};
+
+const operatorLabels: Record<Operator, string> = {
+  eq: 'is',
+  contains: 'contains',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  in: 'is any of',
+};
+
+const toValueList = (value: FilterConfig['value']): string[] =>
+  (Array.isArray(value) ? value : [value]).map(String);
+
+// Filter Editor - form used for both adding and editing a filter
+interface FilterEditorProps {
+  fields: FilterField[];
+  initial?: FilterConfig;
+  onApply: (filter: FilterConfig) => void;
+}
+
+const FilterEditor = ({ fields, initial, onApply }: FilterEditorProps) => {
+  const [fieldName, setFieldName] = useState(initial?.field ?? fields[0]?.field ?? '');
+  const field = fields.find((f) => f.field === fieldName);
+  const operators = field ? operatorsByType[field.type] : [];
+  const [operator, setOperator] = useState<Operator>(initial?.operator ?? operators[0] ?? 'eq');
+  const [values, setValues] = useState<string[]>(initial ? toValueList(initial.value) : []);
+
+  const handleFieldChange = (name: string) => {
+    const next = fields.find((f) => f.field === name);
+    setFieldName(name);
+    setOperator(next ? operatorsByType[next.type][0] : 'eq');
+    setValues([]);
+  };
+
+  const toggleValue = (value: string, checked: boolean) => {
+    setValues((prev) => (checked ? [...prev, value] : prev.filter((v) => v !== value)));
+  };
+
+  const cleaned = values.map((v) => v.trim()).filter(Boolean);
+  const isValid = !!field && cleaned.length > 0;
+
+  const handleApply = () => {
+    if (!field || !isValid) return;
+    const operands = field.type === 'number' ? cleaned.map(Number) : cleaned;
+    onApply({
+      field: field.field,
+      operator,
+      value: operator === 'in' ? (operands as string[] | number[]) : operands[0],
+    });
+  };
+
+  const renderValueInput = () => {
+    if (!field) return null;
+
+    if (field.type === 'select') {
+      if (operator === 'in') {
+        return (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {field.options?.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={values.includes(option.value)}
+                  onCheckedChange={(checked) => toggleValue(option.value, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      return (
+        <Select value={values[0] ?? ''} onValueChange={(value) => setValues([value])}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select value" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (operator === 'in') {
+      return (
+        <Input
+          placeholder="Comma separated values"
+          value={values.join(',')}
+          onChange={(e) => setValues(e.target.value.split(','))}
+        />
+      );
+    }
+
+    return (
+      <Input
+        type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+        value={values[0] ?? ''}
+        onChange={(e) => setValues([e.target.value])}
+        onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Field</Label>
+        <Select value={fieldName} onValueChange={handleFieldChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select field" />
+          </SelectTrigger>
+          <SelectContent>
+            {fields.map((f) => (
+              <SelectItem key={f.field} value={f.field}>
+                {f.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Operator</Label>
+        <Select
+          value={operator}
+          onValueChange={(value) => {
+            setOperator(value as Operator);
+            if (value !== 'in') setValues((prev) => prev.slice(0, 1));
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map((op) => (
+              <SelectItem key={op} value={op}>
+                {operatorLabels[op]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Value</Label>
+        {renderValueInput()}
+      </div>
+      <Button className="w-full" size="sm" onClick={handleApply} disabled={!isValid}>
+        Apply
+      </Button>
+    </div>
+  );
+};
+
+const FilterBuilder = memo(({ fields, filters, onChange, className }: FilterBuilderProps) => {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+  const describe = (filter: FilterConfig) => {
+    const field = fields.find((f) => f.field === filter.field);
+    const labels = toValueList(filter.value).map(
+      (v) => field?.options?.find((o) => o.value === v)?.label ?? v
+    );
+    const value = filter.operator === 'in' ? `[${labels.join(', ')}]` : labels[0];
+    return `${field?.label ?? filter.field} ${operatorLabels[filter.operator]} ${value}`;
+  };
+
+  const handleAdd = (filter: FilterConfig) => {
+    onChange([...filters, filter]);
+    setIsAddOpen(false);
+  };
+
+  const handleUpdate = (index: number, filter: FilterConfig) => {
+    onChange(filters.map((f, i) => (i === index ? filter : f)));
+    setEditingIndex(null);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(filters.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+      {filters.map((filter, index) => (
+        <span key={`${filter.field}-${index}`} className="flex items-center gap-2">
+          {index > 0 && <span className="text-xs font-medium text-muted-foreground">AND</span>}
+          <Popover
+            open={editingIndex === index}
+            onOpenChange={(open) => setEditingIndex(open ? index : null)}
+          >
+            <span className="inline-flex items-center rounded-full border border-border bg-muted/50 pl-3 pr-1 py-0.5 text-xs">
+              <PopoverTrigger asChild>
+                <button type="button" className="hover:text-foreground">
+                  {describe(filter)}
+                </button>
+              </PopoverTrigger>
+              <button
+                type="button"
+                onClick={() => handleRemove(index)}
+                className="ml-1 rounded-full p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+                aria-label="Remove filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+            <PopoverContent align="start">
+              <FilterEditor fields={fields} initial={filter} onApply={(f) => handleUpdate(index, f)} />
+            </PopoverContent>
+          </Popover>
+        </span>
+      ))}
+      <Popover open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs">
+            <Plus className="h-3 w-3" />
+            Add filter
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start">
+          <FilterEditor fields={fields} onApply={handleAdd} />
+        </PopoverContent>
+      </Popover>
+      {filters.length > 0 && (
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange([])}>
+          Clear all
+        </Button>
+      )}
+    </div>
+  );
+});
+
+FilterBuilder.displayName = 'FilterBuilder';
+
+export default FilterBuilder;
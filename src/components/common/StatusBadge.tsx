@@ -6,7 +6,7 @@
 import { memo } from 'react';
 import { cn } from '@/lib/utils';
 
-type StatusType = 'active' | 'inactive' | 'pending' | 'success' | 'warning' | 'error' | 'info' | 'discontinued';
+type StatusType = 'active' | 'inactive' | 'locked' | 'pending' | 'success' | 'warning' | 'error' | 'info' | 'discontinued';
 
 interface StatusBadgeProps {
   status: StatusType | string;
@@ -16,6 +16,7 @@ interface StatusBadgeProps {
 const statusConfig: Record<string, { label: string; className: string }> = {
   active: { label: 'Active', className: 'badge-success' },
   inactive: { label: 'Inactive', className: 'badge-destructive' },
+  locked: { label: 'Locked', className: 'badge-warning' },
   pending: { label: 'Pending', className: 'badge-warning' },
   success: { label: 'Success', className: 'badge-success' },
   warning: { label: 'Warning', className: 'badge-warning' },
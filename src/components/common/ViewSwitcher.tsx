@@ -0,0 +1,278 @@
+// ============================================
+// View Switcher Component
+// Selects and manages saved table views
+// ============================================
+
+import { memo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Bookmark, Check, ChevronDown, Loader2, Pencil, Save, Star, Trash2, Users } from 'lucide-react';
+import type { SavedView, UserRole } from '@/types';
+import type { SavedViewFormData } from '@/hooks/useSavedViews';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/hooks/use-toast';
+import { useRoles } from '@/hooks/useRoles';
+
+const viewSchema = z.object({
+  name: z.string().trim().min(1, 'View name is required').max(60),
+  isDefault: z.boolean(),
+  sharedWithRoles: z.array(z.string()),
+});
+
+interface ViewSwitcherProps {
+  views: SavedView[];
+  activeView: SavedView | null;
+  isModified: boolean;
+  currentUserId?: string;
+  selectView: (view: SavedView | null) => void;
+  createView: (data: SavedViewFormData) => Promise<unknown>;
+  updateView: (id: string, data: SavedViewFormData) => Promise<unknown>;
+  saveCurrentToView: (id: string) => Promise<unknown>;
+  deleteView: (id: string) => Promise<unknown>;
+  setDefaultView: (id: string | null) => Promise<unknown>;
+}
+
+const ViewSwitcher = memo(
+  ({
+    views,
+    activeView,
+    isModified,
+    currentUserId,
+    selectView,
+    createView,
+    updateView,
+    saveCurrentToView,
+    deleteView,
+    setDefaultView,
+  }: ViewSwitcherProps) => {
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [editingView, setEditingView] = useState<SavedView | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { roles } = useRoles();
+
+    const {
+      register,
+      handleSubmit,
+      reset,
+      setValue,
+      watch,
+      formState: { errors },
+    } = useForm<SavedViewFormData>({
+      resolver: zodResolver(viewSchema),
+      defaultValues: { name: '', isDefault: false, sharedWithRoles: [] },
+    });
+
+    const isDefault = watch('isDefault');
+    const sharedWithRoles = watch('sharedWithRoles');
+
+    const myViews = views.filter((v) => v.ownerId === currentUserId);
+    const sharedViews = views.filter((v) => v.ownerId !== currentUserId);
+    const isOwner = activeView?.ownerId === currentUserId;
+
+    const run = async (action: () => Promise<unknown>, successMessage: string) => {
+      try {
+        await action();
+        toast({ title: successMessage });
+        return true;
+      } catch (err) {
+        toast({ title: 'Error', description: String(err), variant: 'destructive' });
+        return false;
+      }
+    };
+
+    const openCreateForm = () => {
+      setEditingView(null);
+      reset({ name: '', isDefault: false, sharedWithRoles: [] });
+      setIsFormOpen(true);
+    };
+
+    const openEditForm = (view: SavedView) => {
+      setEditingView(view);
+      reset({ name: view.name, isDefault: view.isDefault, sharedWithRoles: view.sharedWithRoles });
+      setIsFormOpen(true);
+    };
+
+    const onSubmit = async (data: SavedViewFormData) => {
+      setIsSubmitting(true);
+      const ok = editingView
+        ? await run(() => updateView(editingView.id, data), 'View updated')
+        : await run(() => createView(data), 'View saved');
+      setIsSubmitting(false);
+      if (ok) setIsFormOpen(false);
+    };
+
+    const toggleRole = (role: UserRole, checked: boolean) => {
+      setValue(
+        'sharedWithRoles',
+        checked ? [...sharedWithRoles, role] : sharedWithRoles.filter((r) => r !== role)
+      );
+    };
+
+    const renderViewItem = (view: SavedView) => (
+      <DropdownMenuItem key={view.id} onClick={() => selectView(view)} className="gap-2">
+        <Check className={activeView?.id === view.id ? 'h-4 w-4' : 'h-4 w-4 invisible'} />
+        <span className="flex-1 truncate">{view.name}</span>
+        {view.isDefault && <Star className="h-3 w-3 fill-current text-warning" />}
+        {view.sharedWithRoles.length > 0 && <Users className="h-3 w-3 text-muted-foreground" />}
+      </DropdownMenuItem>
+    );
+
+    return (
+      <>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <Bookmark className="h-4 w-4" />
+              <span className="max-w-[160px] truncate">{activeView?.name ?? 'All records'}</span>
+              {isModified && <span className="text-muted-foreground">*</span>}
+              <ChevronDown className="h-4 w-4 text-muted-foreground" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            <DropdownMenuItem onClick={() => selectView(null)} className="gap-2">
+              <Check className={activeView ? 'h-4 w-4 invisible' : 'h-4 w-4'} />
+              All records
+            </DropdownMenuItem>
+            {myViews.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">My views</DropdownMenuLabel>
+                {myViews.map(renderViewItem)}
+              </>
+            )}
+            {sharedViews.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Shared with me</DropdownMenuLabel>
+                {sharedViews.map(renderViewItem)}
+              </>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={openCreateForm} className="gap-2">
+              <Save className="h-4 w-4" />
+              Save as new view...
+            </DropdownMenuItem>
+            {activeView && isOwner && isModified && (
+              <DropdownMenuItem
+                onClick={() => run(() => saveCurrentToView(activeView.id), 'View updated')}
+                className="gap-2"
+              >
+                <Save className="h-4 w-4" />
+                Update "{activeView.name}"
+              </DropdownMenuItem>
+            )}
+            {activeView && isOwner && (
+              <DropdownMenuItem onClick={() => openEditForm(activeView)} className="gap-2">
+                <Pencil className="h-4 w-4" />
+                Rename & share...
+              </DropdownMenuItem>
+            )}
+            {activeView && (
+              <DropdownMenuItem
+                onClick={() =>
+                  run(
+                    () => setDefaultView(activeView.isDefault ? null : activeView.id),
+                    activeView.isDefault ? 'Default view cleared' : 'Default view set'
+                  )
+                }
+                className="gap-2"
+              >
+                <Star className="h-4 w-4" />
+                {activeView.isDefault ? 'Unset as default' : 'Set as default'}
+              </DropdownMenuItem>
+            )}
+            {activeView && isOwner && (
+              <DropdownMenuItem
+                onClick={() => run(() => deleteView(activeView.id), 'View deleted')}
+                className="gap-2 text-destructive focus:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete view
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Save/Edit View Dialog */}
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingView ? 'Edit View' : 'Save View'}</DialogTitle>
+              <DialogDescription>
+                {editingView
+                  ? 'Rename the view or change who it is shared with.'
+                  : 'Save the current filters, sorting and columns as a named view.'}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <div className="grid gap-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="viewName">Name</Label>
+                  <Input
+                    id="viewName"
+                    {...register('name')}
+                    className={errors.name ? 'border-destructive' : ''}
+                  />
+                  {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={isDefault}
+                    onCheckedChange={(checked) => setValue('isDefault', checked === true)}
+                  />
+                  Open this view by default
+                </label>
+                <div className="space-y-2">
+                  <Label>Share with</Label>
+                  <div className="flex gap-4">
+                    {roles.map((role) => (
+                      <label key={role.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={sharedWithRoles.includes(role.id)}
+                          onCheckedChange={(checked) => toggleRole(role.id, checked === true)}
+                        />
+                        {role.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save View'
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </>
+    );
+  }
+);
+
+ViewSwitcher.displayName = 'ViewSwitcher';
+
+export default ViewSwitcher;
@@ -8,3 +8,10 @@ export { default as ErrorBoundary } from './ErrorBoundary';
 export { default as StatusBadge } from './StatusBadge';
 export { default as DataTable } from './DataTable';
 export type { Column } from './DataTable';
+export { default as FilterBuilder } from './FilterBuilder';
+export type { FilterField } from './FilterBuilder';
+export { default as ViewSwitcher } from './ViewSwitcher';
+export { default as ColumnChooser } from './ColumnChooser';
+export { default as BulkActionBar } from './BulkActionBar';
+export type { ColumnEditor, CellParseResult } from './CellEditor';
+export { default as ExportDialog } from './ExportDialog';
@@ -4,10 +4,13 @@
 // ============================================
 
 import { memo, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { Search, Bell, WifiOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAppSelector } from '@/app/hooks';
-import { selectSidebarCollapsed, selectIsOnline, selectUnreadNotificationsCount } from '@/features/ui/uiSlice';
+import { selectBreadcrumbs, selectIsOnline, selectUnreadNotificationsCount } from '@/features/ui/uiSlice';
+import { navigationConfig } from '@/config';
+import type { Breadcrumb } from '@/types';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,34 +25,48 @@ import {
 
 interface AppHeaderProps {
   title?: string;
-  breadcrumbs?: { label: string; path?: string }[];
+  breadcrumbs?: Breadcrumb[];
 }
 
-const AppHeader = memo(({ title, breadcrumbs }: AppHeaderProps) => {
-  const isCollapsed = useAppSelector(selectSidebarCollapsed);
+const AppHeader = memo(({ title, breadcrumbs: breadcrumbsProp }: AppHeaderProps) => {
+  const location = useLocation();
+  const pageBreadcrumbs = useAppSelector(selectBreadcrumbs);
   const isOnline = useAppSelector(selectIsOnline);
   const unreadCount = useAppSelector(selectUnreadNotificationsCount);
   const [searchQuery, setSearchQuery] = useState('');
 
+  // Pages below a navigation item set their own trail; the rest show the item they belong to
+  const navItem = navigationConfig.find(
+    (item) => location.pathname === item.path || location.pathname.startsWith(`${item.path}/`)
+  );
+  const breadcrumbs = breadcrumbsProp ?? pageBreadcrumbs ?? (navItem ? [{ label: navItem.label }] : []);
+
   return (
-    <header
-      className={cn(
-        'sticky top-0 z-30 flex h-16 items-center gap-4 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 px-6 transition-all duration-300',
-        isCollapsed ? 'ml-[72px]' : 'ml-64'
-      )}
-    >
+    <header className="flex h-16 items-center gap-4 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 px-6">
       {/* Breadcrumbs */}
       <div className="flex-1">
-        {breadcrumbs && breadcrumbs.length > 0 && (
-          <nav className="flex items-center gap-1 text-sm text-muted-foreground">
-            {breadcrumbs.map((crumb, index) => (
-              <span key={index} className="flex items-center gap-1">
-                {index > 0 && <span className="mx-1">/</span>}
-                <span className={cn(index === breadcrumbs.length - 1 && 'text-foreground font-medium')}>
-                  {crumb.label}
+        {breadcrumbs.length > 0 && (
+          <nav aria-label="Breadcrumb" className="flex items-center gap-1 text-sm text-muted-foreground">
+            {breadcrumbs.map((crumb, index) => {
+              const isLast = index === breadcrumbs.length - 1;
+              return (
+                <span key={index} className="flex min-w-0 items-center gap-1">
+                  {index > 0 && <span className="mx-1">/</span>}
+                  {crumb.path && !isLast ? (
+                    <Link to={crumb.path} className="hover:text-foreground transition-colors">
+                      {crumb.label}
+                    </Link>
+                  ) : (
+                    <span
+                      className={cn('truncate', isLast && 'text-foreground font-medium')}
+                      aria-current={isLast ? 'page' : undefined}
+                    >
+                      {crumb.label}
+                    </span>
+                  )}
                 </span>
-              </span>
-            ))}
+              );
+            })}
           </nav>
         )}
         {title && <h1 className="text-xl font-semibold text-foreground">{title}</h1>}
@@ -10,6 +10,7 @@ import {
   Users, 
   Package, 
   BarChart3, 
+  History,
   Settings,
   ChevronLeft,
   ChevronRight,
@@ -20,7 +21,9 @@ import { cn } from '@/lib/utils';
 import { useAppDispatch, useAppSelector } from '@/app/hooks';
 import { selectSidebarCollapsed, toggleSidebar } from '@/features/ui/uiSlice';
 import { logoutAsync, selectUser } from '@/features/auth/authSlice';
+import { apiSlice } from '@/services/api';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useRoles } from '@/hooks/useRoles';
 import { navigationConfig } from '@/config';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -31,6 +34,7 @@ const iconMap: Record<string, React.ElementType> = {
   Users,
   Package,
   BarChart3,
+  History,
   Settings,
 };
 
@@ -39,13 +43,16 @@ const AppSidebar = memo(() => {
   const location = useLocation();
   const isCollapsed = useAppSelector(selectSidebarCollapsed);
   const user = useAppSelector(selectUser);
-  const { canAccessRoute } = usePermissions();
+  const { hasPermission } = usePermissions();
+  const { getRoleName } = useRoles();
 
   const handleLogout = () => {
     dispatch(logoutAsync());
+    // Cached queries belong to the signed-out user
+    dispatch(apiSlice.util.resetApiState());
   };
 
-  const filteredNav = navigationConfig.filter((item) => canAccessRoute(item.permissions));
+  const filteredNav = navigationConfig.filter((item) => !item.permission || hasPermission(item.permission));
 
   return (
     <aside
@@ -131,7 +138,7 @@ const AppSidebar = memo(() => {
               <p className="text-sm font-medium text-sidebar-foreground truncate">
                 {user?.firstName} {user?.lastName}
               </p>
-              <p className="text-xs text-sidebar-foreground/60 truncate capitalize">{user?.role}</p>
+              <p className="text-xs text-sidebar-foreground/60 truncate">{getRoleName(user?.role)}</p>
             </div>
           )}
           {isCollapsed ? (
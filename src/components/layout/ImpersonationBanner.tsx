@@ -0,0 +1,58 @@
+// ============================================
+// Impersonation Banner Component
+// Stays on screen while viewing the app as another user
+// ============================================
+
+import { memo } from 'react';
+import { Eye, Loader2 } from 'lucide-react';
+import { useAppSelector } from '@/app/hooks';
+import { selectUser } from '@/features/auth/authSlice';
+import { useImpersonation } from '@/hooks/useImpersonation';
+import { getApiErrorMessage } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+
+const ImpersonationBanner = memo(() => {
+  const user = useAppSelector(selectUser);
+  const { impersonation, stop, isStopping } = useImpersonation();
+
+  if (!user || !impersonation) return null;
+
+  const handleStop = async () => {
+    try {
+      await stop();
+    } catch (err) {
+      toast({ title: 'Could not stop viewing as this user', description: getApiErrorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 bg-warning px-6 py-2 text-sm text-warning-foreground">
+      <p className="flex items-center gap-2">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as{' '}
+          <strong>
+            {user.firstName} {user.lastName}
+          </strong>{' '}
+          ({user.email}), signed in as {impersonation.actor.firstName} {impersonation.actor.lastName}.
+          {!impersonation.allowDestructive && ' Deleting is disabled.'}
+        </span>
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        className="shrink-0 border-warning-foreground/40 bg-transparent text-warning-foreground hover:bg-warning-foreground/10 hover:text-warning-foreground"
+        onClick={handleStop}
+        disabled={isStopping}
+      >
+        {isStopping && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Stop Viewing
+      </Button>
+    </div>
+  );
+});
+
+ImpersonationBanner.displayName = 'ImpersonationBanner';
+
+export default ImpersonationBanner;
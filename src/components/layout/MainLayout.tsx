@@ -11,6 +11,7 @@ import { selectSidebarCollapsed, selectIsOnline } from '@/features/ui/uiSlice';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 import AppSidebar from './AppSidebar';
 import AppHeader from './AppHeader';
+import ImpersonationBanner from './ImpersonationBanner';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 
 const MainLayout = memo(() => {
@@ -40,6 +41,11 @@ const MainLayout = memo(() => {
           !isOnline && 'pt-10'
         )}
       >
+        {/* Stays below the offline banner, which is fixed to the top of the window */}
+        <div className={cn('sticky z-30', isOnline ? 'top-0' : 'top-10')}>
+          <ImpersonationBanner />
+          <AppHeader />
+        </div>
         <main className="flex-1 p-6">
           <Suspense fallback={<LoadingSpinner />}>
             <Outlet />
@@ -1,35 +1,40 @@
 // ============================================
 // Protected Route Component
-// Guards routes based on authentication and roles
+// Guards routes based on authentication and permissions
 // ============================================
 
 import { memo } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAppSelector } from '@/app/hooks';
-import { selectIsAuthenticated, selectUserRole } from '@/features/auth/authSlice';
-import type { UserRole } from '@/types';
+import { selectIsAuthenticated, selectUser } from '@/features/auth/authSlice';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Permission } from '@/types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: UserRole[];
+  permission?: Permission;
 }
 
-const ProtectedRoute = memo(({ children, allowedRoles }: ProtectedRouteProps) => {
+const ProtectedRoute = memo(({ children, permission }: ProtectedRouteProps) => {
   const location = useLocation();
   const isAuthenticated = useAppSelector(selectIsAuthenticated);
-  const userRole = useAppSelector(selectUserRole);
+  const { hasPermission } = usePermissions();
+  const passwordChangeRequired = useAppSelector(selectUser)?.passwordChangeRequired;
 
   // Not authenticated - redirect to login
   if (!isAuthenticated) {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // Check role-based access if roles are specified
-  if (allowedRoles && allowedRoles.length > 0 && userRole) {
-    if (!allowedRoles.includes(userRole)) {
-      // User doesn't have required role - redirect to dashboard
-      return <Navigate to="/dashboard" replace />;
-    }
+  // An expired or non-compliant password must be replaced before anything else
+  if (passwordChangeRequired && location.pathname !== '/change-password') {
+    return <Navigate to="/change-password" state={{ from: location }} replace />;
+  }
+
+  // SessionBootstrap has loaded the user by now, so missing permissions mean no access rather
+  // than a profile still on its way
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/dashboard" replace />;
   }
 
   return <>{children}</>;
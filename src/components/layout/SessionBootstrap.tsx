@@ -0,0 +1,100 @@
+// ============================================
+// Session Bootstrap Component
+// Restores the signed-in user before any route renders and keeps tabs in sync
+// ============================================
+
+import { memo, useEffect } from 'react';
+import { AlertTriangle, LogIn, LogOut, RefreshCw } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import {
+  acknowledgeSignedOut,
+  logout,
+  selectIsAuthenticated,
+  selectIsRestoringSession,
+  selectSignedOutElsewhere,
+  sessionRestored,
+} from '@/features/auth/authSlice';
+import { getApiErrorMessage, useGetCurrentUserQuery } from '@/services/api';
+import { useTokenRefreshScheduler } from '@/hooks/useTokenRefreshScheduler';
+import { useSessionSync } from '@/hooks/useSessionSync';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import SessionLock from './SessionLock';
+
+interface SessionBootstrapProps {
+  children: React.ReactNode;
+}
+
+// A stored token only proves a past sign-in, so the profile (and with it the role that drives
+// permissions) is loaded from /auth/me first. An invalid token fails with 401 and the API layer
+// logs out; other failures keep the session so the user can retry once the backend is reachable.
+const SessionBootstrap = memo(({ children }: SessionBootstrapProps) => {
+  const dispatch = useAppDispatch();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const isRestoring = useAppSelector(selectIsRestoringSession);
+  const signedOutElsewhere = useAppSelector(selectSignedOutElsewhere);
+  const { data: user, error, isFetching, refetch } = useGetCurrentUserQuery(undefined, { skip: !isRestoring });
+
+  // Mounted for the app's lifetime, so these run on every route
+  useTokenRefreshScheduler();
+  useSessionSync();
+
+  useEffect(() => {
+    if (user && isRestoring) dispatch(sessionRestored(user));
+  }, [dispatch, user, isRestoring]);
+
+  if (signedOutElsewhere) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center p-6 text-center">
+        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted mb-4">
+          <LogOut className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h2 className="text-xl font-semibold text-foreground mb-2">You were signed out</h2>
+        <p className="text-sm text-muted-foreground max-w-md mb-4">
+          Your session ended in another tab. Sign in again to continue.
+        </p>
+        <Button onClick={() => dispatch(acknowledgeSignedOut())} className="gap-2">
+          <LogIn className="h-4 w-4" />
+          Sign in again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!isRestoring) {
+    return (
+      <>
+        {children}
+        {isAuthenticated && <SessionLock />}
+      </>
+    );
+  }
+
+  if (error && !isFetching) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center p-6 text-center">
+        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-destructive-light mb-4">
+          <AlertTriangle className="h-8 w-8 text-destructive" />
+        </div>
+        <h2 className="text-xl font-semibold text-foreground mb-2">Could not restore your session</h2>
+        <p className="text-sm text-muted-foreground max-w-md mb-4">{getApiErrorMessage(error)}</p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => dispatch(logout())} className="gap-2">
+            <LogOut className="h-4 w-4" />
+            Sign out
+          </Button>
+          <Button onClick={refetch} className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <LoadingSpinner fullScreen size="lg" text="Restoring your session..." />;
+});
+
+SessionBootstrap.displayName = 'SessionBootstrap';
+
+export default SessionBootstrap;
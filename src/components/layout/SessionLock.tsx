@@ -0,0 +1,248 @@
+// ============================================
+// Session Lock Component
+// Idle warning and the lock screen shown over the app
+// ============================================
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye, EyeOff, Loader2, Lock, LogOut } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import {
+  loginAsync,
+  logoutAsync,
+  selectAuth,
+  selectLockReason,
+  twoFactorChallengeCleared,
+} from '@/features/auth/authSlice';
+import { apiSlice } from '@/services/api';
+import { useIdleMonitor } from '@/hooks/useIdleMonitor';
+import { useCountdown } from '@/hooks/useCountdown';
+import { LoginErrorAlert, SsoSignInButton, TwoFactorChallengeStep } from '@/components/auth';
+import type { SessionLockReason } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const unlockSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+type UnlockFormData = z.infer<typeof unlockSchema>;
+
+const lockMessages: Record<SessionLockReason, string> = {
+  idle: 'Your session was locked after a period of inactivity.',
+  absolute: 'Your session has reached its maximum length. Confirm your password to continue.',
+  manual: 'Your session is locked.',
+};
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+interface IdleWarningDialogProps {
+  secondsLeft: number | null;
+  onStay: () => void;
+  onLock: () => void;
+}
+
+const IdleWarningDialog = memo(({ secondsLeft, onStay, onLock }: IdleWarningDialogProps) => (
+  <AlertDialog open={secondsLeft !== null} onOpenChange={(open) => !open && onStay()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+        <AlertDialogDescription>
+          For your security, your session will lock in{' '}
+          <span className="font-semibold tabular-nums text-foreground">{formatCountdown(secondsLeft ?? 0)}</span>.
+          Your work on this page will be kept.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={onLock}>Lock now</AlertDialogCancel>
+        <AlertDialogAction onClick={onStay}>Stay signed in</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+));
+
+IdleWarningDialog.displayName = 'IdleWarningDialog';
+
+interface LockScreenProps {
+  reason: SessionLockReason;
+}
+
+// Rendered into <body> with everything else marked inert (the app and any dialogs it had open),
+// so routes and half-filled forms stay mounted but cannot be reached by keyboard or screen readers
+const LockScreen = memo(({ reason }: LockScreenProps) => {
+  const dispatch = useAppDispatch();
+  const { user, isLoading, error, loginError, twoFactorChallenge } = useAppSelector(selectAuth);
+  // While impersonating it is the administrator who unlocks, which also ends the impersonation
+  const account = user?.impersonation?.actor ?? user;
+  const retrySeconds = useCountdown(loginError?.retryAt);
+  const isThrottled = loginError?.code === 'TOO_MANY_ATTEMPTS' && retrySeconds > 0;
+  const [showPassword, setShowPassword] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<UnlockFormData>({
+    resolver: zodResolver(unlockSchema),
+    defaultValues: { password: '' },
+  });
+
+  useEffect(() => {
+    // Drops errors and any unfinished second step left over from the login page
+    dispatch(twoFactorChallengeCleared());
+    const hidden = Array.from(document.body.children).filter(
+      (element): element is HTMLElement =>
+        element instanceof HTMLElement && element !== containerRef.current && !element.inert
+    );
+    hidden.forEach((element) => {
+      element.inert = true;
+    });
+    return () => {
+      hidden.forEach((element) => {
+        element.inert = false;
+      });
+    };
+  }, [dispatch]);
+
+  const onSubmit = (data: UnlockFormData) => {
+    if (!account) return;
+    const wasImpersonating = !!user?.impersonation;
+    dispatch(loginAsync({ email: account.email, password: data.password })).then((action) => {
+      // Cached queries were fetched as the user being viewed as
+      if (wasImpersonating && loginAsync.fulfilled.match(action)) dispatch(apiSlice.util.resetApiState());
+    });
+  };
+
+  const handleSignOut = () => {
+    dispatch(logoutAsync());
+    dispatch(apiSlice.util.resetApiState());
+  };
+
+  return createPortal(
+    <div
+      ref={containerRef}
+      className="pointer-events-auto fixed inset-0 z-50 flex items-center justify-center bg-background p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-lock-title"
+    >
+      <Card className="w-full max-w-md shadow-lg border-border/50">
+        <CardHeader className="items-center space-y-1 pb-4 text-center">
+          <div className="flex h-14 w-14 items-center justify-center rounded-full bg-muted mb-2">
+            <Lock className="h-7 w-7 text-muted-foreground" />
+          </div>
+          <CardTitle id="session-lock-title" className="text-xl">Session locked</CardTitle>
+          <CardDescription>{lockMessages[reason]}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {twoFactorChallenge ? (
+            <TwoFactorChallengeStep />
+          ) : account?.authProvider === 'oidc' ? (
+            // No local password to check; signing in again at the identity provider unlocks
+            <div className="space-y-4">
+              {loginError && <LoginErrorAlert error={loginError} secondsLeft={retrySeconds} />}
+              <SsoSignInButton returnTo={`${window.location.pathname}${window.location.search}`} />
+              <Button type="button" variant="ghost" className="w-full gap-2" onClick={handleSignOut}>
+                <LogOut className="h-4 w-4" />
+                Sign out instead
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              {loginError ? (
+                <LoginErrorAlert error={loginError} secondsLeft={retrySeconds} />
+              ) : (
+                error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="unlock-email">Email</Label>
+                <Input id="unlock-email" type="email" value={account?.email ?? ''} readOnly disabled autoComplete="username" />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="unlock-password">Password</Label>
+                <div className="relative">
+                  <Input
+                    id="unlock-password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Enter your password"
+                    {...register('password')}
+                    className={errors.password ? 'border-destructive pr-10' : 'pr-10'}
+                    disabled={isLoading}
+                    autoComplete="current-password"
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    tabIndex={-1}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="text-sm text-destructive">{errors.password.message}</p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading || !user || isThrottled}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Unlocking...
+                  </>
+                ) : (
+                  'Unlock'
+                )}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full gap-2" onClick={handleSignOut} disabled={isLoading}>
+                <LogOut className="h-4 w-4" />
+                Sign out instead
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>,
+    document.body
+  );
+});
+
+LockScreen.displayName = 'LockScreen';
+
+// Mounted next to the routes rather than in place of them, so nothing is lost while locked
+const SessionLock = memo(() => {
+  const lockReason = useAppSelector(selectLockReason);
+  const { secondsLeft, staySignedIn, lockNow } = useIdleMonitor();
+
+  if (lockReason) return <LockScreen reason={lockReason} />;
+  return <IdleWarningDialog secondsLeft={secondsLeft} onStay={staySignedIn} onLock={lockNow} />;
+});
+
+SessionLock.displayName = 'SessionLock';
+
+export default SessionLock;
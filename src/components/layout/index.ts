@@ -6,3 +6,6 @@ export { default as AppSidebar } from './AppSidebar';
 export { default as AppHeader } from './AppHeader';
 export { default as MainLayout } from './MainLayout';
 export { default as ProtectedRoute } from './ProtectedRoute';
+export { default as SessionBootstrap } from './SessionBootstrap';
+export { default as SessionLock } from './SessionLock';
+export { default as ImpersonationBanner } from './ImpersonationBanner';
@@ -0,0 +1,351 @@
+// ============================================
+// Product Import Dialog
+// Upload, map, validate and commit product spreadsheets
+// ============================================
+
+import { memo, useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { getApiErrorMessage, useBulkCreateProductsMutation, useFindExistingSkusMutation } from '@/services/api';
+import {
+  guessColumnMapping,
+  importFields,
+  readSpreadsheet,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowResult,
+  type ParsedSheet,
+} from '@/features/products/productImport';
+import { downloadCsv } from '@/lib/csv';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const BATCH_SIZE = 100;
+// Rendering thousands of preview rows in a dialog is slow; the report has them all
+const PREVIEW_LIMIT = 200;
+const UNMAPPED = '__none__';
+
+const stepDescriptions: Record<ImportStep, string> = {
+  upload: 'Upload a CSV or XLSX file with one product per row and a header row.',
+  map: 'Match the columns in your file to product fields.',
+  preview: 'Review validation results before importing.',
+  importing: 'Creating products...',
+  done: 'Import finished.',
+};
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Created products invalidate the cached product lists, so open tables refresh on their own
+const ProductImportDialog = memo(({ open, onOpenChange }: ProductImportDialogProps) => {
+  const [bulkCreateProducts] = useBulkCreateProductsMutation();
+  const [findExistingSkus] = useFindExistingSkusMutation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping([]));
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [createdCount, setCreatedCount] = useState(0);
+  // Rows refused by the server during commit (e.g. a SKU created concurrently)
+  const [serverRejections, setServerRejections] = useState<ImportRowResult[]>([]);
+
+  const validRows = useMemo(() => results.filter((r) => r.data), [results]);
+  const invalidRows = useMemo(() => results.filter((r) => !r.data), [results]);
+  const rejectedRows = useMemo(() => [...invalidRows, ...serverRejections], [invalidRows, serverRejections]);
+  const previewRows = (showErrorsOnly ? invalidRows : results).slice(0, PREVIEW_LIMIT);
+  const missingRequired = importFields.filter((f) => f.required && mapping[f.field] === null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setResults([]);
+    setShowErrorsOnly(false);
+    setProgress(0);
+    setCreatedCount(0);
+    setServerRejections([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing mid-import would hide progress while batches keep committing
+    if (step === 'importing') return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const parsed = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (err) {
+      toast({ title: 'Could not read file', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+    setIsWorking(true);
+    try {
+      const skuColumn = mapping.sku;
+      const skus = skuColumn === null ? [] : sheet.rows.map((row) => (row[skuColumn] ?? '').trim()).filter(Boolean);
+      const existing = await findExistingSkus([...new Set(skus)]).unwrap();
+      setResults(validateImportRows(sheet.rows, mapping, existing));
+      setStep('preview');
+    } catch (err) {
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress(0);
+    let created = 0;
+    const rejected: ImportRowResult[] = [];
+
+    for (let start = 0; start < validRows.length; start += BATCH_SIZE) {
+      const batch = validRows.slice(start, start + BATCH_SIZE);
+      try {
+        const result = await bulkCreateProducts(batch.map((row) => row.data!)).unwrap();
+        created += result.created.length;
+        result.rejected.forEach(({ index, error }) => rejected.push({ ...batch[index], data: null, errors: [error] }));
+      } catch (err) {
+        // A failed batch is reported and the remaining batches still run
+        batch.forEach((row) => rejected.push({ ...row, data: null, errors: [getApiErrorMessage(err)] }));
+      }
+      setProgress(Math.round(((start + batch.length) / validRows.length) * 100));
+    }
+
+    setCreatedCount(created);
+    setServerRejections(rejected);
+    setStep('done');
+  };
+
+  const downloadRejectionReport = () => {
+    if (!sheet) return;
+    const rows = [...rejectedRows]
+      .sort((a, b) => a.rowNumber - b.rowNumber)
+      .map((r) => [r.rowNumber, r.errors.join('; '), ...r.source]);
+    downloadCsv(`${fileName.replace(/\.[^.]+$/, '')}-rejections.csv`, [['Row', 'Errors', ...sheet.headers], ...rows]);
+  };
+
+  const setFieldMapping = (field: ImportField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? null : Number(value) }));
+  };
+
+  const renderCell = (row: ImportRowResult, field: ImportField) => {
+    const column = mapping[field];
+    return column === null ? '' : row.source[column] ?? '';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>{stepDescriptions[step]}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleFile(e.dataTransfer.files[0]);
+            }}
+            disabled={isWorking}
+            className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border py-12 text-muted-foreground transition-colors hover:border-primary hover:text-foreground"
+          >
+            {isWorking ? <Loader2 className="h-8 w-8 animate-spin" /> : <Upload className="h-8 w-8" />}
+            <span className="text-sm">Drop a file here or click to browse</span>
+            <span className="text-xs">.csv or .xlsx</span>
+          </button>
+        )}
+        {/* Kept outside the drop zone so its click doesn't bubble back into the button */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+
+        {step === 'map' && sheet && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName} · {sheet.rows.length.toLocaleString()} rows
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {importFields.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) => setFieldMapping(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>
+                        {field === 'status' ? 'Not mapped (active)' : 'Not mapped'}
+                      </SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <span className="flex items-center gap-1 text-success">
+                <CheckCircle2 className="h-4 w-4" />
+                {validRows.length.toLocaleString()} ready to import
+              </span>
+              <span className="flex items-center gap-1 text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {invalidRows.length.toLocaleString()} with errors
+              </span>
+              <label className="ml-auto flex items-center gap-2">
+                <Checkbox checked={showErrorsOnly} onCheckedChange={(checked) => setShowErrorsOnly(checked === true)} />
+                Only show rows with errors
+              </label>
+            </div>
+            <div className="max-h-80 overflow-auto rounded-md border border-border">
+              <table className="table-enterprise">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>SKU</th>
+                    <th>Name</th>
+                    <th>Price</th>
+                    <th>Stock</th>
+                    <th>Issues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((row) => (
+                    <tr key={row.rowNumber} className={cn(!row.data && 'bg-destructive/5')}>
+                      <td className="text-muted-foreground">{row.rowNumber}</td>
+                      <td className="font-mono-data">{renderCell(row, 'sku')}</td>
+                      <td className="max-w-[200px] truncate">{renderCell(row, 'name')}</td>
+                      <td>{renderCell(row, 'price')}</td>
+                      <td>{renderCell(row, 'stock')}</td>
+                      <td className="text-xs">
+                        {row.errors.length > 0 ? (
+                          <ul className="space-y-0.5 text-destructive">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-success">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {(showErrorsOnly ? invalidRows : results).length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} rows. Download the rejection report for every error.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress} />
+            <p className="text-center text-sm text-muted-foreground">{progress}% complete</p>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-2 py-6 text-center">
+            <CheckCircle2 className="mx-auto h-10 w-10 text-success" />
+            <p className="font-medium">{createdCount.toLocaleString()} products imported</p>
+            {rejectedRows.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {rejectedRows.length.toLocaleString()} rows were rejected.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {(step === 'preview' || step === 'done') && rejectedRows.length > 0 && (
+            <Button variant="outline" className="gap-2 sm:mr-auto" onClick={downloadRejectionReport}>
+              <Download className="h-4 w-4" />
+              Rejection report
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={handleValidate} disabled={missingRequired.length > 0 || isWorking}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Validate
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length.toLocaleString()} products
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ProductImportDialog.displayName = 'ProductImportDialog';
+
+export default ProductImportDialog;
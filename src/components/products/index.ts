@@ -0,0 +1,5 @@
+// ============================================
+// Product Component Exports
+// ============================================
+
+export { default as ProductImportDialog } from './ProductImportDialog';
@@ -3,14 +3,54 @@
 // Environment-based settings
 // ============================================
 
+import type { AccessPolicy, NavItem, PasswordPolicy, UserRole } from '@/types';
+
 interface AppConfig {
   apiBaseUrl: string;
   apiTimeout: number;
+  // Serve /api from the in-browser mock server instead of the network
+  useMockApi: boolean;
   tokenKey: string;
   refreshTokenKey: string;
+  tokenExpiryKey: string;
+  sessionStartedKey: string;
+  sessionLockKey: string;
+  lastActivityKey: string;
+  clientIdKey: string;
+  oidcRequestKey: string;
+  columnLayoutKeyPrefix: string;
   tokenExpiryBuffer: number; // minutes before expiry to refresh
   maxRetries: number;
   retryDelay: number;
+  sessionTimeouts: {
+    idleTimeout: number; // minutes without input before the session locks
+    idleWarning: number; // seconds of countdown shown before an idle lock
+    absoluteTimeout: number; // minutes after sign-in before re-entering the password is required
+  };
+  passwordPolicy: PasswordPolicy;
+  loginProtection: {
+    maxAttempts: number; // failed sign-ins before an account is locked
+    lockoutMinutes: number;
+    clientMaxAttempts: number; // failed sign-ins from one client, across all accounts
+    backoffAfter: number; // failures allowed before each retry has to wait
+    backoffBaseSeconds: number; // doubled with every further failure
+    backoffMaxSeconds: number;
+    attemptWindowMinutes: number; // failures older than this are forgotten
+  };
+  oidc: {
+    enabled: boolean;
+    providerName: string; // shown on the sign-in button
+    issuer: string;
+    clientId: string;
+    authorizationEndpoint: string;
+    redirectPath: string; // app route that receives the authorization response
+    scopes: string[];
+    groupsClaim: string;
+    groupRoles: Record<string, UserRole>; // IdP group -> app role; the most privileged match wins
+    defaultRole: UserRole | null; // for members of none of the groups; null refuses them
+  };
+  // Checked on top of permissions, by the backend and the UI alike
+  accessPolicy: AccessPolicy;
   paginationDefaults: {
     pageSize: number;
     pageSizeOptions: number[];
@@ -31,11 +71,84 @@ const getEnvVar = (key: string, defaultValue: string): string => {
 export const config: AppConfig = {
   apiBaseUrl: getEnvVar('VITE_API_BASE_URL', '/api'),
   apiTimeout: parseInt(getEnvVar('VITE_API_TIMEOUT', '30000'), 10),
+  useMockApi: getEnvVar('VITE_USE_MOCK_API', 'true') === 'true',
   tokenKey: 'enterprise_auth_token',
   refreshTokenKey: 'enterprise_refresh_token',
+  tokenExpiryKey: 'enterprise_token_expiry',
+  sessionStartedKey: 'enterprise_session_started',
+  sessionLockKey: 'enterprise_session_lock',
+  lastActivityKey: 'enterprise_last_activity',
+  clientIdKey: 'enterprise_client_id',
+  oidcRequestKey: 'enterprise_oidc_request',
+  columnLayoutKeyPrefix: 'enterprise_table_layout_',
   tokenExpiryBuffer: 5,
   maxRetries: 3,
   retryDelay: 1000,
+  sessionTimeouts: {
+    idleTimeout: parseInt(getEnvVar('VITE_IDLE_TIMEOUT', '15'), 10),
+    idleWarning: 60,
+    absoluteTimeout: parseInt(getEnvVar('VITE_ABSOLUTE_SESSION_TIMEOUT', '480'), 10),
+  },
+  passwordPolicy: {
+    minLength: parseInt(getEnvVar('VITE_PASSWORD_MIN_LENGTH', '10'), 10),
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSymbol: true,
+    historySize: 5,
+    maxAgeDays: parseInt(getEnvVar('VITE_PASSWORD_MAX_AGE_DAYS', '90'), 10),
+  },
+  loginProtection: {
+    maxAttempts: 5,
+    lockoutMinutes: 15,
+    clientMaxAttempts: 20,
+    backoffAfter: 2,
+    backoffBaseSeconds: 2,
+    backoffMaxSeconds: 30,
+    attemptWindowMinutes: 15,
+  },
+  oidc: {
+    enabled: getEnvVar('VITE_OIDC_ENABLED', 'true') === 'true',
+    providerName: getEnvVar('VITE_OIDC_PROVIDER_NAME', 'Enterprise SSO'),
+    issuer: getEnvVar('VITE_OIDC_ISSUER', 'https://idp.enterprise.local'),
+    clientId: getEnvVar('VITE_OIDC_CLIENT_ID', 'enterprise-portal'),
+    // The bundled mock identity provider; point at the real one's endpoint in production
+    authorizationEndpoint: getEnvVar('VITE_OIDC_AUTHORIZATION_ENDPOINT', '/mock-idp/authorize'),
+    redirectPath: '/auth/callback',
+    scopes: ['openid', 'profile', 'email', 'groups'],
+    groupsClaim: 'groups',
+    groupRoles: {
+      'portal-admins': 'admin',
+      'portal-managers': 'manager',
+      'portal-users': 'user',
+    },
+    defaultRole: null,
+  },
+  accessPolicy: {
+    rules: [
+      {
+        id: 'manager-own-department',
+        description: 'Managers can only change users in their own department',
+        roles: ['manager'],
+        resource: 'users',
+        actions: ['write', 'delete'],
+        conditions: [{ type: 'department' }],
+      },
+      {
+        id: 'manager-live-products',
+        description: 'Managers can only change discontinued products they created',
+        roles: ['manager'],
+        resource: 'products',
+        actions: ['write', 'delete'],
+        conditions: [{ type: 'status', values: ['active', 'inactive'] }, { type: 'owner' }],
+      },
+    ],
+    fields: [
+      { resource: 'products', field: 'cost', read: 'products:cost:read', write: 'products:cost:write' },
+      // Assigning a role is role management, even for users allowed to edit the account
+      { resource: 'users', field: 'role', write: 'roles:write' },
+    ],
+  },
   paginationDefaults: {
     pageSize: 25,
     pageSizeOptions: [10, 25, 50, 100],
@@ -48,41 +161,47 @@ export const config: AppConfig = {
 };
 
 // Navigation configuration
-export const navigationConfig = [
+export const navigationConfig: NavItem[] = [
   {
     id: 'dashboard',
     label: 'Dashboard',
     path: '/dashboard',
     icon: 'LayoutDashboard',
-    permissions: ['admin', 'manager', 'user'] as const,
   },
   {
     id: 'users',
     label: 'Users',
     path: '/users',
     icon: 'Users',
-    permissions: ['admin', 'manager'] as const,
+    permission: 'users:read',
   },
   {
     id: 'products',
     label: 'Products',
     path: '/products',
     icon: 'Package',
-    permissions: ['admin', 'manager', 'user'] as const,
+    permission: 'products:read',
   },
   {
     id: 'reports',
     label: 'Reports',
     path: '/reports',
     icon: 'BarChart3',
-    permissions: ['admin', 'manager'] as const,
+    permission: 'reports:read',
+  },
+  {
+    id: 'activity',
+    label: 'Activity',
+    path: '/activity',
+    icon: 'History',
+    permission: 'activity:read',
   },
   {
     id: 'settings',
     label: 'Settings',
     path: '/settings',
     icon: 'Settings',
-    permissions: ['admin'] as const,
+    permission: 'settings:read',
   },
 ];
 
@@ -3,58 +3,215 @@
 // Authentication state management
 // ============================================
 
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import type { AuthState, AuthResponse, LoginCredentials, User } from '@/types';
+import { createSlice, createAsyncThunk, PayloadAction, ThunkDispatch, UnknownAction } from '@reduxjs/toolkit';
+import type {
+  ApiError,
+  AuthState,
+  AuthResponse,
+  LoginCredentials,
+  LoginError,
+  LoginErrorCode,
+  LoginResult,
+  Permission,
+  SessionLockReason,
+  SessionSnapshot,
+  User,
+} from '@/types';
+import { isTwoFactorChallenge } from '@/types';
 import { config } from '@/config';
-import { mockApi } from '@/services/mockApi';
+import { apiSlice, getApiErrorMessage } from '@/services/api';
+import { readAuthorizationResponse } from '@/lib/oidc';
+
+// Tokens and their expiry are persisted together so a reload knows whether to refresh first
+const storeSession = (response: AuthResponse): number => {
+  const expiresAt = Date.now() + response.expiresIn * 1000;
+  localStorage.setItem(config.tokenKey, response.token);
+  localStorage.setItem(config.refreshTokenKey, response.refreshToken);
+  localStorage.setItem(config.tokenExpiryKey, String(expiresAt));
+  return expiresAt;
+};
+
+// A password sign-in starts the clocks for the idle and absolute session timeouts
+const startSession = (): number => {
+  const startedAt = Date.now();
+  localStorage.setItem(config.sessionStartedKey, String(startedAt));
+  localStorage.setItem(config.lastActivityKey, String(startedAt));
+  localStorage.removeItem(config.sessionLockKey);
+  return startedAt;
+};
+
+const clearStoredSession = () => {
+  localStorage.removeItem(config.tokenKey);
+  localStorage.removeItem(config.refreshTokenKey);
+  localStorage.removeItem(config.tokenExpiryKey);
+  localStorage.removeItem(config.sessionStartedKey);
+  localStorage.removeItem(config.sessionLockKey);
+  localStorage.removeItem(config.lastActivityKey);
+};
+
+// Tokens as last written by any tab of the app
+export const readStoredSession = (): SessionSnapshot | null => {
+  const token = localStorage.getItem(config.tokenKey);
+  const refreshToken = localStorage.getItem(config.refreshTokenKey);
+  if (!token || !refreshToken) return null;
+  return {
+    token,
+    refreshToken,
+    expiresAt: Number(localStorage.getItem(config.tokenExpiryKey)) || null,
+    sessionStartedAt: Number(localStorage.getItem(config.sessionStartedKey)) || null,
+    user: null,
+  };
+};
+
+const storedExpiry = Number(localStorage.getItem(config.tokenExpiryKey));
+const storedSessionStart = Number(localStorage.getItem(config.sessionStartedKey));
+// A lock survives reloads, otherwise refreshing the page would bypass it
+const storedLock = localStorage.getItem(config.tokenKey)
+  ? (localStorage.getItem(config.sessionLockKey) as SessionLockReason | null)
+  : null;
 
 // Initial state
 const initialState: AuthState = {
   user: null,
   token: localStorage.getItem(config.tokenKey),
   refreshToken: localStorage.getItem(config.refreshTokenKey),
+  expiresAt: storedExpiry || null,
   isAuthenticated: !!localStorage.getItem(config.tokenKey),
+  isRestoring: !!localStorage.getItem(config.tokenKey),
+  signedOutElsewhere: false,
+  sessionStartedAt: storedSessionStart || null,
+  lockReason: storedLock,
+  twoFactorChallenge: null,
   isLoading: false,
   error: null,
+  loginError: null,
+};
+
+// Completes a sign-in, whether it needed one step or two
+const applySignIn = (state: AuthState, response: AuthResponse) => {
+  state.isLoading = false;
+  state.user = response.user;
+  state.token = response.token;
+  state.refreshToken = response.refreshToken;
+  state.expiresAt = storeSession(response);
+  state.isAuthenticated = true;
+  state.isRestoring = false;
+  state.signedOutElsewhere = false;
+  state.sessionStartedAt = startSession();
+  state.lockReason = null;
+  state.twoFactorChallenge = null;
+  state.loginError = null;
+};
+
+const loginErrorCodes = new Set<string>([
+  'INVALID_CREDENTIALS',
+  'ACCOUNT_LOCKED',
+  'ACCOUNT_INACTIVE',
+  'TOO_MANY_ATTEMPTS',
+  'SSO_FAILED',
+] satisfies LoginErrorCode[]);
+
+// The retry delay becomes an absolute time so the form can count down to it
+const toLoginError = (error: unknown, fallbackCode: LoginErrorCode = 'INVALID_CREDENTIALS'): LoginError => {
+  const { code, retryAfter, attemptsRemaining } = (error as { data?: Partial<ApiError> }).data ?? {};
+  return {
+    code: code && loginErrorCodes.has(code) ? (code as LoginErrorCode) : fallbackCode,
+    message: getApiErrorMessage(error),
+    retryAt: retryAfter ? Date.now() + retryAfter * 1000 : undefined,
+    attemptsRemaining,
+  };
+};
+
+// Signing in again from the lock screen while viewing as another user replaces that session. It is
+// ended on the server as well, which records the end of the impersonation. Called before the new
+// session is applied, while the state still holds the one being replaced.
+const endImpersonatedSession = (
+  dispatch: ThunkDispatch<unknown, unknown, UnknownAction>,
+  getState: () => { auth: AuthState }
+) => {
+  const { token, user } = getState().auth;
+  if (token && user?.impersonation) dispatch(apiSlice.endpoints.logout.initiate(token, { track: false }));
 };
 
 // Async thunks
-export const loginAsync = createAsyncThunk<AuthResponse, LoginCredentials>(
-  'auth/login',
-  async (credentials, { rejectWithValue }) => {
-    try {
-      const response = await mockApi.login(credentials.email, credentials.password);
-      // Store tokens
-      localStorage.setItem(config.tokenKey, response.token);
-      localStorage.setItem(config.refreshTokenKey, response.refreshToken);
-      return response;
-    } catch (error) {
-      return rejectWithValue((error as Error).message);
-    }
+// Resolves with a session, or with a challenge when the account needs a second factor
+export const loginAsync = createAsyncThunk<
+  LoginResult,
+  LoginCredentials,
+  { state: { auth: AuthState }; rejectValue: LoginError }
+>('auth/login', async (credentials, { dispatch, getState, rejectWithValue }) => {
+  try {
+    const result = await dispatch(apiSlice.endpoints.login.initiate(credentials, { track: false })).unwrap();
+    if (!isTwoFactorChallenge(result)) endImpersonatedSession(dispatch, getState);
+    return result;
+  } catch (error) {
+    return rejectWithValue(toLoginError(error));
   }
-);
+});
 
-export const logoutAsync = createAsyncThunk<void, void>(
-  'auth/logout',
-  async () => {
-    localStorage.removeItem(config.tokenKey);
-    localStorage.removeItem(config.refreshTokenKey);
+export const verifyTwoFactorAsync = createAsyncThunk<
+  AuthResponse,
+  string,
+  { state: { auth: AuthState }; rejectValue: LoginError }
+>('auth/verifyTwoFactor', async (code, { dispatch, getState, rejectWithValue }) => {
+  const challenge = getState().auth.twoFactorChallenge;
+  if (!challenge) {
+    return rejectWithValue(toLoginError(new Error('Your sign-in attempt has expired. Please sign in again.')));
   }
-);
+  try {
+    const session = await dispatch(
+      apiSlice.endpoints.verifyTwoFactorLogin.initiate(
+        { challengeToken: challenge.challengeToken, code },
+        { track: false }
+      )
+    ).unwrap();
+    endImpersonatedSession(dispatch, getState);
+    return session;
+  } catch (error) {
+    return rejectWithValue(toLoginError(error));
+  }
+});
+
+// Completes single sign-on from the query string the identity provider redirected back with
+export const oidcCallbackAsync = createAsyncThunk<
+  { session: AuthResponse; returnTo: string },
+  string,
+  { rejectValue: LoginError }
+>('auth/oidcCallback', async (search, { dispatch, rejectWithValue }) => {
+  try {
+    const { code, request } = readAuthorizationResponse(search);
+    const session = await dispatch(
+      apiSlice.endpoints.loginWithOidc.initiate(
+        { code, codeVerifier: request.codeVerifier, redirectUri: request.redirectUri, nonce: request.nonce },
+        { track: false }
+      )
+    ).unwrap();
+    return { session, returnTo: request.returnTo };
+  } catch (error) {
+    return rejectWithValue(toLoginError(error, 'SSO_FAILED'));
+  }
+});
 
-export const refreshTokenAsync = createAsyncThunk<AuthResponse, string>(
-  'auth/refreshToken',
-  async (refreshToken, { rejectWithValue }) => {
-    try {
-      const response = await mockApi.refreshToken(refreshToken);
-      localStorage.setItem(config.tokenKey, response.token);
-      localStorage.setItem(config.refreshTokenKey, response.refreshToken);
-      return response;
-    } catch (error) {
-      localStorage.removeItem(config.tokenKey);
-      localStorage.removeItem(config.refreshTokenKey);
-      return rejectWithValue((error as Error).message);
-    }
+// Enrolling during sign-in returns the session along with the recovery codes. It is applied
+// once the user has saved the codes, since signing in navigates away from them.
+export const completeTwoFactorEnrollmentAsync = createAsyncThunk<
+  AuthResponse,
+  AuthResponse,
+  { state: { auth: AuthState } }
+>('auth/completeTwoFactorEnrollment', async (session, { dispatch, getState }) => {
+  endImpersonatedSession(dispatch, getState);
+  return session;
+});
+
+// The session is ended on the server too, so its tokens stop working and an impersonation is
+// recorded as ended. Signing out locally doesn't wait for the response, so the request names
+// the token it is for.
+export const logoutAsync = createAsyncThunk<void, void, { state: { auth: AuthState } }>(
+  'auth/logout',
+  async (_, { dispatch, getState }) => {
+    const { token } = getState().auth;
+    if (token) dispatch(apiSlice.endpoints.logout.initiate(token, { track: false }));
+    clearStoredSession();
   }
 );
 
@@ -67,20 +224,74 @@ const authSlice = createSlice({
       state.user = action.payload.user;
       state.token = action.payload.token;
       state.refreshToken = action.payload.refreshToken;
+      // Refresh tokens rotate, so the stored pair must follow or the next reload would be signed out
+      state.expiresAt = storeSession(action.payload);
       state.isAuthenticated = true;
+      state.isRestoring = false;
       state.error = null;
     },
+    // The stored token was accepted by /auth/me
+    sessionRestored: (state, action: PayloadAction<User>) => {
+      state.user = action.payload;
+      state.isRestoring = false;
+    },
+    // Credentials changed in another tab; storage is already up to date
+    sessionSynced: (state, action: PayloadAction<SessionSnapshot>) => {
+      state.token = action.payload.token;
+      state.refreshToken = action.payload.refreshToken;
+      state.expiresAt = action.payload.expiresAt;
+      // A new sign-in elsewhere (not just a token refresh) also unlocks this tab
+      if (action.payload.sessionStartedAt && action.payload.sessionStartedAt !== state.sessionStartedAt) {
+        state.sessionStartedAt = action.payload.sessionStartedAt;
+        state.lockReason = null;
+      }
+      state.user = action.payload.user ?? state.user;
+      state.isAuthenticated = true;
+      state.isRestoring = !state.user;
+      state.signedOutElsewhere = false;
+      state.error = null;
+    },
+    signedOutInAnotherTab: (state) => {
+      state.user = null;
+      state.token = null;
+      state.refreshToken = null;
+      state.expiresAt = null;
+      state.isAuthenticated = false;
+      state.isRestoring = false;
+      state.sessionStartedAt = null;
+      state.lockReason = null;
+      state.signedOutElsewhere = true;
+    },
+    twoFactorChallengeCleared: (state) => {
+      state.twoFactorChallenge = null;
+      state.error = null;
+      state.loginError = null;
+    },
+    acknowledgeSignedOut: (state) => {
+      state.signedOutElsewhere = false;
+    },
+    // Hides the app behind the lock screen until the password is entered again
+    lockSession: (state, action: PayloadAction<SessionLockReason>) => {
+      if (!state.isAuthenticated || state.lockReason) return;
+      state.lockReason = action.payload;
+      localStorage.setItem(config.sessionLockKey, action.payload);
+    },
     logout: (state) => {
       state.user = null;
       state.token = null;
       state.refreshToken = null;
+      state.expiresAt = null;
       state.isAuthenticated = false;
+      state.isRestoring = false;
+      state.sessionStartedAt = null;
+      state.lockReason = null;
+      state.twoFactorChallenge = null;
       state.error = null;
-      localStorage.removeItem(config.tokenKey);
-      localStorage.removeItem(config.refreshTokenKey);
+      clearStoredSession();
     },
     clearError: (state) => {
       state.error = null;
+      state.loginError = null;
     },
     updateUser: (state, action: PayloadAction<Partial<User>>) => {
       if (state.user) {
@@ -94,47 +305,98 @@ const authSlice = createSlice({
       .addCase(loginAsync.pending, (state) => {
         state.isLoading = true;
         state.error = null;
+        state.loginError = null;
       })
       .addCase(loginAsync.fulfilled, (state, action) => {
-        state.isLoading = false;
-        state.user = action.payload.user;
-        state.token = action.payload.token;
-        state.refreshToken = action.payload.refreshToken;
-        state.isAuthenticated = true;
+        if (isTwoFactorChallenge(action.payload)) {
+          state.isLoading = false;
+          state.twoFactorChallenge = action.payload;
+          return;
+        }
+        applySignIn(state, action.payload);
       })
       .addCase(loginAsync.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload as string;
+        state.error = action.payload?.message ?? action.error.message ?? 'Sign-in failed';
+        state.loginError = action.payload ?? null;
       })
-      // Logout
-      .addCase(logoutAsync.fulfilled, (state) => {
-        state.user = null;
-        state.token = null;
-        state.refreshToken = null;
-        state.isAuthenticated = false;
+      // Second factor
+      .addCase(verifyTwoFactorAsync.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactorAsync.fulfilled, (state, action) => {
+        applySignIn(state, action.payload);
+      })
+      .addCase(completeTwoFactorEnrollmentAsync.fulfilled, (state, action) => {
+        applySignIn(state, action.payload);
+      })
+      .addCase(verifyTwoFactorAsync.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload?.message ?? action.error.message ?? 'Verification failed';
+        // Too many wrong codes lock the account; the challenge is void and sign-in starts over
+        if (action.payload?.code === 'ACCOUNT_LOCKED') {
+          state.twoFactorChallenge = null;
+          state.loginError = action.payload;
+        }
       })
-      // Refresh Token
-      .addCase(refreshTokenAsync.fulfilled, (state, action) => {
-        state.token = action.payload.token;
-        state.refreshToken = action.payload.refreshToken;
-        state.user = action.payload.user;
-        state.isAuthenticated = true;
+      // Single sign-on
+      .addCase(oidcCallbackAsync.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+        state.loginError = null;
+      })
+      .addCase(oidcCallbackAsync.fulfilled, (state, action) => {
+        applySignIn(state, action.payload.session);
+      })
+      .addCase(oidcCallbackAsync.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload?.message ?? action.error.message ?? 'Single sign-on failed';
+        state.loginError = action.payload ?? null;
       })
-      .addCase(refreshTokenAsync.rejected, (state) => {
+      // Logout
+      .addCase(logoutAsync.fulfilled, (state) => {
         state.user = null;
         state.token = null;
         state.refreshToken = null;
+        state.expiresAt = null;
         state.isAuthenticated = false;
+        state.isRestoring = false;
+        state.sessionStartedAt = null;
+        state.lockReason = null;
       });
   },
 });
 
-export const { setCredentials, logout, clearError, updateUser } = authSlice.actions;
+export const {
+  setCredentials,
+  sessionRestored,
+  sessionSynced,
+  signedOutInAnotherTab,
+  twoFactorChallengeCleared,
+  acknowledgeSignedOut,
+  lockSession,
+  logout,
+  clearError,
+  updateUser,
+} = authSlice.actions;
+
+// A stable empty list while signed out, so subscribers do not re-render on every dispatch
+const noPermissions: Permission[] = [];
 
 // Selectors
 export const selectAuth = (state: { auth: AuthState }) => state.auth;
 export const selectUser = (state: { auth: AuthState }) => state.auth.user;
 export const selectIsAuthenticated = (state: { auth: AuthState }) => state.auth.isAuthenticated;
+export const selectTokenExpiresAt = (state: { auth: AuthState }) => state.auth.expiresAt;
+export const selectIsRestoringSession = (state: { auth: AuthState }) => state.auth.isRestoring;
+export const selectSignedOutElsewhere = (state: { auth: AuthState }) => state.auth.signedOutElsewhere;
+export const selectSessionStartedAt = (state: { auth: AuthState }) => state.auth.sessionStartedAt;
+export const selectTwoFactorChallenge = (state: { auth: AuthState }) => state.auth.twoFactorChallenge;
+export const selectLockReason = (state: { auth: AuthState }) => state.auth.lockReason;
 export const selectUserRole = (state: { auth: AuthState }) => state.auth.user?.role;
+export const selectPermissions = (state: { auth: AuthState }) => state.auth.user?.permissions ?? noPermissions;
+// While impersonating, `user` is the user being viewed as and this holds the administrator
+export const selectImpersonation = (state: { auth: AuthState }) => state.auth.user?.impersonation ?? null;
 
 export default authSlice.reducer;
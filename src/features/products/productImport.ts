@@ -0,0 +1,110 @@
+// ============================================
+// Product Import
+// Reads supplier spreadsheets and validates rows for bulk creation
+// ============================================
+
+import readXlsxFile from 'read-excel-file';
+import { parseCsv } from '@/lib/csv';
+import { productImportSchema, type ProductImportData } from './productSchema';
+
+export type ImportField = keyof ProductImportData;
+
+export const importFields: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'sku', label: 'SKU', required: true, aliases: ['sku', 'code', 'productcode', 'itemcode', 'partnumber'] },
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'productname', 'title', 'item'] },
+  { field: 'description', label: 'Description', required: true, aliases: ['description', 'desc', 'details'] },
+  { field: 'category', label: 'Category', required: true, aliases: ['category', 'type', 'group'] },
+  { field: 'price', label: 'Price', required: true, aliases: ['price', 'unitprice', 'amount'] },
+  { field: 'stock', label: 'Stock', required: true, aliases: ['stock', 'quantity', 'qty', 'inventory', 'onhand'] },
+  // Defaults to "active" when not mapped
+  { field: 'status', label: 'Status', required: false, aliases: ['status', 'state'] },
+];
+
+// Source column index per field; null means the field isn't mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRowResult {
+  // 1-based spreadsheet row, counting the header row
+  rowNumber: number;
+  source: string[];
+  data: ProductImportData | null;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString();
+  return String(cell).trim();
+};
+
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  if (!isExcel && !/\.csv$/i.test(file.name)) {
+    throw new Error('Unsupported file type. Upload a .csv or .xlsx file.');
+  }
+
+  const table = isExcel
+    ? (await readXlsxFile(file)).map((row) => row.map(cellToString))
+    : parseCsv(await file.text());
+
+  if (table.length < 2) {
+    throw new Error('The file needs a header row and at least one data row.');
+  }
+
+  const [headers, ...rows] = table;
+  return { headers: headers.map(cellToString), rows };
+};
+
+// Matches source headers to fields by name, ignoring case and punctuation
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return importFields.reduce((mapping, { field, aliases }) => {
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    return { ...mapping, [field]: index === -1 ? null : index };
+  }, {} as ColumnMapping);
+};
+
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingSkus: string[]
+): ImportRowResult[] => {
+  const existing = new Set(existingSkus.map((sku) => sku.toLowerCase()));
+  const seen = new Map<string, number>();
+
+  return rows.map((source, index) => {
+    const rowNumber = index + 2;
+    const raw = Object.fromEntries(
+      importFields.map(({ field }) => {
+        const column = mapping[field];
+        return [field, column === null ? '' : (source[column] ?? '').trim()];
+      })
+    ) as Record<ImportField, string>;
+    const candidate = { ...raw, status: raw.status.toLowerCase() || 'active' };
+
+    const result = productImportSchema.safeParse(candidate);
+    const errors = result.success
+      ? []
+      : result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+
+    const skuKey = raw.sku.toLowerCase();
+    if (skuKey) {
+      if (existing.has(skuKey)) {
+        errors.push(`sku: ${raw.sku} already exists`);
+      } else if (seen.has(skuKey)) {
+        errors.push(`sku: duplicate of row ${seen.get(skuKey)}`);
+      } else {
+        seen.set(skuKey, rowNumber);
+      }
+    }
+
+    return { rowNumber, source, data: result.success && errors.length === 0 ? result.data : null, errors };
+  });
+};
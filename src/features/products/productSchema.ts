@@ -0,0 +1,33 @@
+// ============================================
+// Product Validation Schemas
+// Shared by the product form, inline editing and imports
+// ============================================
+
+import { z } from 'zod';
+import type { Product } from '@/types';
+
+export const productSchema = z.object({
+  name: z.string().min(1, 'Product name is required').max(100),
+  description: z.string().min(1, 'Description is required').max(500),
+  category: z.string().min(1, 'Category is required'),
+  price: z.coerce.number().positive('Price must be positive'),
+  // Only sent by users allowed to see and edit costs
+  cost: z.coerce.number().min(0, 'Cost cannot be negative').optional(),
+  stock: z.coerce.number().int().min(0, 'Stock cannot be negative'),
+  status: z.enum(['active', 'inactive', 'discontinued'] as const),
+});
+
+export type ProductFormData = z.infer<typeof productSchema>;
+
+// Imported rows also carry the SKU, which the form leaves to the server
+export const productImportSchema = productSchema.extend({
+  sku: z.string().trim().min(1, 'SKU is required').max(40),
+});
+
+export type ProductImportData = z.infer<typeof productImportSchema>;
+
+export const productStatuses: { value: Product['status']; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'discontinued', label: 'Discontinued' },
+];
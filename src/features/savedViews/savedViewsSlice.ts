@@ -0,0 +1,33 @@
+// ============================================
+// Saved Views Slice
+// Which saved view each table is showing; the views themselves are loaded through the API
+// ============================================
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { TableId } from '@/types';
+
+interface SavedViewsState {
+  activeViewIds: Record<TableId, string | null>;
+}
+
+const initialState: SavedViewsState = {
+  activeViewIds: { products: null, users: null },
+};
+
+const savedViewsSlice = createSlice({
+  name: 'savedViews',
+  initialState,
+  reducers: {
+    setActiveView: (state, action: PayloadAction<{ tableId: TableId; viewId: string | null }>) => {
+      state.activeViewIds[action.payload.tableId] = action.payload.viewId;
+    },
+  },
+});
+
+export const { setActiveView } = savedViewsSlice.actions;
+
+// Selectors
+export const selectActiveViewId = (tableId: TableId) => (state: { savedViews: SavedViewsState }) =>
+  state.savedViews.activeViewIds[tableId];
+
+export default savedViewsSlice.reducer;
@@ -4,7 +4,7 @@
 // ============================================
 
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import type { Notification, UIState } from '@/types';
+import type { Breadcrumb, Notification, UIState } from '@/types';
 
 const initialState: UIState = {
   sidebarCollapsed: false,
@@ -12,6 +12,7 @@ const initialState: UIState = {
   isOnline: navigator.onLine,
   notifications: [],
   theme: 'light',
+  breadcrumbs: null,
 };
 
 const uiSlice = createSlice({
@@ -63,6 +64,9 @@ const uiSlice = createSlice({
     setTheme: (state, action: PayloadAction<'light' | 'dark' | 'system'>) => {
       state.theme = action.payload;
     },
+    setBreadcrumbs: (state, action: PayloadAction<Breadcrumb[] | null>) => {
+      state.breadcrumbs = action.payload;
+    },
   },
 });
 
@@ -77,6 +81,7 @@ export const {
   markAllNotificationsAsRead,
   clearNotifications,
   setTheme,
+  setBreadcrumbs,
 } = uiSlice.actions;
 
 // Selectors
@@ -87,5 +92,6 @@ export const selectNotifications = (state: { ui: UIState }) => state.ui.notifica
 export const selectUnreadNotificationsCount = (state: { ui: UIState }) =>
   state.ui.notifications.filter((n) => !n.read).length;
 export const selectTheme = (state: { ui: UIState }) => state.ui.theme;
+export const selectBreadcrumbs = (state: { ui: UIState }) => state.ui.breadcrumbs;
 
 export default uiSlice.reducer;
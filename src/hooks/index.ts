@@ -7,3 +7,17 @@ export { useOnlineStatus } from './useOnlineStatus';
 export { usePermissions } from './usePermissions';
 export { useDebounce } from './useDebounce';
 export { usePagination } from './usePagination';
+export { useDebouncedSearch } from './useDebouncedSearch';
+export { useTableUrlState } from './useTableUrlState';
+export { useSavedViews } from './useSavedViews';
+export { useColumnLayout } from './useColumnLayout';
+export { useRowSelection } from './useRowSelection';
+export { useTableExport } from './useTableExport';
+export { useTokenRefreshScheduler } from './useTokenRefreshScheduler';
+export { useSessionSync } from './useSessionSync';
+export { useIdleMonitor } from './useIdleMonitor';
+export { useCountdown } from './useCountdown';
+export { useRoles } from './useRoles';
+export { useAccessibleColumns } from './useAccessibleColumns';
+export { useImpersonation } from './useImpersonation';
+export { usePageBreadcrumbs } from './usePageBreadcrumbs';
@@ -0,0 +1,23 @@
+// ============================================
+// Accessible Columns Hook
+// Applies field-level access to DataTable columns
+// ============================================
+
+import { useMemo } from 'react';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Column } from '@/components/common/DataTable';
+import type { AccessResource } from '@/types';
+
+// Column ids name the field they show: columns for fields the user may not read are dropped
+// (so the column chooser never offers them), and ones they may not write stop being editable
+export const useAccessibleColumns = <T>(resource: AccessResource, columns: Column<T>[]): Column<T>[] => {
+  const { canReadField, canWriteField } = usePermissions();
+
+  return useMemo(
+    () =>
+      columns
+        .filter((column) => canReadField(resource, column.id))
+        .map((column) => (column.editable && !canWriteField(resource, column.id) ? { ...column, editable: false } : column)),
+    [resource, columns, canReadField, canWriteField]
+  );
+};
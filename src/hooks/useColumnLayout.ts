@@ -0,0 +1,40 @@
+// ============================================
+// Column Layout Hook
+// Per-table column layout persisted in localStorage
+// ============================================
+
+import { useCallback, useState } from 'react';
+import { config } from '@/config';
+import { normalizeColumnLayout } from '@/lib/tableQuery';
+import type { ColumnLayout, TableId } from '@/types';
+
+const storageKeyFor = (tableId: TableId) => `${config.columnLayoutKeyPrefix}${tableId}`;
+
+// Also used outside the table (e.g. exports) to respect the user's column choices
+export const readStoredColumnLayout = (tableId: TableId): ColumnLayout | null => {
+  try {
+    const stored = localStorage.getItem(storageKeyFor(tableId));
+    return stored ? normalizeColumnLayout(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const useColumnLayout = (tableId: TableId, defaultLayout: Partial<ColumnLayout> = {}) => {
+  const storageKey = storageKeyFor(tableId);
+  const [defaults] = useState(() => normalizeColumnLayout(defaultLayout));
+  const [layout, setLayoutState] = useState<ColumnLayout>(() => readStoredColumnLayout(tableId) ?? defaults);
+
+  const setLayout = useCallback(
+    (next: Partial<ColumnLayout>) => {
+      const normalized = normalizeColumnLayout(next);
+      setLayoutState(normalized);
+      localStorage.setItem(storageKey, JSON.stringify(normalized));
+    },
+    [storageKey]
+  );
+
+  const resetLayout = useCallback(() => setLayout(defaults), [setLayout, defaults]);
+
+  return { layout, setLayout, resetLayout, defaultLayout: defaults };
+};
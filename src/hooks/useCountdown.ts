@@ -0,0 +1,28 @@
+// ============================================
+// Countdown Hook
+// Whole seconds remaining until a point in time
+// ============================================
+
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (until: number | null | undefined) =>
+  until ? Math.max(0, Math.ceil((until - Date.now()) / 1000)) : 0;
+
+// Ticks once a second and settles at 0 once the time has passed (or when there is none)
+export const useCountdown = (until: number | null | undefined): number => {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(until));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(until));
+    if (!until || until <= Date.now()) return;
+
+    const interval = window.setInterval(() => {
+      const remaining = secondsUntil(until);
+      setSecondsLeft(remaining);
+      if (remaining === 0) window.clearInterval(interval);
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [until]);
+
+  return secondsLeft;
+};
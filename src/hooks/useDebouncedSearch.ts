@@ -0,0 +1,34 @@
+// ============================================
+// Debounced Search Hook
+// Local search input that commits after a pause
+// ============================================
+
+import { useEffect, useRef, useState } from 'react';
+import { useDebounce } from './useDebounce';
+
+/**
+ * Returns `[query, setQuery]` for a search input bound to a committed `value`.
+ * Typing commits through `onCommit` once the input settles; external changes to `value`
+ * (URL restore, back/forward, saved views) are reflected in the input without re-committing.
+ */
+export const useDebouncedSearch = (value: string, onCommit: (search: string) => void, delay: number = 300) => {
+  const [query, setQuery] = useState(value);
+  const debouncedQuery = useDebounce(query, delay);
+
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const onCommitRef = useRef(onCommit);
+  onCommitRef.current = onCommit;
+
+  useEffect(() => {
+    setQuery(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (debouncedQuery !== valueRef.current) {
+      onCommitRef.current(debouncedQuery);
+    }
+  }, [debouncedQuery]);
+
+  return [query, setQuery] as const;
+};
@@ -0,0 +1,123 @@
+// ============================================
+// Idle Monitor Hook
+// Locks the session after inactivity or once it reaches its maximum age
+// ============================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import { config } from '@/config';
+import { lockSession, selectAuth } from '@/features/auth/authSlice';
+import type { SessionLockReason } from '@/types';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+// Activity is shared with other tabs through localStorage, so writes are throttled
+const ACTIVITY_WRITE_INTERVAL = 5000;
+const CHECK_INTERVAL = 1000;
+
+const readLastActivity = () => Number(localStorage.getItem(config.lastActivityKey)) || Date.now();
+
+/**
+ * Tracks mouse, keyboard, scroll and touch input and the tab's visibility. Activity in any tab
+ * counts for all of them, so a session is only locked once the user has been away from every
+ * tab for `sessionTimeouts.idleTimeout` minutes. For the last `idleWarning` seconds a countdown
+ * is returned; while it is shown, only `staySignedIn` keeps the session open, so a stray mouse
+ * movement cannot dismiss the warning unnoticed.
+ *
+ * Independently of activity, the session locks `absoluteTimeout` minutes after the password
+ * was last entered.
+ */
+export const useIdleMonitor = () => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated, isRestoring, lockReason, sessionStartedAt } = useAppSelector(selectAuth);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivity = useRef(readLastActivity());
+  const lastWrite = useRef(0);
+  const warningShown = useRef(false);
+
+  const isActive = isAuthenticated && !isRestoring && !lockReason;
+
+  const recordActivity = useCallback((force = false) => {
+    const now = Date.now();
+    lastActivity.current = now;
+    if (force || now - lastWrite.current >= ACTIVITY_WRITE_INTERVAL) {
+      lastWrite.current = now;
+      localStorage.setItem(config.lastActivityKey, String(now));
+    }
+  }, []);
+
+  const lock = useCallback(
+    (reason: SessionLockReason) => {
+      warningShown.current = false;
+      setSecondsLeft(null);
+      dispatch(lockSession(reason));
+    },
+    [dispatch]
+  );
+
+  useEffect(() => {
+    if (!isActive) return;
+    lastActivity.current = readLastActivity();
+
+    const { idleTimeout, idleWarning, absoluteTimeout } = config.sessionTimeouts;
+
+    const check = () => {
+      const now = Date.now();
+      if (sessionStartedAt && now >= sessionStartedAt + absoluteTimeout * 60 * 1000) {
+        lock('absolute');
+        return;
+      }
+
+      const last = Math.max(lastActivity.current, readLastActivity());
+      const remaining = Math.ceil((last + idleTimeout * 60 * 1000 - now) / 1000);
+      if (remaining <= 0) {
+        lock('idle');
+      } else if (remaining <= idleWarning) {
+        warningShown.current = true;
+        setSecondsLeft(remaining);
+      } else {
+        // Another tab chose to stay signed in
+        warningShown.current = false;
+        setSecondsLeft(null);
+      }
+    };
+
+    const handleActivity = () => {
+      if (!warningShown.current) recordActivity();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+    // A lock in one tab applies to all of them
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === config.sessionLockKey && event.newValue) {
+        lock(event.newValue as SessionLockReason);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('storage', handleStorage);
+    const timer = window.setInterval(check, CHECK_INTERVAL);
+    check();
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('storage', handleStorage);
+      window.clearInterval(timer);
+      warningShown.current = false;
+      setSecondsLeft(null);
+    };
+  }, [isActive, sessionStartedAt, lock, recordActivity]);
+
+  const staySignedIn = useCallback(() => {
+    warningShown.current = false;
+    setSecondsLeft(null);
+    recordActivity(true);
+  }, [recordActivity]);
+
+  const lockNow = useCallback(() => lock('manual'), [lock]);
+
+  return { secondsLeft, staySignedIn, lockNow };
+};
@@ -0,0 +1,45 @@
+// ============================================
+// Impersonation Hook
+// Starts and stops viewing the app as another user
+// ============================================
+
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import { selectImpersonation, setCredentials } from '@/features/auth/authSlice';
+import { apiSlice, useStartImpersonationMutation, useStopImpersonationMutation } from '@/services/api';
+import type { AuthResponse, ImpersonationRequest } from '@/types';
+
+/**
+ * Both directions swap the session for the one the backend returns. The idle and absolute
+ * session timers keep running, since the administrator's sign-in is still what bounds them.
+ */
+export const useImpersonation = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const impersonation = useAppSelector(selectImpersonation);
+  const [startImpersonation, { isLoading: isStarting }] = useStartImpersonationMutation();
+  const [stopImpersonation, { isLoading: isStopping }] = useStopImpersonationMutation();
+
+  const switchSession = useCallback(
+    (session: AuthResponse, to: string) => {
+      dispatch(setCredentials(session));
+      // Cached queries were fetched as the previous user
+      dispatch(apiSlice.util.resetApiState());
+      navigate(to);
+    },
+    [dispatch, navigate]
+  );
+
+  const start = useCallback(
+    async (request: ImpersonationRequest) => switchSession(await startImpersonation(request).unwrap(), '/dashboard'),
+    [startImpersonation, switchSession]
+  );
+
+  const stop = useCallback(
+    async () => switchSession(await stopImpersonation().unwrap(), '/users'),
+    [stopImpersonation, switchSession]
+  );
+
+  return { impersonation, isImpersonating: !!impersonation, start, stop, isStarting, isStopping };
+};
@@ -0,0 +1,31 @@
+// ============================================
+// Page Breadcrumbs Hook
+// Lets a page replace the header breadcrumbs while it is mounted
+// ============================================
+
+import { useEffect, useRef } from 'react';
+import { useAppDispatch } from '@/app/hooks';
+import { setBreadcrumbs } from '@/features/ui/uiSlice';
+import type { Breadcrumb } from '@/types';
+
+/**
+ * Callers may pass a new array on every render; the store is only updated when a label or
+ * path changes. Unmounting hands the header back to the navigation-based default.
+ */
+export const usePageBreadcrumbs = (breadcrumbs: Breadcrumb[]) => {
+  const dispatch = useAppDispatch();
+  const breadcrumbsRef = useRef(breadcrumbs);
+  breadcrumbsRef.current = breadcrumbs;
+  const signature = breadcrumbs.map((crumb) => `${crumb.label}\u0000${crumb.path ?? ''}`).join('\u0001');
+
+  useEffect(() => {
+    dispatch(setBreadcrumbs(breadcrumbsRef.current));
+  }, [dispatch, signature]);
+
+  useEffect(
+    () => () => {
+      dispatch(setBreadcrumbs(null));
+    },
+    [dispatch]
+  );
+};
@@ -1,21 +1,20 @@
 // ============================================
 // Permissions Hook
-// Role-based permission checking
+// Permission, record and field checks for the signed-in user
 // ============================================
 
-import { useMemo, useCallback } from 'react';
+import { useCallback } from 'react';
 import { useAppSelector } from '@/app/hooks';
-import { selectUserRole } from '@/features/auth/authSlice';
-import type { Permission, UserRole } from '@/types';
-import { ROLE_PERMISSIONS } from '@/types';
+import { selectPermissions, selectUser, selectUserRole } from '@/features/auth/authSlice';
+import { canAccessRecord, canReadField, canWriteField, type AccessRecords } from '@/lib/accessPolicy';
+import type { AccessAction, AccessResource, Permission } from '@/types';
 
+// The permissions come with the user from the backend, which resolves them from the role's
+// current definition, so they follow role edits made in Settings
 export const usePermissions = () => {
+  const user = useAppSelector(selectUser);
   const userRole = useAppSelector(selectUserRole);
-
-  const permissions = useMemo(() => {
-    if (!userRole) return [];
-    return ROLE_PERMISSIONS[userRole] || [];
-  }, [userRole]);
+  const permissions = useAppSelector(selectPermissions);
 
   const hasPermission = useCallback(
     (permission: Permission): boolean => {
@@ -38,12 +37,22 @@ export const usePermissions = () => {
     [permissions]
   );
 
-  const canAccessRoute = useCallback(
-    (allowedRoles: readonly UserRole[]): boolean => {
-      if (!userRole) return false;
-      return allowedRoles.includes(userRole);
-    },
-    [userRole]
+  // Attribute rules for one record, e.g. a manager editing a user from another department.
+  // The backend applies the same rules, so this only decides what the UI offers.
+  const canAccess = useCallback(
+    <K extends AccessResource>(resource: K, action: AccessAction, record: AccessRecords[K]): boolean =>
+      !!user && canAccessRecord({ ...user, permissions }, resource, action, record),
+    [user, permissions]
+  );
+
+  const isFieldReadable = useCallback(
+    (resource: AccessResource, field: string): boolean => !!user && canReadField({ ...user, permissions }, resource, field),
+    [user, permissions]
+  );
+
+  const isFieldWritable = useCallback(
+    (resource: AccessResource, field: string): boolean => !!user && canWriteField({ ...user, permissions }, resource, field),
+    [user, permissions]
   );
 
   return {
@@ -52,6 +61,8 @@ export const usePermissions = () => {
     hasPermission,
     hasAnyPermission,
     hasAllPermissions,
-    canAccessRoute,
+    canAccess,
+    canReadField: isFieldReadable,
+    canWriteField: isFieldWritable,
   };
 };
@@ -0,0 +1,25 @@
+// ============================================
+// Roles Hook
+// Role definitions from the backend, with display names
+// ============================================
+
+import { useCallback, useMemo } from 'react';
+import { useAppSelector } from '@/app/hooks';
+import { selectIsAuthenticated } from '@/features/auth/authSlice';
+import { useGetRolesQuery } from '@/services/api';
+import type { Role, UserRole } from '@/types';
+
+const emptyRoles: Role[] = [];
+
+export const useRoles = () => {
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const { data, isLoading } = useGetRolesQuery(undefined, { skip: !isAuthenticated });
+  const roles = data ?? emptyRoles;
+
+  const roleNames = useMemo(() => new Map(roles.map((role) => [role.id, role.name])), [roles]);
+
+  // Falls back to the id while roles load, or for a role deleted since
+  const getRoleName = useCallback((roleId: UserRole | undefined) => (roleId ? roleNames.get(roleId) ?? roleId : ''), [roleNames]);
+
+  return { roles, isLoading, getRoleName };
+};
@@ -0,0 +1,44 @@
+// ============================================
+// Row Selection Hook
+// Tracks DataTable row selection for bulk actions
+// ============================================
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { tableStateToParams } from '@/lib/tableQuery';
+import type { BulkSelection, TableState } from '@/types';
+
+/**
+ * Selection is either an explicit list of row ids on the current page, or "every row matching
+ * the current query" which the server resolves. Any change to the table state clears it, so a
+ * selection never silently spans rows the user can no longer see.
+ */
+export const useRowSelection = (tableState: TableState) => {
+  const [selectedIds, setSelectedIdsState] = useState<string[]>([]);
+  const [isAllMatching, setIsAllMatching] = useState(false);
+
+  const stateKey = tableStateToParams(tableState).toString();
+  useEffect(() => {
+    setSelectedIdsState([]);
+    setIsAllMatching(false);
+  }, [stateKey]);
+
+  const setSelectedIds = useCallback((ids: string[]) => {
+    setSelectedIdsState(ids);
+    setIsAllMatching(false);
+  }, []);
+
+  const selectAllMatching = useCallback(() => setIsAllMatching(true), []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIdsState([]);
+    setIsAllMatching(false);
+  }, []);
+
+  const { search, filters } = tableState;
+  const selection: BulkSelection = useMemo(
+    () => (isAllMatching ? { type: 'query', search, filters } : { type: 'ids', ids: selectedIds }),
+    [isAllMatching, search, filters, selectedIds]
+  );
+
+  return { selectedIds, isAllMatching, selection, setSelectedIds, selectAllMatching, clearSelection };
+};
@@ -0,0 +1,151 @@
+// ============================================
+// Saved Views Hook
+// Loads, applies and manages saved views for a table
+// ============================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import { selectUser } from '@/features/auth/authSlice';
+import { selectActiveViewId, setActiveView } from '@/features/savedViews/savedViewsSlice';
+import {
+  useCreateSavedViewMutation,
+  useDeleteSavedViewMutation,
+  useGetSavedViewsQuery,
+  useSetDefaultSavedViewMutation,
+  useUpdateSavedViewMutation,
+} from '@/services/api';
+import { defaultTableState, hasTableStateParams, normalizeColumnLayout, tableStateToParams } from '@/lib/tableQuery';
+import type { ColumnLayout, SavedView, TableId, TableState, UserRole } from '@/types';
+
+export interface SavedViewFormData {
+  name: string;
+  isDefault: boolean;
+  sharedWithRoles: UserRole[];
+}
+
+interface UseSavedViewsOptions {
+  tableState: TableState;
+  columnLayout: ColumnLayout;
+  // `columns` is null when returning to "All records", meaning the table's own default layout
+  onApply: (state: TableState, columns: ColumnLayout | null) => void;
+  // Defer applying the default view until the URL state has been restored
+  isReady: boolean;
+}
+
+const noViews: SavedView[] = [];
+
+// Page is not part of a view, so it's ignored when detecting unsaved changes
+const viewSignature = (state: TableState, columns: ColumnLayout) => {
+  const { order, hidden, widths, pinned } = normalizeColumnLayout(columns);
+  return JSON.stringify([tableStateToParams({ ...state, page: 1 }).toString(), order, hidden, widths, pinned]);
+};
+
+export const useSavedViews = (tableId: TableId, { tableState, columnLayout, onApply, isReady }: UseSavedViewsOptions) => {
+  const dispatch = useAppDispatch();
+  const location = useLocation();
+  const user = useAppSelector(selectUser);
+  const activeViewId = useAppSelector(selectActiveViewId(tableId));
+  const userId = user?.id;
+  const { data: views = noViews, isUninitialized, isLoading } = useGetSavedViewsQuery(tableId, { skip: !userId });
+  // Settled either way, so a failed load doesn't hold the table back waiting for a default view
+  const hasFetched = !isUninitialized && !isLoading;
+  const [createSavedView] = useCreateSavedViewMutation();
+  const [updateSavedView] = useUpdateSavedViewMutation();
+  const [deleteSavedView] = useDeleteSavedViewMutation();
+  const [setDefaultSavedView] = useSetDefaultSavedViewMutation();
+
+  // A link with explicit table params always wins over the user's default view
+  const [shouldApplyDefault] = useState(() => !hasTableStateParams(new URLSearchParams(location.search)));
+  const hasAppliedDefaultRef = useRef(false);
+
+  const onApplyRef = useRef(onApply);
+  onApplyRef.current = onApply;
+
+  const activeView = views.find((v) => v.id === activeViewId) ?? null;
+
+  const isModified = useMemo(
+    () => !!activeView && viewSignature(activeView.state, activeView.columns) !== viewSignature(tableState, columnLayout),
+    [activeView, tableState, columnLayout]
+  );
+
+  const selectView = useCallback(
+    (view: SavedView | null) => {
+      dispatch(setActiveView({ tableId, viewId: view?.id ?? null }));
+      onApplyRef.current(
+        view ? { ...view.state, page: 1 } : defaultTableState,
+        view ? normalizeColumnLayout(view.columns) : null
+      );
+    },
+    [dispatch, tableId]
+  );
+
+  useEffect(() => {
+    if (hasAppliedDefaultRef.current || !shouldApplyDefault || !isReady || !hasFetched) return;
+    hasAppliedDefaultRef.current = true;
+    const defaultView = views.find((v) => v.isDefault);
+    if (defaultView && defaultView.id !== activeViewId) {
+      selectView(defaultView);
+    }
+  }, [views, activeViewId, shouldApplyDefault, isReady, hasFetched, selectView]);
+
+  // The new view becomes the active one, since it already matches the table
+  const createView = useCallback(
+    async (data: SavedViewFormData) => {
+      const view = await createSavedView({
+        tableId,
+        name: data.name,
+        isDefault: data.isDefault,
+        sharedWithRoles: data.sharedWithRoles,
+        state: { ...tableState, page: 1 },
+        columns: columnLayout,
+      }).unwrap();
+      dispatch(setActiveView({ tableId, viewId: view.id }));
+      return view;
+    },
+    [createSavedView, dispatch, tableId, tableState, columnLayout]
+  );
+
+  const updateView = useCallback(
+    async (id: string, data: SavedViewFormData) => {
+      await updateSavedView({ id, data: { name: data.name, sharedWithRoles: data.sharedWithRoles } }).unwrap();
+      const wasDefault = views.find((v) => v.id === id)?.isDefault ?? false;
+      if (data.isDefault !== wasDefault) {
+        await setDefaultSavedView({ tableId, viewId: data.isDefault ? id : null }).unwrap();
+      }
+    },
+    [updateSavedView, setDefaultSavedView, tableId, views]
+  );
+
+  // Overwrites a view with the table's current state and columns
+  const saveCurrentToView = useCallback(
+    (id: string) => updateSavedView({ id, data: { state: { ...tableState, page: 1 }, columns: columnLayout } }).unwrap(),
+    [updateSavedView, tableState, columnLayout]
+  );
+
+  const deleteView = useCallback(
+    async (id: string) => {
+      await deleteSavedView({ id, tableId }).unwrap();
+      if (id === activeViewId) dispatch(setActiveView({ tableId, viewId: null }));
+    },
+    [deleteSavedView, dispatch, tableId, activeViewId]
+  );
+
+  const setDefaultView = useCallback(
+    (id: string | null) => setDefaultSavedView({ tableId, viewId: id }).unwrap(),
+    [setDefaultSavedView, tableId]
+  );
+
+  return {
+    views,
+    activeView,
+    isModified,
+    currentUserId: userId,
+    selectView,
+    createView,
+    updateView,
+    saveCurrentToView,
+    deleteView,
+    setDefaultView,
+  };
+};
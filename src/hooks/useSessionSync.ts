@@ -0,0 +1,67 @@
+// ============================================
+// Session Sync Hook
+// Keeps auth state identical across open tabs
+// ============================================
+
+import { useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import { selectAuth, sessionSynced, signedOutInAnotherTab } from '@/features/auth/authSlice';
+import { apiSlice } from '@/services/api';
+import { publishSessionChange, subscribeToSessionChanges } from '@/services/sessionSync';
+import type { User } from '@/types';
+
+/**
+ * Publishes local login, logout, token refresh and profile changes, and applies the same
+ * changes from other tabs. Updates received from another tab are recorded as already synced
+ * so they are not echoed back.
+ */
+export const useSessionSync = () => {
+  const dispatch = useAppDispatch();
+  const auth = useAppSelector(selectAuth);
+  const synced = useRef<{ token: string | null; user: User | null }>({ token: auth.token, user: auth.user });
+  const authRef = useRef(auth);
+  authRef.current = auth;
+
+  useEffect(
+    () =>
+      subscribeToSessionChanges((message) => {
+        const current = authRef.current;
+        if (message.type === 'logout') {
+          if (!current.isAuthenticated) return;
+          synced.current = { token: null, user: null };
+          dispatch(signedOutInAnotherTab());
+          dispatch(apiSlice.util.resetApiState());
+          return;
+        }
+
+        const { session } = message;
+        synced.current = { token: session.token, user: session.user ?? current.user };
+        // A different user signed in elsewhere; nothing cached here belongs to them
+        if (session.user && current.user && session.user.id !== current.user.id) {
+          dispatch(apiSlice.util.resetApiState());
+        }
+        dispatch(sessionSynced(session));
+      }),
+    [dispatch]
+  );
+
+  useEffect(() => {
+    if (auth.token === synced.current.token && auth.user === synced.current.user) return;
+    synced.current = { token: auth.token, user: auth.user };
+
+    if (!auth.token || !auth.refreshToken) {
+      publishSessionChange({ type: 'logout' });
+    } else {
+      publishSessionChange({
+        type: 'session',
+        session: {
+          token: auth.token,
+          refreshToken: auth.refreshToken,
+          expiresAt: auth.expiresAt,
+          sessionStartedAt: auth.sessionStartedAt,
+          user: auth.user,
+        },
+      });
+    }
+  }, [auth.token, auth.refreshToken, auth.expiresAt, auth.sessionStartedAt, auth.user]);
+};
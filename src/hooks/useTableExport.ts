@@ -0,0 +1,59 @@
+// ============================================
+// Table Export Hook
+// Runs a cancellable export and tracks its progress
+// ============================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppDispatch } from '@/app/hooks';
+import { downloadFile } from '@/lib/csv';
+import { getApiErrorMessage } from '@/services/api';
+import { ExportCancelledError, exportTable, type ExportOptions } from '@/services/exportService';
+import { toast } from '@/hooks/use-toast';
+
+interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+export const useTableExport = () => {
+  const dispatch = useAppDispatch();
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Abandon an in-flight export if the owner unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const startExport = useCallback(async (options: Omit<ExportOptions, 'dispatch' | 'signal' | 'onProgress'>) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsExporting(true);
+    setProgress(null);
+
+    try {
+      const result = await exportTable({
+        ...options,
+        dispatch,
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+      downloadFile(result.fileName, result.blob, result.blob.type);
+      toast({ title: 'Export complete', description: `${result.rowCount.toLocaleString()} rows exported` });
+      return true;
+    } catch (err) {
+      if (err instanceof ExportCancelledError) {
+        toast({ title: 'Export cancelled' });
+      } else {
+        toast({ title: 'Export failed', description: getApiErrorMessage(err), variant: 'destructive' });
+      }
+      return false;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsExporting(false);
+    }
+  }, [dispatch]);
+
+  const cancelExport = useCallback(() => controllerRef.current?.abort(), []);
+
+  return { isExporting, progress, startExport, cancelExport };
+};
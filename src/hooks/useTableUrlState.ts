@@ -0,0 +1,77 @@
+// ============================================
+// Table URL State Hook
+// Round-trips TableState through the query string
+// ============================================
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { TableState } from '@/types';
+import {
+  TABLE_STATE_PARAMS,
+  hasTableStateParams,
+  tableStateFromParams,
+  tableStateToParams,
+} from '@/lib/tableQuery';
+
+const mergeTableParams = (current: URLSearchParams, state: TableState): URLSearchParams => {
+  const next = new URLSearchParams(current);
+  TABLE_STATE_PARAMS.forEach((key) => next.delete(key));
+  tableStateToParams(state).forEach((value, key) => next.set(key, value));
+  return next;
+};
+
+/**
+ * Keeps `tableState` and the URL in sync.
+ * - On mount the URL wins: its state is restored via `onRestore` before `isRestored` flips to true,
+ *   so callers should hold off fetching until then. A URL without table params adopts the current state.
+ * - Every later state change pushes a history entry, so back/forward steps through previous table states.
+ */
+export const useTableUrlState = (tableState: TableState, onRestore: (state: TableState) => void) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isRestored, setIsRestored] = useState(false);
+  const hasMountedRef = useRef(false);
+
+  const serialized = tableStateToParams(tableState).toString();
+  const tableStateRef = useRef(tableState);
+  tableStateRef.current = tableState;
+
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  // Read by the state -> URL effect, which must not re-run when only the URL changes
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+  const setSearchParamsRef = useRef(setSearchParams);
+  setSearchParamsRef.current = setSearchParams;
+
+  // URL -> state (initial load and back/forward navigation)
+  useEffect(() => {
+    const isFirstRun = !hasMountedRef.current;
+    hasMountedRef.current = true;
+
+    if (isFirstRun && !hasTableStateParams(searchParams)) {
+      if (tableStateToParams(tableStateRef.current).toString()) {
+        setSearchParams(mergeTableParams(searchParams, tableStateRef.current), { replace: true });
+      }
+      setIsRestored(true);
+      return;
+    }
+
+    const restored = tableStateFromParams(searchParams);
+    if (tableStateToParams(restored).toString() !== tableStateToParams(tableStateRef.current).toString()) {
+      onRestoreRef.current(restored);
+    }
+    setIsRestored(true);
+  }, [searchParams, setSearchParams]);
+
+  // State -> URL
+  useEffect(() => {
+    if (!isRestored) return;
+    const fromUrl = tableStateToParams(tableStateFromParams(searchParamsRef.current)).toString();
+    if (fromUrl !== serialized) {
+      setSearchParamsRef.current(mergeTableParams(searchParamsRef.current, tableStateRef.current));
+    }
+  }, [serialized, isRestored]);
+
+  return { isRestored };
+};
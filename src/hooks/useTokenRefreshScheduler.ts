@@ -0,0 +1,36 @@
+// ============================================
+// Token Refresh Scheduler Hook
+// Refreshes the access token shortly before it expires
+// ============================================
+
+import { useEffect } from 'react';
+import { useAppSelector } from '@/app/hooks';
+import { selectIsAuthenticated, selectTokenExpiresAt } from '@/features/auth/authSlice';
+import { useRefreshSessionMutation } from '@/services/api';
+import { getRefreshDelay } from '@/services/tokenManager';
+
+/**
+ * Schedules a refresh `config.tokenExpiryBuffer` minutes ahead of expiry and reschedules
+ * whenever new credentials arrive. Timers are throttled in background tabs, so the check also
+ * runs when the tab becomes visible again; requests made in between refresh on their own.
+ */
+export const useTokenRefreshScheduler = () => {
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const expiresAt = useAppSelector(selectTokenExpiresAt);
+  const [refreshSession] = useRefreshSessionMutation();
+
+  useEffect(() => {
+    if (!isAuthenticated || expiresAt === null) return;
+
+    const timer = window.setTimeout(() => refreshSession(), getRefreshDelay(expiresAt));
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && getRefreshDelay(expiresAt) === 0) refreshSession();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isAuthenticated, expiresAt, refreshSession]);
+};
@@ -0,0 +1,133 @@
+// ============================================
+// Access Policy
+// Record- and field-level checks shared by the UI and the mock backend
+// ============================================
+
+import { config } from '@/config';
+import type {
+  AccessAction,
+  AccessCondition,
+  AccessPolicy,
+  AccessResource,
+  AccessRule,
+  Permission,
+  Product,
+  User,
+} from '@/types';
+
+// Who is asking; on the client this is the signed-in user
+export type AccessSubject = Pick<User, 'id' | 'role' | 'department' | 'permissions'>;
+
+interface RecordAttributes {
+  owner?: string;
+  department?: string;
+  status?: string;
+}
+
+export interface AccessRecords {
+  users: Partial<User>;
+  products: Partial<Product>;
+}
+
+// The attributes conditions are evaluated against, per resource
+const recordAttributes: { [K in AccessResource]: (record: AccessRecords[K]) => RecordAttributes } = {
+  users: (user) => ({
+    owner: user.id,
+    department: user.department,
+    status: user.isActive === undefined ? undefined : user.isActive ? 'active' : 'inactive',
+  }),
+  products: (product) => ({ owner: product.createdBy, status: product.status }),
+};
+
+const meetsCondition = (condition: AccessCondition, subject: AccessSubject, attributes: RecordAttributes): boolean => {
+  switch (condition.type) {
+    case 'owner':
+      return !!attributes.owner && attributes.owner === subject.id;
+    case 'department':
+      return !!attributes.department && attributes.department === subject.department;
+    case 'status':
+      return !!attributes.status && condition.values.includes(attributes.status);
+  }
+};
+
+const hasPermission = (subject: AccessSubject, permission: Permission) => !!subject.permissions?.includes(permission);
+
+/**
+ * The first rule that keeps the subject from acting on the record, or null when the action is
+ * allowed. The resource permission itself (e.g. 'users:write') is checked separately.
+ */
+export const findDenyingRule = <K extends AccessResource>(
+  subject: AccessSubject,
+  resource: K,
+  action: AccessAction,
+  record: AccessRecords[K],
+  policy: AccessPolicy = config.accessPolicy
+): AccessRule | null => {
+  const attributes = recordAttributes[resource](record);
+  return (
+    policy.rules.find(
+      (rule) =>
+        rule.resource === resource &&
+        rule.actions.includes(action) &&
+        rule.roles.includes(subject.role) &&
+        !rule.conditions.some((condition) => meetsCondition(condition, subject, attributes))
+    ) ?? null
+  );
+};
+
+export const canAccessRecord = <K extends AccessResource>(
+  subject: AccessSubject,
+  resource: K,
+  action: AccessAction,
+  record: AccessRecords[K],
+  policy: AccessPolicy = config.accessPolicy
+): boolean =>
+  hasPermission(subject, `${resource}:${action}` as Permission) && !findDenyingRule(subject, resource, action, record, policy);
+
+export const canReadField = (
+  subject: AccessSubject,
+  resource: AccessResource,
+  field: string,
+  policy: AccessPolicy = config.accessPolicy
+): boolean => {
+  const rule = policy.fields.find((f) => f.resource === resource && f.field === field);
+  return !rule?.read || hasPermission(subject, rule.read);
+};
+
+// Writing a field also needs reading it
+export const canWriteField = (
+  subject: AccessSubject,
+  resource: AccessResource,
+  field: string,
+  policy: AccessPolicy = config.accessPolicy
+): boolean => {
+  const rule = policy.fields.find((f) => f.resource === resource && f.field === field);
+  return canReadField(subject, resource, field, policy) && (!rule?.write || hasPermission(subject, rule.write));
+};
+
+// Fields in `changes` that differ from `before` but the subject may not write
+export const getUnwritableChanges = (
+  subject: AccessSubject,
+  resource: AccessResource,
+  before: object,
+  changes: object,
+  policy: AccessPolicy = config.accessPolicy
+): string[] =>
+  Object.entries(changes)
+    .filter(([field, value]) => value !== undefined && (before as Record<string, unknown>)[field] !== value)
+    .map(([field]) => field)
+    .filter((field) => !canWriteField(subject, resource, field, policy));
+
+// A copy of the record without the fields the subject may not read
+export const redactRecord = <T extends object>(
+  subject: AccessSubject,
+  resource: AccessResource,
+  record: T,
+  policy: AccessPolicy = config.accessPolicy
+): T => {
+  const hidden = policy.fields.filter((f) => f.resource === resource && !canReadField(subject, resource, f.field, policy));
+  if (hidden.length === 0) return record;
+  const copy = { ...record } as Record<string, unknown>;
+  hidden.forEach(({ field }) => delete copy[field]);
+  return copy as T;
+};
@@ -0,0 +1,73 @@
+// ============================================
+// Activity
+// Record diffs and display helpers shared by the activity log and the mock backend
+// ============================================
+
+import type { AccessResource, ActivityAction, ActivityChange, ActivityEntity } from '@/types';
+
+// Bookkeeping that changes with every write and says nothing about the edit itself
+const ignoredFields = new Set(['id', 'createdAt', 'updatedAt']);
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-by-field differences between two versions of a record. Pass null for `before` on a
+ * create and for `after` on a delete, so every field shows up as added or removed.
+ */
+export const diffRecords = (before: object | null, after: object | null): ActivityChange[] => {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+  return fields
+    .filter((field) => !ignoredFields.has(field) && !isSameValue(previous[field], next[field]))
+    .map((field) => ({ field, before: previous[field], after: next[field] }));
+};
+
+// The resource whose permissions and field rules govern an entity
+export const activityResources: Partial<Record<ActivityEntity, AccessResource>> = {
+  user: 'users',
+  product: 'products',
+};
+
+export const activityActionLabels: Record<ActivityAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+export const activityEntityLabels: Record<ActivityEntity, string> = {
+  user: 'User',
+  product: 'Product',
+  role: 'Role',
+};
+
+// 'firstName' -> 'First name'
+export const getFieldLabel = (field: string): string => {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatActivityValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const relativeTime = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+
+const timeUnits: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+];
+
+// '5 minutes ago', 'yesterday'; anything under a minute is 'just now'
+export const formatTimeAgo = (iso: string, now = Date.now()): string => {
+  const seconds = Math.round((new Date(iso).getTime() - now) / 1000);
+  const unit = timeUnits.find(([, size]) => Math.abs(seconds) >= size);
+  return unit ? relativeTime.format(Math.round(seconds / unit[1]), unit[0]) : 'just now';
+};
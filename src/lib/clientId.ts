@@ -0,0 +1,17 @@
+// ============================================
+// Client ID
+// Stable identifier for this browser, sent with sign-in attempts
+// ============================================
+
+import { config } from '@/config';
+
+// Lets the backend throttle failed sign-ins per device as well as per account. Shared by all
+// tabs and kept across sign-outs; it identifies the browser, not the user.
+export const getClientId = (): string => {
+  let clientId = localStorage.getItem(config.clientIdKey);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(config.clientIdKey, clientId);
+  }
+  return clientId;
+};
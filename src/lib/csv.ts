@@ -0,0 +1,78 @@
+// ============================================
+// CSV Utilities
+// RFC 4180 parsing/serialization and file downloads
+// ============================================
+
+// Parses CSV text into rows of raw cell strings. Handles quoted fields, escaped
+// quotes, embedded newlines, CRLF line endings and a leading BOM.
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (e.g. a trailing newline or empty spreadsheet rows)
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+// Spreadsheet apps run text starting with these as a formula, so such cells get a leading `'`
+// to be shown as plain text. Numbers are left alone (including negative ones read from a sheet
+// as text), so they still import and sum as numbers.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_PREFIX.test(text) && !Number.isFinite(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]): string => rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// Triggers a browser download for generated content
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Prefixes a UTF-8 BOM so Excel detects the encoding
+export const downloadCsv = (filename: string, rows: unknown[][]) =>
+  downloadFile(filename, `\uFEFF${toCsv(rows)}`, 'text/csv;charset=utf-8');
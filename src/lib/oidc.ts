@@ -0,0 +1,116 @@
+// ============================================
+// OpenID Connect Utilities
+// Authorization code + PKCE requests, callback validation and role mapping
+// ============================================
+
+import { config } from '@/config';
+import type { OidcClaims, UserRole } from '@/types';
+
+// Requests older than this are refused at the callback, like an abandoned sign-in
+const REQUEST_TTL = 10 * 60 * 1000;
+
+// Most privileged first, so a member of several mapped groups gets the highest role
+const ROLE_PRIORITY: UserRole[] = ['admin', 'manager', 'user'];
+
+interface PendingAuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  // In-app path to return to once signed in
+  returnTo: string;
+  createdAt: number;
+}
+
+// base64url without padding (RFC 7636 Appendix A)
+export const base64UrlEncode = (input: Uint8Array | string): string => {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export const base64UrlDecode = (input: string): string => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  return new TextDecoder().decode(Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)));
+};
+
+const randomToken = (byteLength = 32) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// 32 random bytes encode to 43 characters, the shortest verifier RFC 7636 allows
+export const generateCodeVerifier = (): string => randomToken(32);
+
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+export const getRedirectUri = (): string => `${window.location.origin}${config.oidc.redirectPath}`;
+
+/**
+ * Builds the URL to send the browser to for single sign-on. The state, nonce and PKCE verifier
+ * stay in sessionStorage, so only the tab that started the request can complete it.
+ */
+export const createAuthorizationUrl = async (returnTo: string): Promise<string> => {
+  const request: PendingAuthorizationRequest = {
+    state: randomToken(16),
+    nonce: randomToken(16),
+    codeVerifier: generateCodeVerifier(),
+    redirectUri: getRedirectUri(),
+    returnTo,
+    createdAt: Date.now(),
+  };
+  sessionStorage.setItem(config.oidcRequestKey, JSON.stringify(request));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.oidc.clientId,
+    redirect_uri: request.redirectUri,
+    scope: config.oidc.scopes.join(' '),
+    state: request.state,
+    nonce: request.nonce,
+    code_challenge: await createCodeChallenge(request.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+  return `${config.oidc.authorizationEndpoint}?${params.toString()}`;
+};
+
+/**
+ * Validates the query string the identity provider redirected back with and returns the code
+ * along with the request it answers. The stored request is single use: it is removed before
+ * anything is checked, so a replayed callback URL always fails.
+ */
+export const readAuthorizationResponse = (search: string): { code: string; request: PendingAuthorizationRequest } => {
+  const params = new URLSearchParams(search);
+  const stored = sessionStorage.getItem(config.oidcRequestKey);
+  sessionStorage.removeItem(config.oidcRequestKey);
+
+  const request = stored ? (JSON.parse(stored) as PendingAuthorizationRequest) : null;
+  if (!request || request.state !== params.get('state') || request.createdAt + REQUEST_TTL <= Date.now()) {
+    throw new Error('This sign-in link is invalid or has expired. Please try again.');
+  }
+
+  const error = params.get('error');
+  if (error === 'access_denied') throw new Error('Single sign-on was cancelled.');
+  if (error) throw new Error(params.get('error_description') || `The identity provider returned "${error}".`);
+
+  const code = params.get('code');
+  if (!code) throw new Error('The identity provider did not return an authorization code.');
+  return { code, request };
+};
+
+// Reads an ID token's claims. Does not check the signature; see the callers for why that is safe.
+export const decodeIdToken = (idToken: string): OidcClaims => {
+  const [, payload] = idToken.split('.');
+  if (!payload) throw new Error('Malformed ID token');
+  return JSON.parse(base64UrlDecode(payload)) as OidcClaims;
+};
+
+// The app role for the user's IdP groups, or null when they are not allowed in
+export const mapClaimsToRole = (claims: OidcClaims, oidc = config.oidc): UserRole | null => {
+  const value = claims[oidc.groupsClaim];
+  const groups = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+  const roles = groups.map((group) => oidc.groupRoles[group]).filter(Boolean);
+  return ROLE_PRIORITY.find((role) => roles.includes(role)) ?? oidc.defaultRole;
+};
@@ -0,0 +1,80 @@
+// ============================================
+// Password Policy
+// Rules, strength scoring and the Zod schemas shared by forms and the mock backend
+// ============================================
+
+import { z } from 'zod';
+import { config } from '@/config';
+import type { PasswordPolicy } from '@/types';
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+// The rules a policy enables, in the order they are listed to the user
+export const getPasswordRules = (policy: PasswordPolicy = config.passwordPolicy): PasswordRule[] => {
+  const rules: PasswordRule[] = [
+    { id: 'length', label: `At least ${policy.minLength} characters`, test: (p) => p.length >= policy.minLength },
+  ];
+  if (policy.requireUppercase) rules.push({ id: 'uppercase', label: 'An uppercase letter', test: (p) => /[A-Z]/.test(p) });
+  if (policy.requireLowercase) rules.push({ id: 'lowercase', label: 'A lowercase letter', test: (p) => /[a-z]/.test(p) });
+  if (policy.requireNumber) rules.push({ id: 'number', label: 'A number', test: (p) => /\d/.test(p) });
+  if (policy.requireSymbol) rules.push({ id: 'symbol', label: 'A symbol', test: (p) => /[^A-Za-z0-9]/.test(p) });
+  return rules;
+};
+
+// Messages for every rule the password breaks; empty when it satisfies the policy
+export const getPasswordPolicyErrors = (password: string, policy: PasswordPolicy = config.passwordPolicy): string[] =>
+  getPasswordRules(policy)
+    .filter((rule) => !rule.test(password))
+    .map((rule) => `Password must contain ${rule.label.charAt(0).toLowerCase()}${rule.label.slice(1)}`);
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Strong',
+};
+
+// Rough entropy estimate from length and character variety, penalising repeats and sequences.
+// Guides the user while typing; the policy rules are what is actually enforced.
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (!password) return 0;
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length;
+  let score = Math.min(password.length, 20) / 4 + classes;
+  if (/(.)\1{2,}/.test(password)) score -= 2;
+  if (/(?:abc|bcd|cde|123|234|345|456|567|678|789|qwe|password)/i.test(password)) score -= 2;
+  if (score >= 8) return 4;
+  if (score >= 6.5) return 3;
+  if (score >= 5) return 2;
+  if (score >= 3) return 1;
+  return 0;
+};
+
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  const [first] = getPasswordPolicyErrors(password);
+  if (first) ctx.addIssue({ code: z.ZodIssueCode.custom, message: first });
+});
+
+// Used by the Security settings form and the forced change after sign-in
+export const passwordChangeSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: passwordSchema,
+    confirmPassword: z.string().min(1, 'Please confirm your new password'),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'New password must be different from the current one',
+    path: ['newPassword'],
+  });
+
+export type PasswordChangeFormData = z.infer<typeof passwordChangeSchema>;
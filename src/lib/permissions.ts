@@ -0,0 +1,67 @@
+// ============================================
+// Permissions
+// Display metadata and permission-set diffs shared by the UI and the mock backend
+// ============================================
+
+import { PERMISSIONS, type Permission } from '@/types';
+
+export interface PermissionGroup {
+  label: string;
+  permissions: { value: Permission; label: string }[];
+}
+
+const permissionLabels: Record<Permission, string> = {
+  'users:read': 'View users',
+  'users:write': 'Create and edit users',
+  'users:delete': 'Delete users',
+  'users:impersonate': 'View the app as another user',
+  'products:read': 'View products',
+  'products:write': 'Create and edit products',
+  'products:delete': 'Delete products',
+  'products:cost:read': 'View product cost',
+  'products:cost:write': 'Edit product cost',
+  'dashboard:admin': 'Admin dashboard',
+  'dashboard:manager': 'Manager dashboard',
+  'reports:read': 'View reports',
+  'reports:export': 'Export data',
+  'settings:read': 'View settings',
+  'settings:write': 'Change settings',
+  'roles:read': 'View roles',
+  'roles:write': 'Manage roles',
+  'activity:read': 'View activity log',
+};
+
+const groupLabels: Record<string, string> = {
+  users: 'Users',
+  products: 'Products',
+  dashboard: 'Dashboard',
+  reports: 'Reports',
+  settings: 'Settings',
+  roles: 'Roles',
+  activity: 'Activity',
+};
+
+export const getPermissionLabel = (permission: Permission): string => permissionLabels[permission] ?? permission;
+
+// Permissions grouped by the resource before the colon, in declaration order
+export const permissionGroups: PermissionGroup[] = PERMISSIONS.reduce<PermissionGroup[]>((groups, permission) => {
+  const resource = permission.split(':')[0];
+  const label = groupLabels[resource] ?? resource;
+  let group = groups.find((g) => g.label === label);
+  if (!group) {
+    group = { label, permissions: [] };
+    groups.push(group);
+  }
+  group.permissions.push({ value: permission, label: getPermissionLabel(permission) });
+  return groups;
+}, []);
+
+export const diffPermissions = (before: Permission[], after: Permission[]) => ({
+  granted: PERMISSIONS.filter((p) => after.includes(p) && !before.includes(p)),
+  revoked: PERMISSIONS.filter((p) => before.includes(p) && !after.includes(p)),
+});
+
+export const isSamePermissionSet = (a: Permission[], b: Permission[]): boolean => {
+  const { granted, revoked } = diffPermissions(a, b);
+  return granted.length === 0 && revoked.length === 0;
+};
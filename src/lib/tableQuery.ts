@@ -0,0 +1,269 @@
+// ============================================
+// Table Query Utilities
+// Sort and filter helpers shared by tables and the mock backend
+// ============================================
+
+import { config } from '@/config';
+import type { ColumnLayout, FilterConfig, SortConfig, TableState } from '@/types';
+
+// Maps a column/field id to the value used for comparisons and filtering
+export type FieldAccessors<T> = Partial<Record<string, (row: T) => unknown>>;
+
+const nextDirection = (current?: SortConfig['direction']): SortConfig['direction'] | null => {
+  if (!current) return 'asc';
+  if (current === 'asc') return 'desc';
+  return null;
+};
+
+// Cycles a column through asc -> desc -> unsorted.
+// With `multi` (shift-click) the other sort keys are kept and the column is appended as a secondary key.
+export const toggleSort = (sort: SortConfig[], field: string, multi: boolean): SortConfig[] => {
+  const existing = sort.find((s) => s.field === field);
+  const direction = nextDirection(existing?.direction);
+
+  if (!multi) {
+    return direction ? [{ field, direction }] : [];
+  }
+
+  if (!existing) {
+    return [...sort, { field, direction: 'asc' }];
+  }
+
+  return direction
+    ? sort.map((s) => (s.field === field ? { field, direction } : s))
+    : sort.filter((s) => s.field !== field);
+};
+
+// Serializes to `field:direction,field:direction` for query strings
+export const serializeSort = (sort: SortConfig[] = []): string =>
+  sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+
+export const parseSort = (value: string | null | undefined): SortConfig[] => {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((part) => {
+      const [field, direction] = part.split(':');
+      return { field, direction: direction === 'desc' ? 'desc' : 'asc' } as SortConfig;
+    })
+    .filter((s) => s.field);
+};
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined || value === '';
+
+export const compareValues = (a: unknown, b: unknown): number => {
+  // Empty values compare after everything else
+  const aEmpty = isEmptyValue(a);
+  const bEmpty = isEmptyValue(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const readField = <T>(row: T, field: string, accessors: FieldAccessors<T>): unknown =>
+  accessors[field] ? accessors[field]!(row) : (row as Record<string, unknown>)[field];
+
+// Sorts a copy of `rows` by every key in order. `getId` is used as a final tiebreaker
+// so that equal rows keep the same order across pages.
+export const sortRows = <T>(
+  rows: T[],
+  sort: SortConfig[],
+  getId: (row: T) => string,
+  accessors: FieldAccessors<T> = {}
+): T[] => {
+  if (sort.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const aValue = readField(a, field, accessors);
+      const bValue = readField(b, field, accessors);
+      // Empty values sort last in either direction
+      const emptyOrder = Number(isEmptyValue(aValue)) - Number(isEmptyValue(bValue));
+      if (emptyOrder !== 0) return emptyOrder;
+      const result = compareValues(aValue, bValue);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return compareValues(getId(a), getId(b));
+  });
+};
+
+// ============================================
+// Filters
+// ============================================
+
+export const FILTER_OPERATORS: FilterConfig['operator'][] = ['eq', 'contains', 'gt', 'lt', 'gte', 'lte', 'in'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T/;
+
+// Serializes to `field:operator:value;...` where `in` values are joined with `|`.
+// Every part is URI-encoded so values may contain the separators.
+export const serializeFilters = (filters: FilterConfig[] = []): string =>
+  filters
+    .map(({ field, operator, value }) => {
+      const values = Array.isArray(value) ? value : [value];
+      const encoded = values.map((v) => encodeURIComponent(String(v))).join('|');
+      return `${encodeURIComponent(field)}:${operator}:${encoded}`;
+    })
+    .join(';');
+
+export const parseFilters = (value: string | null | undefined): FilterConfig[] => {
+  if (!value) return [];
+  return value.split(';').reduce<FilterConfig[]>((acc, part) => {
+    const [field, operator, raw = ''] = part.split(':');
+    if (!field || !FILTER_OPERATORS.includes(operator as FilterConfig['operator'])) {
+      return acc;
+    }
+    // A hand-edited link may hold a bare `%` (e.g. `name:contains:100%`); that entry is dropped
+    // rather than failing the whole page
+    try {
+      const values = raw.split('|').map(decodeURIComponent);
+      acc.push({
+        field: decodeURIComponent(field),
+        operator: operator as FilterConfig['operator'],
+        value: operator === 'in' ? values : values[0],
+      });
+    } catch {
+      // Skip the entry
+    }
+    return acc;
+  }, []);
+};
+
+// Coerces a filter operand to the type of the row value so that
+// `price gte "100"` compares numerically and `isActive eq "true"` matches booleans
+const coerceOperand = (rowValue: unknown, operand: string | number): unknown => {
+  if (typeof rowValue === 'number') return Number(operand);
+  if (typeof rowValue === 'boolean') return String(operand) === 'true';
+  return String(operand);
+};
+
+const normalizeRowValue = (rowValue: unknown, operand: string | number): unknown => {
+  // Compare ISO timestamps against date-only operands by calendar day
+  if (typeof rowValue === 'string' && ISO_DATE_TIME.test(rowValue) && DATE_ONLY.test(String(operand))) {
+    return rowValue.slice(0, 10);
+  }
+  return rowValue;
+};
+
+export const matchesFilter = (rowValue: unknown, filter: FilterConfig): boolean => {
+  const operands = Array.isArray(filter.value) ? filter.value : [filter.value];
+
+  const test = (operand: string | number): boolean => {
+    const value = normalizeRowValue(rowValue, operand);
+    const target = coerceOperand(value, operand);
+
+    switch (filter.operator) {
+      case 'eq':
+      case 'in':
+        return compareValues(value, target) === 0;
+      case 'contains':
+        return String(value ?? '').toLowerCase().includes(String(operand).toLowerCase());
+      case 'gt':
+        return value != null && compareValues(value, target) > 0;
+      case 'gte':
+        return value != null && compareValues(value, target) >= 0;
+      case 'lt':
+        return value != null && compareValues(value, target) < 0;
+      case 'lte':
+        return value != null && compareValues(value, target) <= 0;
+      default:
+        return true;
+    }
+  };
+
+  // `in` matches any operand; every other operator uses its single operand
+  return filter.operator === 'in' ? operands.some(test) : test(operands[0]);
+};
+
+// Keeps rows matching every filter (filters are AND-ed)
+export const filterRows = <T>(rows: T[], filters: FilterConfig[], accessors: FieldAccessors<T> = {}): T[] => {
+  if (filters.length === 0) return rows;
+
+  return rows.filter((row) =>
+    filters.every((filter) => matchesFilter(readField(row, filter.field, accessors), filter))
+  );
+};
+
+// ============================================
+// Query string round-trip
+// ============================================
+
+export const defaultTableState: TableState = {
+  page: 1,
+  pageSize: config.paginationDefaults.pageSize,
+  sort: [],
+  filters: [],
+  search: '',
+};
+
+// Query string keys owned by table state; other params are left untouched
+export const TABLE_STATE_PARAMS = ['page', 'pageSize', 'sort', 'filters', 'q'] as const;
+
+// Only non-default values are written so that a pristine table has a clean URL
+export const tableStateToParams = (state: TableState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.page !== defaultTableState.page) params.set('page', String(state.page));
+  if (state.pageSize !== defaultTableState.pageSize) params.set('pageSize', String(state.pageSize));
+  if (state.sort.length > 0) params.set('sort', serializeSort(state.sort));
+  if (state.filters.length > 0) params.set('filters', serializeFilters(state.filters));
+  if (state.search) params.set('q', state.search);
+  return params;
+};
+
+export const tableStateFromParams = (params: URLSearchParams): TableState => {
+  const page = parseInt(params.get('page') ?? '', 10);
+  const pageSize = parseInt(params.get('pageSize') ?? '', 10);
+  return {
+    page: page > 0 ? page : defaultTableState.page,
+    pageSize: config.paginationDefaults.pageSizeOptions.includes(pageSize) ? pageSize : defaultTableState.pageSize,
+    sort: parseSort(params.get('sort')),
+    filters: parseFilters(params.get('filters')),
+    search: params.get('q') ?? '',
+  };
+};
+
+export const hasTableStateParams = (params: URLSearchParams): boolean =>
+  TABLE_STATE_PARAMS.some((key) => params.has(key));
+
+// ============================================
+// Column layout
+// ============================================
+
+export const emptyColumnLayout: ColumnLayout = { order: [], hidden: [], widths: {}, pinned: {} };
+
+// Fills in keys missing from layouts stored before they existed
+export const normalizeColumnLayout = (layout: Partial<ColumnLayout> | null | undefined): ColumnLayout => ({
+  order: layout?.order ?? [],
+  hidden: layout?.hidden ?? [],
+  widths: layout?.widths ?? {},
+  pinned: layout?.pinned ?? {},
+});
+
+// Moves `id` to the position of `targetId` within the full column order
+export const moveColumn = (order: string[], id: string, targetId: string): string[] => {
+  if (id === targetId) return order;
+  const without = order.filter((c) => c !== id);
+  const targetIndex = without.indexOf(targetId);
+  const insertAt = order.indexOf(id) < order.indexOf(targetId) ? targetIndex + 1 : targetIndex;
+  return [...without.slice(0, insertAt), id, ...without.slice(insertAt)];
+};
+
+// Orders columns by `layout.order` (unknown ids keep declaration order, after the known ones)
+// and drops hidden columns. Pinning is applied separately by the table.
+export const applyColumnLayout = <C extends { id: string }>(
+  columns: C[],
+  layout: Pick<ColumnLayout, 'order' | 'hidden'>
+): C[] => {
+  const rank = (id: string) => {
+    const index = layout.order.indexOf(id);
+    return index === -1 ? layout.order.length : index;
+  };
+  return columns
+    .map((column, index) => ({ column, index }))
+    .sort((a, b) => rank(a.column.id) - rank(b.column.id) || a.index - b.index)
+    .map(({ column }) => column)
+    .filter((column) => !layout.hidden.includes(column.id));
+};
@@ -0,0 +1,98 @@
+// ============================================
+// TOTP Utilities
+// RFC 6238 one-time passwords, base32 secrets and otpauth:// URIs
+// ============================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD = 30; // seconds
+
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+// Accepts lowercase, spaces and padding, as authenticator apps display secrets in groups
+export const base32Decode = (input: string): Uint8Array => {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// 160 bits, the HMAC-SHA1 block size recommended by RFC 4226
+export const generateTotpSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const getTotpStep = (time = Date.now()): number => Math.floor(time / 1000 / TOTP_PERIOD);
+
+export const generateTotp = async (secret: string, step = getTotpStep()): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Returns the time step `code` was generated for, or null if it does not match. Codes from
+ * `window` steps either side of now are accepted to allow for clock drift between devices.
+ */
+export const verifyTotp = async (secret: string, code: string, window = 1): Promise<number | null> => {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+  const current = getTotpStep();
+  for (let offset = -window; offset <= window; offset++) {
+    if ((await generateTotp(secret, current + offset)) === code) return current + offset;
+  }
+  return null;
+};
+
+// Key URI understood by Google Authenticator, 1Password, Authy and others
+export const buildOtpauthUrl = (secret: string, account: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Groups of four, the way secrets are usually shown for manual entry
+export const formatTotpSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
@@ -0,0 +1,260 @@
+// ============================================
+// Activity Page
+// Searchable log of every change made to users, products and roles
+// ============================================
+
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { getApiErrorMessage, useGetActivityActorsQuery, useGetActivityQuery } from '@/services/api';
+import { activityActionLabels, activityEntityLabels, getFieldLabel } from '@/lib/activity';
+import { config } from '@/config';
+import {
+  ACTIVITY_ACTIONS,
+  ACTIVITY_ENTITIES,
+  type ActivityAction,
+  type ActivityEntity,
+  type ActivityLog,
+  type ActivityQuery,
+} from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DataTable, { Column } from '@/components/common/DataTable';
+import { ActivityDetailDialog } from '@/components/activity';
+
+// Radix selects cannot hold an empty value, so "any" has a value of its own
+const ANY = 'any';
+
+const FILTER_PARAMS = ['userId', 'entity', 'action', 'from', 'to'] as const;
+
+type FilterParam = (typeof FILTER_PARAMS)[number];
+
+const actionVariants: Record<ActivityAction, 'default' | 'secondary' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+// Date inputs give local calendar days; the range covers both of them completely
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+const columns: Column<ActivityLog>[] = [
+  {
+    id: 'createdAt',
+    header: 'When',
+    accessor: 'createdAt',
+    width: 190,
+    cell: (value) => <span className="text-muted-foreground">{new Date(String(value)).toLocaleString()}</span>,
+  },
+  {
+    id: 'user',
+    header: 'User',
+    accessor: 'userName',
+    width: 200,
+    cell: (value, row) => (
+      <div>
+        <p className="font-medium text-foreground">{String(value)}</p>
+        {row.impersonatedBy && (
+          <p className="text-xs text-muted-foreground">
+            via {row.impersonatedBy.firstName} {row.impersonatedBy.lastName}
+          </p>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'action',
+    header: 'Action',
+    accessor: 'action',
+    width: 110,
+    cell: (value) => (
+      <Badge variant={actionVariants[value as ActivityAction]} className="font-normal">
+        {activityActionLabels[value as ActivityAction]}
+      </Badge>
+    ),
+  },
+  {
+    id: 'entity',
+    header: 'Record',
+    accessor: 'entityName',
+    width: 260,
+    cell: (value, row) => (
+      <div className="min-w-0">
+        <p className="truncate font-medium text-foreground">{String(value)}</p>
+        <p className="text-xs text-muted-foreground">{activityEntityLabels[row.entity]}</p>
+      </div>
+    ),
+  },
+  {
+    id: 'changes',
+    header: 'Changes',
+    accessor: (row) => row.changes.map((change) => getFieldLabel(change.field)).join(', '),
+    width: 320,
+    cell: (value, row) =>
+      row.action === 'update' ? (
+        <span className="truncate text-muted-foreground">{String(value) || '—'}</span>
+      ) : (
+        <span className="text-muted-foreground">{row.changes.length} fields</span>
+      ),
+  },
+];
+
+const ActivityPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedEntry, setSelectedEntry] = useState<ActivityLog | null>(null);
+
+  const filters = useMemo(
+    () => Object.fromEntries(FILTER_PARAMS.map((key) => [key, searchParams.get(key) ?? ''])) as Record<FilterParam, string>,
+    [searchParams]
+  );
+  const page = Number(searchParams.get('page')) || 1;
+  const pageSize = Number(searchParams.get('pageSize')) || config.paginationDefaults.pageSize;
+
+  const query: ActivityQuery = {
+    page,
+    pageSize,
+    userId: filters.userId || undefined,
+    entity: (filters.entity as ActivityEntity) || undefined,
+    action: (filters.action as ActivityAction) || undefined,
+    from: filters.from ? startOfDay(filters.from) : undefined,
+    to: filters.to ? endOfDay(filters.to) : undefined,
+  };
+
+  const { data, isFetching, error: queryError } = useGetActivityQuery(query);
+  const { data: actors = [] } = useGetActivityActorsQuery();
+  const error = queryError ? getApiErrorMessage(queryError) : null;
+
+  // Changing a filter starts over from the first page
+  const updateParams = (changes: Partial<Record<FilterParam | 'page' | 'pageSize', string>>) => {
+    const next = new URLSearchParams(searchParams);
+    if (!('page' in changes)) next.delete('page');
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value && value !== ANY) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  const hasFilters = FILTER_PARAMS.some((key) => filters[key]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Activity</h1>
+        <p className="text-muted-foreground">Who changed what, and when</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">User</Label>
+          <Select value={filters.userId || ANY} onValueChange={(userId) => updateParams({ userId })}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Anyone</SelectItem>
+              {actors.map((actor) => (
+                <SelectItem key={actor.id} value={actor.id}>
+                  {actor.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Record type</Label>
+          <Select value={filters.entity || ANY} onValueChange={(entity) => updateParams({ entity })}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All types</SelectItem>
+              {ACTIVITY_ENTITIES.map((entity) => (
+                <SelectItem key={entity} value={entity}>
+                  {activityEntityLabels[entity]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Action</Label>
+          <Select value={filters.action || ANY} onValueChange={(action) => updateParams({ action })}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All actions</SelectItem>
+              {ACTIVITY_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {activityActionLabels[action]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activityFrom" className="text-xs text-muted-foreground">From</Label>
+          <Input
+            id="activityFrom"
+            type="date"
+            className="w-[160px]"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => updateParams({ from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activityTo" className="text-xs text-muted-foreground">To</Label>
+          <Input
+            id="activityTo"
+            type="date"
+            className="w-[160px]"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateParams({ to: e.target.value })}
+          />
+        </div>
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={() => updateParams(Object.fromEntries(FILTER_PARAMS.map((key) => [key, ''])))}
+          >
+            <X className="h-4 w-4" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {/* Data Table */}
+      <DataTable
+        data={data?.data ?? []}
+        columns={columns}
+        isLoading={isFetching}
+        error={error}
+        pagination={data?.pagination}
+        onPageChange={(next) => updateParams({ page: String(next) })}
+        onPageSizeChange={(size) => updateParams({ pageSize: String(size) })}
+        onRowClick={setSelectedEntry}
+        rowKey="id"
+        emptyTitle="No activity found"
+        emptyDescription={hasFilters ? 'Try widening the filters.' : 'Changes to users, products and roles will show up here.'}
+      />
+
+      <ActivityDetailDialog entry={selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)} />
+    </div>
+  );
+};
+
+export default ActivityPage;
@@ -0,0 +1,33 @@
+// ============================================
+// Auth Callback Page
+// Completes single sign-on when the identity provider redirects back
+// ============================================
+
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAppDispatch } from '@/app/hooks';
+import { oidcCallbackAsync } from '@/features/auth/authSlice';
+import { LoadingSpinner } from '@/components/common';
+
+const AuthCallbackPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const dispatch = useAppDispatch();
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Codes are single use, so a second effect run (StrictMode) must not redeem it again
+    if (started.current) return;
+    started.current = true;
+
+    dispatch(oidcCallbackAsync(location.search)).then((result) => {
+      // Failures are explained by the login page, which reads them from the auth state
+      const target = oidcCallbackAsync.fulfilled.match(result) ? result.payload.returnTo : '/login';
+      navigate(target, { replace: true });
+    });
+  }, [dispatch, location.search, navigate]);
+
+  return <LoadingSpinner fullScreen text="Completing sign-in..." />;
+};
+
+export default AuthCallbackPage;
@@ -0,0 +1,68 @@
+// ============================================
+// Change Password Page
+// Forced password change before the app can be used
+// ============================================
+
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { KeyRound, LogOut } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import { logoutAsync, selectUser } from '@/features/auth/authSlice';
+import { apiSlice } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PasswordChangeForm } from '@/components/auth';
+
+const ChangePasswordPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const dispatch = useAppDispatch();
+  const user = useAppSelector(selectUser);
+
+  const from = (location.state as { from?: { pathname: string } })?.from?.pathname || '/dashboard';
+
+  // Reached directly without a pending change
+  if (user && !user.passwordChangeRequired) {
+    return <Navigate to={from} replace />;
+  }
+
+  const expired = user?.passwordExpiresAt && new Date(user.passwordExpiresAt).getTime() <= Date.now();
+
+  const handleSignOut = () => {
+    dispatch(logoutAsync());
+    dispatch(apiSlice.util.resetApiState());
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-primary-light p-4">
+      <Card className="w-full max-w-md shadow-lg border-border/50">
+        <CardHeader className="space-y-1 pb-4">
+          <div className="flex h-12 w-12 items-center justify-center rounded-full bg-muted mb-2">
+            <KeyRound className="h-6 w-6 text-muted-foreground" />
+          </div>
+          <CardTitle className="text-xl">Change your password</CardTitle>
+          <CardDescription>
+            {expired
+              ? 'Your password has expired. Choose a new one to continue.'
+              : 'Your password no longer meets the security policy. Choose a new one to continue.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <PasswordChangeForm
+            submitLabel="Change Password"
+            onChanged={() => {
+              toast({ title: 'Password changed' });
+              navigate(from, { replace: true });
+            }}
+          />
+          <Button variant="ghost" className="w-full gap-2" onClick={handleSignOut}>
+            <LogOut className="h-4 w-4" />
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ChangePasswordPage;
@@ -3,7 +3,7 @@
 // Role-based dashboard with widgets and charts
 // ============================================
 
-import { useEffect, useState, memo } from 'react';
+import { memo } from 'react';
 import { 
   Users, 
   Package, 
@@ -29,11 +29,14 @@ import {
 } from 'recharts';
 import { useAppSelector } from '@/app/hooks';
 import { selectUser } from '@/features/auth/authSlice';
-import { mockApi } from '@/services/mockApi';
+import { useRoles } from '@/hooks/useRoles';
+import { useGetDashboardChartDataQuery, useGetDashboardMetricsQuery } from '@/services/api';
 import { cn } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { Can } from '@/components/auth';
+import { RecentActivity } from '@/components/activity';
 
 // Widget Card Component
 interface MetricCardProps {
@@ -91,32 +94,11 @@ const PIE_COLORS = [CHART_COLORS.primary, CHART_COLORS.accent, CHART_COLORS.succ
 
 const DashboardPage = () => {
   const user = useAppSelector(selectUser);
-  const [metrics, setMetrics] = useState<Record<string, number> | null>(null);
-  const [salesData, setSalesData] = useState<Record<string, unknown> | null>(null);
-  const [usersData, setUsersData] = useState<Record<string, unknown> | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    const loadDashboardData = async () => {
-      setIsLoading(true);
-      try {
-        const [metricsData, sales, users] = await Promise.all([
-          mockApi.getDashboardMetrics(),
-          mockApi.getChartData('sales'),
-          mockApi.getChartData('users'),
-        ]);
-        setMetrics(metricsData);
-        setSalesData(sales);
-        setUsersData(users);
-      } catch (error) {
-        console.error('Failed to load dashboard data:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadDashboardData();
-  }, []);
+  const { getRoleName } = useRoles();
+  const { data: metrics, isLoading: isMetricsLoading } = useGetDashboardMetricsQuery();
+  const { data: salesData, isLoading: isSalesLoading } = useGetDashboardChartDataQuery({ type: 'sales' });
+  const { data: usersData, isLoading: isUsersLoading } = useGetDashboardChartDataQuery({ type: 'users' });
+  const isLoading = isMetricsLoading || isSalesLoading || isUsersLoading;
 
   // Prepare chart data
   const revenueChartData = salesData ? 
@@ -142,15 +124,6 @@ const DashboardPage = () => {
     { name: 'Other', value: 8 },
   ];
 
-  // Recent activities
-  const recentActivities = [
-    { id: 1, action: 'New order placed', user: 'John Smith', time: '2 min ago', type: 'order' },
-    { id: 2, action: 'User registered', user: 'Jane Doe', time: '15 min ago', type: 'user' },
-    { id: 3, action: 'Product updated', user: 'Mike Johnson', time: '1 hour ago', type: 'product' },
-    { id: 4, action: 'Payment received', user: 'Sarah Wilson', time: '2 hours ago', type: 'payment' },
-    { id: 5, action: 'New review added', user: 'Tom Brown', time: '3 hours ago', type: 'review' },
-  ];
-
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -177,8 +150,8 @@ const DashboardPage = () => {
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground capitalize">
-            Role: {user?.role}
+          <span className="text-sm text-muted-foreground">
+            Role: {getRoleName(user?.role)}
           </span>
         </div>
       </div>
@@ -352,35 +325,9 @@ const DashboardPage = () => {
         </Card>
 
         {/* Recent Activities */}
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-base font-medium">Recent Activities</CardTitle>
-            <Button variant="ghost" size="sm" className="gap-1 text-xs">
-              View All <ArrowRight className="h-3 w-3" />
-            </Button>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {recentActivities.map((activity) => (
-                <div key={activity.id} className="flex items-start gap-3">
-                  <div className={cn(
-                    'mt-0.5 h-2 w-2 rounded-full',
-                    activity.type === 'order' && 'bg-success',
-                    activity.type === 'user' && 'bg-primary',
-                    activity.type === 'product' && 'bg-accent',
-                    activity.type === 'payment' && 'bg-warning',
-                    activity.type === 'review' && 'bg-info'
-                  )} />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-foreground">{activity.action}</p>
-                    <p className="text-xs text-muted-foreground">{activity.user}</p>
-                  </div>
-                  <span className="text-xs text-muted-foreground whitespace-nowrap">{activity.time}</span>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+        <Can permission="activity:read">
+          <RecentActivity />
+        </Can>
       </div>
     </div>
   );
@@ -11,6 +11,10 @@ import { z } from 'zod';
 import { Eye, EyeOff, Building2, Loader2 } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '@/app/hooks';
 import { loginAsync, selectIsAuthenticated, selectAuth } from '@/features/auth/authSlice';
+import { isTwoFactorChallenge } from '@/types';
+import { useCountdown } from '@/hooks/useCountdown';
+import { config } from '@/config';
+import { LoginErrorAlert, SsoSignInButton, TwoFactorChallengeStep } from '@/components/auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -29,9 +33,12 @@ const LoginPage = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const dispatch = useAppDispatch();
-  const { isLoading, error } = useAppSelector(selectAuth);
+  const { isLoading, error, loginError, twoFactorChallenge } = useAppSelector(selectAuth);
   const isAuthenticated = useAppSelector(selectIsAuthenticated);
   const [showPassword, setShowPassword] = useState(false);
+  const retrySeconds = useCountdown(loginError?.retryAt);
+  // Attempts are refused until the backoff passes, so the form waits it out instead
+  const isThrottled = loginError?.code === 'TOO_MANY_ATTEMPTS' && retrySeconds > 0;
 
   const from = (location.state as { from?: { pathname: string } })?.from?.pathname || '/dashboard';
 
@@ -54,7 +61,8 @@ const LoginPage = () => {
 
   const onSubmit = async (data: LoginFormData) => {
     const result = await dispatch(loginAsync({ email: data.email, password: data.password }));
-    if (loginAsync.fulfilled.match(result)) {
+    // With 2FA the page stays on the second step; the redirect above handles its success
+    if (loginAsync.fulfilled.match(result) && !isTwoFactorChallenge(result.payload)) {
       navigate(from, { replace: true });
     }
   };
@@ -71,103 +79,141 @@ const LoginPage = () => {
           <p className="text-muted-foreground">Sign in to your account</p>
         </div>
 
-        {/* Login Card */}
-        <Card className="shadow-lg border-border/50">
-          <CardHeader className="space-y-1 pb-4">
-            <CardTitle className="text-xl">Welcome back</CardTitle>
-            <CardDescription>
-              Enter your credentials to access your account
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-              {/* Error Alert */}
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-
-              {/* Email Field */}
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="name@company.com"
-                  {...register('email')}
-                  className={errors.email ? 'border-destructive' : ''}
-                  disabled={isLoading}
-                  autoComplete="email"
-                />
-                {errors.email && (
-                  <p className="text-sm text-destructive">{errors.email.message}</p>
+        {twoFactorChallenge ? (
+          /* Second Factor */
+          <Card className="shadow-lg border-border/50">
+            <CardHeader className="space-y-1 pb-4">
+              <CardTitle className="text-xl">Two-factor authentication</CardTitle>
+              <CardDescription>
+                {twoFactorChallenge.enrollmentRequired
+                  ? 'Set up an authenticator app for your account'
+                  : 'Confirm it is you with your authenticator app'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorChallengeStep />
+            </CardContent>
+          </Card>
+        ) : (
+          /* Login Card */
+          <Card className="shadow-lg border-border/50">
+            <CardHeader className="space-y-1 pb-4">
+              <CardTitle className="text-xl">Welcome back</CardTitle>
+              <CardDescription>
+                Enter your credentials to access your account
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                {/* Error Alert */}
+                {loginError ? (
+                  <LoginErrorAlert error={loginError} secondsLeft={retrySeconds} />
+                ) : (
+                  error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )
                 )}
-              </div>
 
-              {/* Password Field */}
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
+                {/* Email Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
                   <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    placeholder="Enter your password"
-                    {...register('password')}
-                    className={errors.password ? 'border-destructive pr-10' : 'pr-10'}
+                    id="email"
+                    type="email"
+                    placeholder="name@company.com"
+                    {...register('email')}
+                    className={errors.email ? 'border-destructive' : ''}
                     disabled={isLoading}
-                    autoComplete="current-password"
+                    autoComplete="email"
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                    tabIndex={-1}
-                  >
-                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </button>
+                  {errors.email && (
+                    <p className="text-sm text-destructive">{errors.email.message}</p>
+                  )}
                 </div>
-                {errors.password && (
-                  <p className="text-sm text-destructive">{errors.password.message}</p>
-                )}
-              </div>
 
-              {/* Submit Button */}
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Signing in...
-                  </>
-                ) : (
-                  'Sign in'
-                )}
-              </Button>
-            </form>
-
-            {/* Demo Credentials */}
-            <div className="mt-6 pt-4 border-t border-border">
-              <p className="text-xs text-muted-foreground text-center mb-3">Demo Credentials</p>
-              <div className="grid grid-cols-3 gap-2 text-xs">
-                <div className="text-center p-2 rounded-lg bg-muted/50">
-                  <p className="font-medium text-foreground">Admin</p>
-                  <p className="text-muted-foreground">admin@enterprise.com</p>
-                  <p className="text-muted-foreground">admin123</p>
-                </div>
-                <div className="text-center p-2 rounded-lg bg-muted/50">
-                  <p className="font-medium text-foreground">Manager</p>
-                  <p className="text-muted-foreground">manager@enterprise.com</p>
-                  <p className="text-muted-foreground">manager123</p>
+                {/* Password Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      placeholder="Enter your password"
+                      {...register('password')}
+                      className={errors.password ? 'border-destructive pr-10' : 'pr-10'}
+                      disabled={isLoading}
+                      autoComplete="current-password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      tabIndex={-1}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-sm text-destructive">{errors.password.message}</p>
+                  )}
                 </div>
-                <div className="text-center p-2 rounded-lg bg-muted/50">
-                  <p className="font-medium text-foreground">User</p>
-                  <p className="text-muted-foreground">user@enterprise.com</p>
-                  <p className="text-muted-foreground">user123</p>
+
+                {/* Submit Button */}
+                <Button type="submit" className="w-full" disabled={isLoading || isThrottled}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Signing in...
+                    </>
+                  ) : isThrottled ? (
+                    `Try again in ${retrySeconds}s`
+                  ) : (
+                    'Sign in'
+                  )}
+                </Button>
+              </form>
+
+              {/* Single Sign-On */}
+              {config.oidc.enabled && (
+                <>
+                  <div className="relative my-4">
+                    <div className="absolute inset-0 flex items-center">
+                      <span className="w-full border-t border-border" />
+                    </div>
+                    <div className="relative flex justify-center text-xs uppercase">
+                      <span className="bg-card px-2 text-muted-foreground">or</span>
+                    </div>
+                  </div>
+                  <SsoSignInButton returnTo={from} disabled={isLoading} />
+                </>
+              )}
+
+              {/* Demo Credentials */}
+              <div className="mt-6 pt-4 border-t border-border">
+                <p className="text-xs text-muted-foreground text-center mb-3">Demo Credentials</p>
+                <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div className="text-center p-2 rounded-lg bg-muted/50">
+                    <p className="font-medium text-foreground">Admin</p>
+                    <p className="text-muted-foreground">admin@enterprise.com</p>
+                    <p className="text-muted-foreground">admin123</p>
+                  </div>
+                  <div className="text-center p-2 rounded-lg bg-muted/50">
+                    <p className="font-medium text-foreground">Manager</p>
+                    <p className="text-muted-foreground">manager@enterprise.com</p>
+                    <p className="text-muted-foreground">manager123</p>
+                  </div>
+                  <div className="text-center p-2 rounded-lg bg-muted/50">
+                    <p className="font-medium text-foreground">User</p>
+                    <p className="text-muted-foreground">user@enterprise.com</p>
+                    <p className="text-muted-foreground">user123</p>
+                  </div>
                 </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+// ============================================
+// Mock Identity Provider Page
+// Sign-in screen of the bundled OpenID Connect provider
+// ============================================
+
+import { useMemo } from 'react';
+import { useLocation } from 'react-router-dom';
+import { AlertTriangle, Fingerprint } from 'lucide-react';
+import { mockIdp, mockIdpAccounts } from '@/services/mockIdp';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Stands in for the company's identity provider: a real one would ask for credentials here.
+// Picking an account signs in as it, so each group-to-role mapping can be tried offline.
+const MockIdpPage = () => {
+  const location = useLocation();
+
+  const { request, error } = useMemo(() => {
+    try {
+      return { request: mockIdp.parseAuthorizeRequest(new URLSearchParams(location.search)), error: null };
+    } catch (err) {
+      return { request: null, error: (err as Error).message };
+    }
+  }, [location.search]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1 pb-4">
+          <div className="flex items-center justify-between">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-foreground">
+              <Fingerprint className="h-6 w-6 text-background" />
+            </div>
+            <Badge variant="outline">Mock identity provider</Badge>
+          </div>
+          <CardTitle className="text-xl">Enterprise Identity</CardTitle>
+          <CardDescription>
+            {request ? `Choose an account to continue to ${request.clientId}` : 'This sign-in request cannot be completed'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!request ? (
+            <div className="flex items-start gap-3 rounded-lg border border-destructive/50 p-4 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              {error}
+            </div>
+          ) : (
+            <>
+              {mockIdpAccounts.map((account) => (
+                <button
+                  key={account.sub}
+                  type="button"
+                  onClick={() => window.location.assign(mockIdp.authorize(request, account.sub))}
+                  className="w-full rounded-lg border border-border p-3 text-left transition-colors hover:bg-muted/50"
+                >
+                  <p className="font-medium text-foreground">
+                    {account.givenName} {account.familyName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{account.email}</p>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {account.groups.map((group) => (
+                      <Badge key={group} variant="secondary" className="font-normal">
+                        {group}
+                      </Badge>
+                    ))}
+                  </div>
+                </button>
+              ))}
+              <Button
+                variant="ghost"
+                className="w-full"
+                onClick={() => window.location.assign(mockIdp.errorRedirect(request, 'access_denied'))}
+              >
+                Cancel
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MockIdpPage;
@@ -0,0 +1,282 @@
+// ============================================
+// Product Detail Page
+// One product with its stock, pricing, history and related products
+// ============================================
+
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, PackageX } from 'lucide-react';
+import { useAppSelector } from '@/app/hooks';
+import { selectProductsTableState } from '@/features/products/productsSlice';
+import {
+  getApiErrorMessage,
+  useGetProductByIdQuery,
+  useGetProductPositionQuery,
+  useGetProductsQuery,
+} from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import { usePageBreadcrumbs } from '@/hooks/usePageBreadcrumbs';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import StatusBadge from '@/components/common/StatusBadge';
+import EmptyState from '@/components/common/EmptyState';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { RecordHistory } from '@/components/activity';
+
+const RELATED_PRODUCTS_COUNT = 5;
+
+// Same thresholds the products table colours stock by
+const getStockLevel = (stock: number) => {
+  if (stock === 0) return { label: 'Out of stock', className: 'text-destructive' };
+  if (stock < 10) return { label: 'Low stock', className: 'text-destructive' };
+  if (stock < 50) return { label: 'Limited stock', className: 'text-warning' };
+  return { label: 'In stock', className: 'text-success' };
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const ProductDetailPage = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const tableState = useAppSelector(selectProductsTableState);
+  const { canAccess } = usePermissions();
+
+  // currentData, so stepping to another product never shows the previous one while it loads
+  const { currentData: product, error } = useGetProductByIdQuery(id);
+  // The list the user came from, as the products table last showed it
+  const { data: position } = useGetProductPositionQuery({
+    id,
+    search: tableState.search,
+    sort: tableState.sort,
+    filters: tableState.filters,
+  });
+  const { data: sameCategory } = useGetProductsQuery(
+    {
+      page: 1,
+      // One extra, since the product itself is usually among them
+      pageSize: RELATED_PRODUCTS_COUNT + 1,
+      filters: product ? [{ field: 'category', operator: 'eq', value: product.category }] : [],
+    },
+    { skip: !product }
+  );
+
+  const isNotFound = !!error && 'status' in error && error.status === 404;
+
+  usePageBreadcrumbs([
+    { label: 'Products', path: '/products' },
+    { label: product?.name ?? (isNotFound ? 'Not found' : 'Product') },
+  ]);
+
+  const backLink = (
+    <Button variant="ghost" size="sm" className="gap-1 -ml-2" asChild>
+      <Link to="/products">
+        <ArrowLeft className="h-4 w-4" />
+        Back to products
+      </Link>
+    </Button>
+  );
+
+  if (isNotFound) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="card-enterprise">
+          <EmptyState
+            icon={PackageX}
+            title="Product not found"
+            description="It may have been deleted, or the link may be wrong."
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <Alert variant="destructive">
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="card-enterprise p-8">
+        <LoadingSpinner text="Loading product..." />
+      </div>
+    );
+  }
+
+  const stockLevel = getStockLevel(product.stock);
+  const related = (sameCategory?.data ?? []).filter((p) => p.id !== product.id).slice(0, RELATED_PRODUCTS_COUNT);
+  const margin = product.cost === undefined ? undefined : product.price - product.cost;
+
+  const goTo = (productId: string | null) => productId && navigate(`/products/${productId}`);
+
+  return (
+    <div className="space-y-6">
+      {/* Navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {backLink}
+        {position?.position && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>
+              {position.position.toLocaleString()} of {position.total.toLocaleString()}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="Previous product"
+              disabled={!position.previousId}
+              onClick={() => goTo(position.previousId)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="Next product"
+              disabled={!position.nextId}
+              onClick={() => goTo(position.nextId)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Header */}
+      <div>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl font-bold text-foreground">{product.name}</h1>
+          <StatusBadge status={product.status} />
+        </div>
+        <p className="text-muted-foreground">
+          <span className="font-mono-data">{product.sku}</span> · {product.category}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Overview */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base font-medium">Overview</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="mb-6 whitespace-pre-line text-sm text-foreground">
+                {product.description || <span className="text-muted-foreground">No description.</span>}
+              </p>
+              <dl className="grid grid-cols-[140px_1fr] gap-x-4 gap-y-3 text-sm">
+                <dt className="text-muted-foreground">SKU</dt>
+                <dd className="font-mono-data">{product.sku}</dd>
+                <dt className="text-muted-foreground">Category</dt>
+                <dd>{product.category}</dd>
+                <dt className="text-muted-foreground">Created</dt>
+                <dd>{new Date(product.createdAt).toLocaleString()}</dd>
+                <dt className="text-muted-foreground">Last updated</dt>
+                <dd>{new Date(product.updatedAt).toLocaleString()}</dd>
+              </dl>
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base font-medium">History</CardTitle>
+              <CardDescription>Every change to this product, newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RecordHistory
+                key={product.id}
+                entity="product"
+                entityId={product.id}
+                canRestore={canAccess('products', 'write', product)}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Pricing */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base font-medium">Pricing</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-[1fr_auto] gap-y-3 text-sm">
+                <dt className="text-muted-foreground">Price</dt>
+                <dd className="text-right font-medium">{formatCurrency(product.price)}</dd>
+                {/* Cost is left out of the response for users who may not see it */}
+                {product.cost !== undefined && margin !== undefined && (
+                  <>
+                    <dt className="text-muted-foreground">Cost</dt>
+                    <dd className="text-right">{formatCurrency(product.cost)}</dd>
+                    <dt className="text-muted-foreground">Margin</dt>
+                    <dd className={cn('text-right', margin < 0 && 'text-destructive')}>
+                      {formatCurrency(margin)}
+                      {product.price > 0 && ` (${((margin / product.price) * 100).toFixed(1)}%)`}
+                    </dd>
+                  </>
+                )}
+              </dl>
+            </CardContent>
+          </Card>
+
+          {/* Stock */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base font-medium">Stock</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-baseline justify-between">
+                <span className="text-2xl font-bold text-foreground">{product.stock.toLocaleString()}</span>
+                <span className={cn('text-sm font-medium', stockLevel.className)}>{stockLevel.label}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatCurrency(product.stock * product.price)} at the current price
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Related */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base font-medium">Related Products</CardTitle>
+              <CardDescription>Also in {product.category}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {related.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No other products in this category.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {related.map((item) => (
+                    <li key={item.id} className="flex items-center justify-between gap-3">
+                      <Link to={`/products/${item.id}`} className="min-w-0 hover:underline">
+                        <p className="truncate text-sm font-medium text-foreground">{item.name}</p>
+                        <p className="font-mono-data text-xs text-muted-foreground">{item.sku}</p>
+                      </Link>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <span className="text-sm">{formatCurrency(item.price)}</span>
+                        <StatusBadge status={item.status} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductDetailPage;
@@ -3,30 +3,37 @@
 // Product management with CRUD and virtualization
 // ============================================
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Plus, Search, Edit2, Trash2, Filter, Loader2 } from 'lucide-react';
+import { Plus, Search, Edit2, Trash2, Filter, Loader2, ChevronDown, Upload, Download } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '@/app/hooks';
 import {
-  fetchProducts,
-  createProduct,
-  updateProduct,
-  deleteProduct,
   setTableState,
-  selectProducts,
-  selectProductsPagination,
   selectProductsTableState,
-  selectProductsLoading,
-  selectProductsError,
   selectProductsCategories,
   setSelectedProduct,
   selectSelectedProduct,
 } from '@/features/products/productsSlice';
-import { useDebounce } from '@/hooks/useDebounce';
+import {
+  getApiErrorMessage,
+  useGetProductsQuery,
+  useCreateProductMutation,
+  useUpdateProductMutation,
+  useDeleteProductMutation,
+  useBulkUpdateProductsMutation,
+  useBulkDeleteProductsMutation,
+} from '@/services/api';
+import { useDebouncedSearch } from '@/hooks/useDebouncedSearch';
+import { useTableUrlState } from '@/hooks/useTableUrlState';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useColumnLayout } from '@/hooks/useColumnLayout';
+import { useRowSelection } from '@/hooks/useRowSelection';
 import { usePermissions } from '@/hooks/usePermissions';
-import type { Product } from '@/types';
+import { useAccessibleColumns } from '@/hooks/useAccessibleColumns';
+import { toggleSort } from '@/lib/tableQuery';
+import type { BulkActionResult, FilterConfig, Product } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -36,43 +43,96 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import DataTable, { Column } from '@/components/common/DataTable';
+import type { CellParseResult } from '@/components/common/CellEditor';
 import StatusBadge from '@/components/common/StatusBadge';
+import FilterBuilder, { FilterField } from '@/components/common/FilterBuilder';
+import ViewSwitcher from '@/components/common/ViewSwitcher';
+import ColumnChooser from '@/components/common/ColumnChooser';
+import ExportDialog from '@/components/common/ExportDialog';
+import BulkActionBar from '@/components/common/BulkActionBar';
+import { Can } from '@/components/auth';
+import ProductImportDialog from '@/components/products/ProductImportDialog';
 import { toast } from '@/hooks/use-toast';
+import { productSchema, productStatuses, type ProductFormData } from '@/features/products/productSchema';
+
+// Inline edits reuse the form schema so both paths enforce the same rules
+type InlineEditableField = 'price' | 'cost' | 'stock' | 'status';
 
-// Form validation schema
-const productSchema = z.object({
-  name: z.string().min(1, 'Product name is required').max(100),
-  description: z.string().min(1, 'Description is required').max(500),
-  category: z.string().min(1, 'Category is required'),
-  price: z.coerce.number().positive('Price must be positive'),
-  stock: z.coerce.number().int().min(0, 'Stock cannot be negative'),
-  status: z.enum(['active', 'inactive', 'discontinued'] as const),
-});
+const parseField =
+  (field: InlineEditableField) =>
+  (input: string): CellParseResult => {
+    const result = productSchema.shape[field].safeParse(input);
+    return result.success
+      ? { success: true, value: result.data }
+      : { success: false, error: result.error.issues[0].message };
+  };
 
-type ProductFormData = z.infer<typeof productSchema>;
+const emptyPagination = { page: 1, pageSize: 25, total: 0, totalPages: 0 };
 
 const ProductsPage = () => {
   const dispatch = useAppDispatch();
-  const products = useAppSelector(selectProducts);
-  const pagination = useAppSelector(selectProductsPagination);
+  const navigate = useNavigate();
   const tableState = useAppSelector(selectProductsTableState);
-  const isLoading = useAppSelector(selectProductsLoading);
-  const error = useAppSelector(selectProductsError);
   const categories = useAppSelector(selectProductsCategories);
   const selectedProduct = useAppSelector(selectSelectedProduct);
-  const { hasPermission } = usePermissions();
+  const { hasPermission, canAccess, canReadField, canWriteField } = usePermissions();
 
-  const [searchQuery, setSearchQuery] = useState(tableState.search);
-  const [categoryFilter, setCategoryFilter] = useState('');
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const debouncedSearch = useDebounce(searchQuery, 300);
+  // Table state lives in the URL so views survive reloads and can be shared
+  const { isRestored } = useTableUrlState(tableState, (restored) => dispatch(setTableState(restored)));
+
+  // Wait for the URL state so the first request isn't for the default page
+  const {
+    data: productsResponse,
+    isFetching,
+    error: queryError,
+  } = useGetProductsQuery(tableState, { skip: !isRestored });
+  const products = useMemo(() => productsResponse?.data ?? [], [productsResponse]);
+  const pagination = productsResponse?.pagination ?? emptyPagination;
+  const error = queryError ? getApiErrorMessage(queryError) : null;
+
+  const [createProduct] = useCreateProductMutation();
+  const [updateProduct] = useUpdateProductMutation();
+  const [deleteProduct] = useDeleteProductMutation();
+  const [bulkUpdateProducts] = useBulkUpdateProductsMutation();
+  const [bulkDeleteProducts] = useBulkDeleteProductsMutation();
+
+  const { layout: columnLayout, setLayout: setColumnLayout, resetLayout: resetColumnLayout } = useColumnLayout(
+    'products',
+    { pinned: { sku: 'left', actions: 'right' } }
+  );
+
+  const savedViews = useSavedViews('products', {
+    tableState,
+    columnLayout,
+    isReady: isRestored,
+    onApply: (state, columns) => {
+      dispatch(setTableState(state));
+      if (columns) {
+        setColumnLayout(columns);
+      } else {
+        resetColumnLayout();
+      }
+    },
+  });
+
+  const [searchQuery, setSearchQuery] = useDebouncedSearch(tableState.search, (search) =>
+    dispatch(setTableState({ search, page: 1 }))
+  );
 
   const canWrite = hasPermission('products:write');
   const canDelete = hasPermission('products:delete');
+  const canEditRow = useCallback((row: Product) => canAccess('products', 'write', row), [canAccess]);
+
+  const rowSelection = useRowSelection(tableState);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
+  const [isBulkSubmitting, setIsBulkSubmitting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const {
     register,
@@ -88,23 +148,6 @@ const ProductsPage = () => {
     },
   });
 
-  // Fetch products
-  useEffect(() => {
-    dispatch(
-      fetchProducts({
-        page: tableState.page,
-        pageSize: tableState.pageSize,
-        search: debouncedSearch,
-        category: categoryFilter,
-      })
-    );
-  }, [dispatch, tableState.page, tableState.pageSize, debouncedSearch, categoryFilter]);
-
-  // Update search in table state
-  useEffect(() => {
-    dispatch(setTableState({ search: debouncedSearch, page: 1 }));
-  }, [dispatch, debouncedSearch]);
-
   const handlePageChange = useCallback(
     (page: number) => {
       dispatch(setTableState({ page }));
@@ -119,6 +162,57 @@ const ProductsPage = () => {
     [dispatch]
   );
 
+  const handleSort = useCallback(
+    (field: string, multi: boolean) => {
+      dispatch(setTableState({ sort: toggleSort(tableState.sort, field, multi), page: 1 }));
+    },
+    [dispatch, tableState.sort]
+  );
+
+  const handleFiltersChange = useCallback(
+    (filters: FilterConfig[]) => {
+      dispatch(setTableState({ filters, page: 1 }));
+    },
+    [dispatch]
+  );
+
+  // The category dropdown is a shortcut for a `category eq <value>` filter
+  const categoryFilter = String(
+    tableState.filters.find((f) => f.field === 'category' && f.operator === 'eq')?.value ?? ''
+  );
+
+  const setCategoryFilter = (category: string) => {
+    const rest = tableState.filters.filter((f) => !(f.field === 'category' && f.operator === 'eq'));
+    handleFiltersChange(category ? [...rest, { field: 'category', operator: 'eq', value: category }] : rest);
+  };
+
+  const filterFields: FilterField[] = useMemo(
+    () => [
+      { field: 'name', label: 'Name', type: 'text' },
+      { field: 'sku', label: 'SKU', type: 'text' },
+      {
+        field: 'category',
+        label: 'Category',
+        type: 'select',
+        options: categories.map((c) => ({ label: c, value: c })),
+      },
+      { field: 'price', label: 'Price', type: 'number' },
+      { field: 'stock', label: 'Stock', type: 'number' },
+      {
+        field: 'status',
+        label: 'Status',
+        type: 'select',
+        options: [
+          { label: 'Active', value: 'active' },
+          { label: 'Inactive', value: 'inactive' },
+          { label: 'Discontinued', value: 'discontinued' },
+        ],
+      },
+      { field: 'updatedAt', label: 'Updated', type: 'date' },
+    ],
+    [categories]
+  );
+
   const openCreateForm = () => {
     dispatch(setSelectedProduct(null));
     reset({
@@ -126,6 +220,7 @@ const ProductsPage = () => {
       description: '',
       category: categories[0],
       price: 0,
+      cost: undefined,
       stock: 0,
       status: 'active',
     });
@@ -139,6 +234,7 @@ const ProductsPage = () => {
       description: product.description,
       category: product.category,
       price: product.price,
+      cost: product.cost,
       stock: product.stock,
       status: product.status,
     });
@@ -150,19 +246,22 @@ const ProductsPage = () => {
     setIsDeleteOpen(true);
   };
 
-  const onSubmit = async (data: ProductFormData) => {
+  const onSubmit = async (formData: ProductFormData) => {
     setIsSubmitting(true);
+    // The cost field is read-only or absent for users who may not edit it
+    const { cost, ...rest } = formData;
+    const data = canWriteField('products', 'cost') ? formData : rest;
     try {
       if (selectedProduct) {
-        await dispatch(updateProduct({ id: selectedProduct.id, data })).unwrap();
+        await updateProduct({ id: selectedProduct.id, data }).unwrap();
         toast({ title: 'Product updated successfully' });
       } else {
-        await dispatch(createProduct(data)).unwrap();
+        await createProduct(data).unwrap();
         toast({ title: 'Product created successfully' });
       }
       setIsFormOpen(false);
     } catch (err) {
-      toast({ title: 'Error', description: String(err), variant: 'destructive' });
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
     } finally {
       setIsSubmitting(false);
     }
@@ -171,15 +270,62 @@ const ProductsPage = () => {
   const handleDelete = async () => {
     if (!productToDelete) return;
     try {
-      await dispatch(deleteProduct(productToDelete.id)).unwrap();
+      await deleteProduct(productToDelete.id).unwrap();
       toast({ title: 'Product deleted successfully' });
       setIsDeleteOpen(false);
       setProductToDelete(null);
     } catch (err) {
-      toast({ title: 'Error', description: String(err), variant: 'destructive' });
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  // Bulk actions apply to the selected rows, or to every row matching the query
+  const selectedCount = rowSelection.isAllMatching ? pagination.total : rowSelection.selectedIds.length;
+
+  const runBulkAction = async (action: () => Promise<BulkActionResult>, describe: (count: number) => string) => {
+    setIsBulkSubmitting(true);
+    try {
+      const { ids, skipped } = await action();
+      toast({
+        title: describe(ids.length),
+        description: skipped ? `${skipped.toLocaleString()} skipped that you are not allowed to change.` : undefined,
+      });
+      rowSelection.clearSelection();
+      return true;
+    } catch (err) {
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+      return false;
+    } finally {
+      setIsBulkSubmitting(false);
     }
   };
 
+  const handleBulkUpdate = (changes: Partial<Pick<Product, 'status' | 'category'>>) =>
+    runBulkAction(
+      () => bulkUpdateProducts({ selection: rowSelection.selection, changes }).unwrap(),
+      (count) => `${count.toLocaleString()} products updated`
+    );
+
+  const handleBulkDelete = async () => {
+    const ok = await runBulkAction(
+      () => bulkDeleteProducts(rowSelection.selection).unwrap(),
+      (count) => `${count.toLocaleString()} products deleted`
+    );
+    if (ok) setIsBulkDeleteOpen(false);
+  };
+
+  // The mutation patches the cached row immediately and rolls it back if the server rejects the edit
+  const handleCellEdit = useCallback(
+    async (product: Product, columnId: string, value: unknown) => {
+      try {
+        await updateProduct({ id: product.id, data: { [columnId as InlineEditableField]: value } }).unwrap();
+      } catch (err) {
+        toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+      }
+    },
+    [updateProduct]
+  );
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -194,6 +340,7 @@ const ProductsPage = () => {
         id: 'sku',
         header: 'SKU',
         accessor: 'sku',
+        sortable: true,
         width: 140,
         cell: (value) => <span className="font-mono-data text-muted-foreground">{String(value)}</span>,
       },
@@ -202,9 +349,16 @@ const ProductsPage = () => {
         header: 'Product',
         accessor: 'name',
         sortable: true,
+        width: 280,
         cell: (_, row) => (
           <div className="flex flex-col max-w-[300px]">
-            <span className="font-medium text-foreground truncate">{row.name}</span>
+            <Link
+              to={`/products/${row.id}`}
+              className="font-medium text-foreground truncate hover:underline"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {row.name}
+            </Link>
             <span className="text-xs text-muted-foreground truncate">{row.category}</span>
           </div>
         ),
@@ -215,14 +369,28 @@ const ProductsPage = () => {
         accessor: 'price',
         sortable: true,
         width: 100,
+        editable: canEditRow,
+        editor: { type: 'number', parse: parseField('price') },
         cell: (value) => <span className="font-medium">{formatCurrency(Number(value))}</span>,
       },
+      {
+        id: 'cost',
+        header: 'Cost',
+        accessor: 'cost',
+        sortable: true,
+        width: 100,
+        editable: canEditRow,
+        editor: { type: 'number', parse: parseField('cost') },
+        cell: (value) => (value === undefined ? '—' : formatCurrency(Number(value))),
+      },
       {
         id: 'stock',
         header: 'Stock',
         accessor: 'stock',
         sortable: true,
         width: 80,
+        editable: canEditRow,
+        editor: { type: 'number', parse: parseField('stock') },
         cell: (value) => {
           const stock = Number(value);
           return (
@@ -236,7 +404,10 @@ const ProductsPage = () => {
         id: 'status',
         header: 'Status',
         accessor: 'status',
+        sortable: true,
         width: 120,
+        editable: canEditRow,
+        editor: { type: 'select', options: productStatuses, parse: parseField('status') },
         cell: (value) => <StatusBadge status={String(value)} />,
       },
       {
@@ -252,9 +423,11 @@ const ProductsPage = () => {
         header: '',
         accessor: 'id',
         width: 100,
+        resizable: false,
+        hideable: false,
         cell: (_, row) => (
           <div className="flex items-center gap-1">
-            {canWrite && (
+            {canEditRow(row) && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -267,7 +440,7 @@ const ProductsPage = () => {
                 <Edit2 className="h-4 w-4" />
               </Button>
             )}
-            {canDelete && (
+            {canAccess('products', 'delete', row) && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -284,9 +457,11 @@ const ProductsPage = () => {
         ),
       },
     ],
-    [canWrite, canDelete]
+    [canEditRow, canAccess]
   );
 
+  const accessibleColumns = useAccessibleColumns('products', columns);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -297,12 +472,18 @@ const ProductsPage = () => {
             Manage your product catalog
           </p>
         </div>
-        {canWrite && (
-          <Button onClick={openCreateForm} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Add Product
-          </Button>
-        )}
+        <Can permission="products:write">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button onClick={openCreateForm} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Product
+            </Button>
+          </div>
+        </Can>
       </div>
 
       {/* Search & Filters */}
@@ -317,6 +498,19 @@ const ProductsPage = () => {
             className="pl-9"
           />
         </div>
+        <ViewSwitcher {...savedViews} />
+        <ColumnChooser
+          columns={accessibleColumns}
+          layout={columnLayout}
+          onChange={setColumnLayout}
+          onReset={resetColumnLayout}
+        />
+        <Can permission="reports:export">
+          <Button variant="outline" className="gap-2" onClick={() => setIsExportOpen(true)}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </Can>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline" className="gap-2">
@@ -340,15 +534,85 @@ const ProductsPage = () => {
         </div>
       </div>
 
+      <FilterBuilder fields={filterFields} filters={tableState.filters} onChange={handleFiltersChange} />
+
+      <Can anyOf={['products:write', 'products:delete']}>
+        <BulkActionBar
+          selectedCount={rowSelection.selectedIds.length}
+          pageRowCount={products.length}
+          totalCount={pagination.total}
+          isAllMatching={rowSelection.isAllMatching}
+          onSelectAllMatching={rowSelection.selectAllMatching}
+          onClear={rowSelection.clearSelection}
+          itemLabel="products"
+        >
+          <Can permission="products:write">
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-1" disabled={isBulkSubmitting}>
+                    Set status
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {productStatuses.map((status) => (
+                    <DropdownMenuItem key={status.value} onClick={() => handleBulkUpdate({ status: status.value })}>
+                      {status.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-1" disabled={isBulkSubmitting}>
+                    Change category
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {categories.map((category) => (
+                    <DropdownMenuItem key={category} onClick={() => handleBulkUpdate({ category })}>
+                      {category}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </>
+          </Can>
+          <Can permission="products:delete">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1 text-destructive hover:text-destructive"
+              disabled={isBulkSubmitting}
+              onClick={() => setIsBulkDeleteOpen(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </Can>
+          {isBulkSubmitting && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </BulkActionBar>
+      </Can>
+
       {/* Data Table with Virtualization for 10k+ records */}
       <DataTable
         data={products}
-        columns={columns}
-        isLoading={isLoading}
+        columns={accessibleColumns}
+        isLoading={isFetching}
         error={error}
         pagination={pagination}
         onPageChange={handlePageChange}
         onPageSizeChange={handlePageSizeChange}
+        sortConfig={tableState.sort}
+        onSort={handleSort}
+        columnLayout={columnLayout}
+        onColumnLayoutChange={setColumnLayout}
+        selectedRowKeys={rowSelection.isAllMatching ? products.map((p) => p.id) : rowSelection.selectedIds}
+        onSelectionChange={canWrite || canDelete ? rowSelection.setSelectedIds : undefined}
+        onCellEdit={handleCellEdit}
+        onRowClick={(product) => navigate(`/products/${product.id}`)}
         rowKey="id"
         emptyTitle="No products found"
         emptyDescription="No products match your search criteria."
@@ -356,6 +620,8 @@ const ProductsPage = () => {
         maxHeight={600}
       />
 
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} entities={['products']} />
+
       {/* Create/Edit Form Dialog */}
       <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
         <DialogContent className="sm:max-w-lg">
@@ -460,6 +726,25 @@ const ProductsPage = () => {
                   )}
                 </div>
               </div>
+              {canReadField('products', 'cost') && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="cost">Cost ($)</Label>
+                    <Input
+                      id="cost"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      {...register('cost')}
+                      disabled={!canWriteField('products', 'cost')}
+                      className={errors.cost ? 'border-destructive' : ''}
+                    />
+                    {errors.cost && (
+                      <p className="text-xs text-destructive">{errors.cost.message}</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
@@ -500,6 +785,36 @@ const ProductsPage = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Import Wizard */}
+      <ProductImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      {/* Bulk Delete Confirmation */}
+      <AlertDialog open={isBulkDeleteOpen} onOpenChange={setIsBulkDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Products</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {selectedCount.toLocaleString()} products?
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBulkSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleBulkDelete();
+              }}
+              disabled={isBulkSubmitting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isBulkSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -29,6 +29,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import ExportDialog from '@/components/common/ExportDialog';
+import { Can } from '@/components/auth';
 
 // Chart colors
 const CHART_COLORS = {
@@ -65,6 +67,7 @@ const categoryData = [
 const ReportsPage = () => {
   const [dateRange, setDateRange] = useState('year');
   const [activeTab, setActiveTab] = useState('overview');
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -102,10 +105,12 @@ const ReportsPage = () => {
               <SelectItem value="year">This year</SelectItem>
             </SelectContent>
           </Select>
-          <Button variant="outline" className="gap-2">
-            <Download className="h-4 w-4" />
-            Export
-          </Button>
+          <Can permission="reports:export">
+            <Button variant="outline" className="gap-2" onClick={() => setIsExportOpen(true)}>
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -290,6 +295,8 @@ const ReportsPage = () => {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} entities={['products', 'users']} />
     </div>
   );
 };
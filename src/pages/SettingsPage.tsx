@@ -13,11 +13,13 @@ import {
   Shield, 
   Bell, 
   Database,
+  KeyRound,
   Save,
   Loader2
 } from 'lucide-react';
 import { useAppSelector } from '@/app/hooks';
 import { selectUser } from '@/features/auth/authSlice';
+import { config } from '@/config';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,6 +28,10 @@ import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { toast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useRoles } from '@/hooks/useRoles';
+import ExportDialog from '@/components/common/ExportDialog';
+import { Can, ImpersonationLog, PasswordChangeForm, RoleSettings, TwoFactorSettings } from '@/components/auth';
 
 // Profile form schema
 const profileSchema = z.object({
@@ -41,6 +47,9 @@ const SettingsPage = () => {
   const user = useAppSelector(selectUser);
   const [activeTab, setActiveTab] = useState('profile');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const { hasPermission } = usePermissions();
+  const { getRoleName } = useRoles();
   
   // Notification settings
   const [notifications, setNotifications] = useState({
@@ -83,7 +92,7 @@ const SettingsPage = () => {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full max-w-md grid-cols-4">
+        <TabsList className={`grid w-full ${hasPermission('roles:read') ? 'max-w-lg grid-cols-5' : 'max-w-md grid-cols-4'}`}>
           <TabsTrigger value="profile" className="gap-2">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">Profile</span>
@@ -100,6 +109,12 @@ const SettingsPage = () => {
             <Database className="h-4 w-4" />
             <span className="hidden sm:inline">System</span>
           </TabsTrigger>
+          <Can permission="roles:read">
+            <TabsTrigger value="roles" className="gap-2">
+              <KeyRound className="h-4 w-4" />
+              <span className="hidden sm:inline">Roles</span>
+            </TabsTrigger>
+          </Can>
         </TabsList>
 
         {/* Profile Settings */}
@@ -153,7 +168,7 @@ const SettingsPage = () => {
                 </div>
                 <div className="space-y-2">
                   <Label>Role</Label>
-                  <Input value={user?.role || ''} disabled className="bg-muted capitalize" />
+                  <Input value={getRoleName(user?.role)} disabled className="bg-muted" />
                   <p className="text-xs text-muted-foreground">Contact admin to change your role</p>
                 </div>
                 <Button type="submit" disabled={isSubmitting} className="gap-2">
@@ -177,30 +192,28 @@ const SettingsPage = () => {
               <CardDescription>Manage your password and security preferences.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div className="space-y-4">
-                <h4 className="text-sm font-medium">Change Password</h4>
-                <div className="space-y-2">
-                  <Label htmlFor="currentPassword">Current Password</Label>
-                  <Input id="currentPassword" type="password" />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="newPassword">New Password</Label>
-                  <Input id="newPassword" type="password" />
+              {user?.authProvider === 'oidc' ? (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">Password</h4>
+                  <p className="text-sm text-muted-foreground">
+                    You sign in with {config.oidc.providerName}. Your password is managed by your organization.
+                  </p>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="confirmPassword">Confirm New Password</Label>
-                  <Input id="confirmPassword" type="password" />
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium">Change Password</h4>
+                    {user?.passwordExpiresAt && (
+                      <p className="text-sm text-muted-foreground">
+                        Your password expires on {new Date(user.passwordExpiresAt).toLocaleDateString()}.
+                      </p>
+                    )}
+                  </div>
+                  <PasswordChangeForm onChanged={() => toast({ title: 'Password updated successfully' })} />
                 </div>
-                <Button>Update Password</Button>
-              </div>
+              )}
               <Separator />
-              <div className="space-y-4">
-                <h4 className="text-sm font-medium">Two-Factor Authentication</h4>
-                <p className="text-sm text-muted-foreground">
-                  Add an extra layer of security to your account.
-                </p>
-                <Button variant="outline">Enable 2FA</Button>
-              </div>
+              <TwoFactorSettings />
               <Separator />
               <div className="space-y-4">
                 <h4 className="text-sm font-medium">Active Sessions</h4>
@@ -217,6 +230,10 @@ const SettingsPage = () => {
                   </div>
                 </div>
               </div>
+              <Can permission="users:impersonate">
+                <Separator />
+                <ImpersonationLog />
+              </Can>
             </CardContent>
           </Card>
         </TabsContent>
@@ -309,14 +326,35 @@ const SettingsPage = () => {
               <div className="space-y-4">
                 <h4 className="text-sm font-medium">Data Management</h4>
                 <div className="flex gap-3">
-                  <Button variant="outline">Export Data</Button>
+                  <Can permission="reports:export">
+                    <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+                      Export Data
+                    </Button>
+                  </Can>
                   <Button variant="outline">Clear Cache</Button>
                 </div>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Role Settings */}
+        <Can permission="roles:read">
+          <TabsContent value="roles">
+            <Card>
+              <CardHeader>
+                <CardTitle>Roles & Permissions</CardTitle>
+                <CardDescription>Who can do what, and custom roles for your organization.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RoleSettings />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Can>
       </Tabs>
+
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} entities={['users', 'products']} />
     </div>
   );
 };
@@ -3,37 +3,49 @@
 // User management with CRUD operations
 // ============================================
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus, Search, Edit2, Trash2, X, Loader2 } from 'lucide-react';
+import { Plus, Search, Edit2, Trash2, X, Loader2, ChevronDown, UserX, Download, LockOpen, Eye } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '@/app/hooks';
+import { setTableState, selectUsersTableState, setSelectedUser, selectSelectedUser } from '@/features/users/usersSlice';
+import { selectUser } from '@/features/auth/authSlice';
 import {
-  fetchUsers,
-  createUser,
-  updateUser,
-  deleteUser,
-  setTableState,
-  selectUsers,
-  selectUsersPagination,
-  selectUsersTableState,
-  selectUsersLoading,
-  selectUsersError,
-  setSelectedUser,
-  selectSelectedUser,
-} from '@/features/users/usersSlice';
-import { useDebounce } from '@/hooks/useDebounce';
+  getApiErrorMessage,
+  useGetUsersQuery,
+  useCreateUserMutation,
+  useUpdateUserMutation,
+  useDeleteUserMutation,
+  useUnlockUserMutation,
+  useBulkUpdateUsersMutation,
+} from '@/services/api';
+import { useDebouncedSearch } from '@/hooks/useDebouncedSearch';
+import { useTableUrlState } from '@/hooks/useTableUrlState';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useColumnLayout } from '@/hooks/useColumnLayout';
+import { useRowSelection } from '@/hooks/useRowSelection';
 import { usePermissions } from '@/hooks/usePermissions';
-import type { User, UserRole } from '@/types';
+import { useAccessibleColumns } from '@/hooks/useAccessibleColumns';
+import { useRoles } from '@/hooks/useRoles';
+import { toggleSort } from '@/lib/tableQuery';
+import type { FilterConfig, User, UserRole } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import DataTable, { Column } from '@/components/common/DataTable';
 import StatusBadge from '@/components/common/StatusBadge';
+import FilterBuilder, { FilterField } from '@/components/common/FilterBuilder';
+import ViewSwitcher from '@/components/common/ViewSwitcher';
+import ColumnChooser from '@/components/common/ColumnChooser';
+import ExportDialog from '@/components/common/ExportDialog';
+import BulkActionBar from '@/components/common/BulkActionBar';
+import { Can, ImpersonateDialog } from '@/components/auth';
+import UserDetailSheet from '@/components/users/UserDetailSheet';
 import { toast } from '@/hooks/use-toast';
 
 // Form validation schema
@@ -41,32 +53,104 @@ const userSchema = z.object({
   email: z.string().email('Please enter a valid email'),
   firstName: z.string().min(1, 'First name is required').max(50),
   lastName: z.string().min(1, 'Last name is required').max(50),
-  role: z.enum(['admin', 'manager', 'user'] as const),
+  role: z.string().min(1, 'Role is required'),
   department: z.string().optional(),
 });
 
 type UserFormData = z.infer<typeof userSchema>;
 
+// Role options come from the backend, so the role filter is filled in by the page
+const buildFilterFields = (roleOptions: { value: UserRole; label: string }[]): FilterField[] => [
+  { field: 'firstName', label: 'First Name', type: 'text' },
+  { field: 'lastName', label: 'Last Name', type: 'text' },
+  { field: 'email', label: 'Email', type: 'text' },
+  {
+    field: 'role',
+    label: 'Role',
+    type: 'select',
+    options: roleOptions,
+  },
+  { field: 'department', label: 'Department', type: 'text' },
+  {
+    field: 'isActive',
+    label: 'Status',
+    type: 'select',
+    options: [
+      { label: 'Active', value: 'true' },
+      { label: 'Inactive', value: 'false' },
+    ],
+  },
+  { field: 'createdAt', label: 'Created', type: 'date' },
+];
+
+const emptyPagination = { page: 1, pageSize: 25, total: 0, totalPages: 0 };
+
+// Locked out after too many failed sign-ins; the lock lifts by itself once this passes
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+
 const UsersPage = () => {
   const dispatch = useAppDispatch();
-  const users = useAppSelector(selectUsers);
-  const pagination = useAppSelector(selectUsersPagination);
   const tableState = useAppSelector(selectUsersTableState);
-  const isLoading = useAppSelector(selectUsersLoading);
-  const error = useAppSelector(selectUsersError);
   const selectedUser = useAppSelector(selectSelectedUser);
-  const { hasPermission } = usePermissions();
+  const currentUser = useAppSelector(selectUser);
+  const { hasPermission, canAccess, canWriteField } = usePermissions();
+  const { roles, getRoleName } = useRoles();
+  const roleOptions = useMemo(() => roles.map((role) => ({ value: role.id, label: role.name })), [roles]);
+  const filterFields = useMemo(() => buildFilterFields(roleOptions), [roleOptions]);
 
-  const [searchQuery, setSearchQuery] = useState(tableState.search);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [userToImpersonate, setUserToImpersonate] = useState<User | null>(null);
+  const [userToView, setUserToView] = useState<User | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const debouncedSearch = useDebounce(searchQuery, 300);
+  // Table state lives in the URL so views survive reloads and can be shared
+  const { isRestored } = useTableUrlState(tableState, (restored) => dispatch(setTableState(restored)));
+
+  // Wait for the URL state so the first request isn't for the default page
+  const { data: usersResponse, isFetching, error: queryError } = useGetUsersQuery(tableState, { skip: !isRestored });
+  const users = useMemo(() => usersResponse?.data ?? [], [usersResponse]);
+  const pagination = usersResponse?.pagination ?? emptyPagination;
+  const error = queryError ? getApiErrorMessage(queryError) : null;
+
+  const [createUser] = useCreateUserMutation();
+  const [updateUser] = useUpdateUserMutation();
+  const [deleteUser] = useDeleteUserMutation();
+  const [unlockUser] = useUnlockUserMutation();
+  const [bulkUpdateUsers] = useBulkUpdateUsersMutation();
+
+  const { layout: columnLayout, setLayout: setColumnLayout, resetLayout: resetColumnLayout } = useColumnLayout(
+    'users',
+    { pinned: { actions: 'right' } }
+  );
+
+  const savedViews = useSavedViews('users', {
+    tableState,
+    columnLayout,
+    isReady: isRestored,
+    onApply: (state, columns) => {
+      dispatch(setTableState(state));
+      if (columns) {
+        setColumnLayout(columns);
+      } else {
+        resetColumnLayout();
+      }
+    },
+  });
+
+  const [searchQuery, setSearchQuery] = useDebouncedSearch(tableState.search, (search) =>
+    dispatch(setTableState({ search, page: 1 }))
+  );
 
   const canWrite = hasPermission('users:write');
-  const canDelete = hasPermission('users:delete');
+  const canAssignRole = canWriteField('users', 'role');
+  const canImpersonate = hasPermission('users:impersonate');
+  const canEditRow = useCallback((row: User) => canAccess('users', 'write', row), [canAccess]);
+
+  const rowSelection = useRowSelection(tableState);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBulkSubmitting, setIsBulkSubmitting] = useState(false);
 
   const {
     register,
@@ -78,22 +162,6 @@ const UsersPage = () => {
     resolver: zodResolver(userSchema),
   });
 
-  // Fetch users on mount and when pagination/search changes
-  useEffect(() => {
-    dispatch(
-      fetchUsers({
-        page: tableState.page,
-        pageSize: tableState.pageSize,
-        search: debouncedSearch,
-      })
-    );
-  }, [dispatch, tableState.page, tableState.pageSize, debouncedSearch]);
-
-  // Update search in table state
-  useEffect(() => {
-    dispatch(setTableState({ search: debouncedSearch, page: 1 }));
-  }, [dispatch, debouncedSearch]);
-
   const handlePageChange = useCallback(
     (page: number) => {
       dispatch(setTableState({ page }));
@@ -108,6 +176,20 @@ const UsersPage = () => {
     [dispatch]
   );
 
+  const handleSort = useCallback(
+    (field: string, multi: boolean) => {
+      dispatch(setTableState({ sort: toggleSort(tableState.sort, field, multi), page: 1 }));
+    },
+    [dispatch, tableState.sort]
+  );
+
+  const handleFiltersChange = useCallback(
+    (filters: FilterConfig[]) => {
+      dispatch(setTableState({ filters, page: 1 }));
+    },
+    [dispatch]
+  );
+
   const openCreateForm = () => {
     dispatch(setSelectedUser(null));
     reset({
@@ -115,7 +197,8 @@ const UsersPage = () => {
       firstName: '',
       lastName: '',
       role: 'user',
-      department: '',
+      // Users limited to their own department can only create users there
+      department: canAccess('users', 'write', { department: '' }) ? '' : currentUser?.department ?? '',
     });
     setIsFormOpen(true);
   };
@@ -137,19 +220,22 @@ const UsersPage = () => {
     setIsDeleteOpen(true);
   };
 
-  const onSubmit = async (data: UserFormData) => {
+  const onSubmit = async (formData: UserFormData) => {
     setIsSubmitting(true);
+    // The role select is read-only for users who may not assign roles
+    const { role, ...rest } = formData;
+    const data = canAssignRole ? { ...rest, role } : rest;
     try {
       if (selectedUser) {
-        await dispatch(updateUser({ id: selectedUser.id, data })).unwrap();
+        await updateUser({ id: selectedUser.id, data }).unwrap();
         toast({ title: 'User updated successfully' });
       } else {
-        await dispatch(createUser(data)).unwrap();
+        await createUser(data).unwrap();
         toast({ title: 'User created successfully' });
       }
       setIsFormOpen(false);
     } catch (err) {
-      toast({ title: 'Error', description: String(err), variant: 'destructive' });
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
     } finally {
       setIsSubmitting(false);
     }
@@ -158,12 +244,59 @@ const UsersPage = () => {
   const handleDelete = async () => {
     if (!userToDelete) return;
     try {
-      await dispatch(deleteUser(userToDelete.id)).unwrap();
+      await deleteUser(userToDelete.id).unwrap();
       toast({ title: 'User deleted successfully' });
       setIsDeleteOpen(false);
       setUserToDelete(null);
     } catch (err) {
-      toast({ title: 'Error', description: String(err), variant: 'destructive' });
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  const handleUnlock = useCallback(
+    async (user: User) => {
+      try {
+        await unlockUser(user.id).unwrap();
+        toast({ title: 'Account unlocked', description: `${user.firstName} ${user.lastName} can sign in again.` });
+      } catch (err) {
+        toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+      }
+    },
+    [unlockUser]
+  );
+
+  // Assigning a role inline; the role column is the only editable one
+  const handleCellEdit = useCallback(
+    async (user: User, columnId: string, value: unknown) => {
+      if (columnId !== 'role') return;
+      try {
+        await updateUser({ id: user.id, data: { role: value as UserRole } }).unwrap();
+        toast({ title: 'Role assigned', description: `${user.firstName} ${user.lastName} is now ${getRoleName(value as UserRole)}.` });
+      } catch (err) {
+        toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+      }
+    },
+    [updateUser, getRoleName]
+  );
+
+  // Bulk actions apply to the selected rows, or to every row matching the query
+  const handleBulkUpdate = async (changes: Partial<Pick<User, 'role' | 'isActive'>>) => {
+    setIsBulkSubmitting(true);
+    try {
+      const { ids, skipped, skippedSelf } = await bulkUpdateUsers({ selection: rowSelection.selection, changes }).unwrap();
+      const notes = [
+        skipped ? `${skipped.toLocaleString()} skipped that you are not allowed to change.` : '',
+        skippedSelf ? 'Your own account was left unchanged.' : '',
+      ].filter(Boolean);
+      toast({
+        title: `${ids.length.toLocaleString()} users updated`,
+        description: notes.length > 0 ? notes.join(' ') : undefined,
+      });
+      rowSelection.clearSelection();
+    } catch (err) {
+      toast({ title: 'Error', description: getApiErrorMessage(err), variant: 'destructive' });
+    } finally {
+      setIsBulkSubmitting(false);
     }
   };
 
@@ -175,6 +308,7 @@ const UsersPage = () => {
         header: 'Name',
         accessor: (row) => `${row.firstName} ${row.lastName}`,
         sortable: true,
+        width: 280,
         cell: (_, row) => (
           <div className="flex flex-col">
             <span className="font-medium text-foreground">
@@ -189,37 +323,80 @@ const UsersPage = () => {
         header: 'Role',
         accessor: 'role',
         sortable: true,
+        width: 140,
+        editable: canEditRow,
+        editor: { type: 'select', options: roleOptions },
         cell: (value) => (
-          <span className="capitalize font-medium text-foreground">{String(value)}</span>
+          <span className="font-medium text-foreground">{getRoleName(value as UserRole)}</span>
         ),
       },
       {
         id: 'department',
         header: 'Department',
         accessor: 'department',
+        sortable: true,
+        width: 160,
         cell: (value) => <span>{String(value) || '-'}</span>,
       },
       {
         id: 'status',
         header: 'Status',
         accessor: 'isActive',
-        cell: (value) => <StatusBadge status={value ? 'active' : 'inactive'} />,
+        sortable: true,
+        width: 160,
+        cell: (value, row) => (
+          <div className="flex items-center gap-1">
+            <StatusBadge status={value ? 'active' : 'inactive'} />
+            {isLocked(row) && <StatusBadge status="locked" />}
+          </div>
+        ),
       },
       {
         id: 'createdAt',
         header: 'Created',
         accessor: 'createdAt',
         sortable: true,
+        width: 120,
         cell: (value) => new Date(String(value)).toLocaleDateString(),
       },
       {
         id: 'actions',
         header: '',
         accessor: 'id',
-        width: 100,
+        width: 172,
+        resizable: false,
+        hideable: false,
         cell: (_, row) => (
           <div className="flex items-center gap-1">
-            {canWrite && (
+            {canImpersonate && row.isActive && row.id !== currentUser?.id && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="View as this user"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setUserToImpersonate(row);
+                }}
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+            )}
+            {isLocked(row) && canEditRow(row) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Unlock account"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleUnlock(row);
+                }}
+              >
+                <LockOpen className="h-4 w-4" />
+              </Button>
+            )}
+            {canEditRow(row) && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -232,7 +409,7 @@ const UsersPage = () => {
                 <Edit2 className="h-4 w-4" />
               </Button>
             )}
-            {canDelete && (
+            {canAccess('users', 'delete', row) && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -249,9 +426,11 @@ const UsersPage = () => {
         ),
       },
     ],
-    [canWrite, canDelete]
+    [canEditRow, canAccess, canImpersonate, currentUser?.id, getRoleName, roleOptions, handleUnlock]
   );
 
+  const accessibleColumns = useAccessibleColumns('users', columns);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -262,12 +441,12 @@ const UsersPage = () => {
             Manage user accounts and permissions
           </p>
         </div>
-        {canWrite && (
+        <Can permission="users:write">
           <Button onClick={openCreateForm} className="gap-2">
             <Plus className="h-4 w-4" />
             Add User
           </Button>
-        )}
+        </Can>
       </div>
 
       {/* Search & Filters */}
@@ -282,26 +461,106 @@ const UsersPage = () => {
             className="pl-9"
           />
         </div>
+        <ViewSwitcher {...savedViews} />
+        <ColumnChooser
+          columns={accessibleColumns}
+          layout={columnLayout}
+          onChange={setColumnLayout}
+          onReset={resetColumnLayout}
+        />
+        <Can permission="reports:export">
+          <Button variant="outline" className="gap-2" onClick={() => setIsExportOpen(true)}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </Can>
         <div className="text-sm text-muted-foreground">
           {pagination.total.toLocaleString()} users total
         </div>
       </div>
 
+      <FilterBuilder fields={filterFields} filters={tableState.filters} onChange={handleFiltersChange} />
+
+      <Can permission="users:write">
+        <BulkActionBar
+          selectedCount={rowSelection.selectedIds.length}
+          pageRowCount={users.length}
+          totalCount={pagination.total}
+          isAllMatching={rowSelection.isAllMatching}
+          onSelectAllMatching={rowSelection.selectAllMatching}
+          onClear={rowSelection.clearSelection}
+          itemLabel="users"
+          note={
+            rowSelection.isAllMatching || (currentUser && rowSelection.selectedIds.includes(currentUser.id))
+              ? 'Your own account will not be changed'
+              : undefined
+          }
+        >
+          {canAssignRole && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-1" disabled={isBulkSubmitting}>
+                  Change role
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {roleOptions.map((role) => (
+                  <DropdownMenuItem key={role.value} onClick={() => handleBulkUpdate({ role: role.value })}>
+                    {role.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={isBulkSubmitting}
+            onClick={() => handleBulkUpdate({ isActive: false })}
+          >
+            <UserX className="h-4 w-4" />
+            Deactivate
+          </Button>
+          {isBulkSubmitting && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </BulkActionBar>
+      </Can>
+
       {/* Data Table */}
       <DataTable
         data={users}
-        columns={columns}
-        isLoading={isLoading}
+        columns={accessibleColumns}
+        isLoading={isFetching}
         error={error}
         pagination={pagination}
         onPageChange={handlePageChange}
         onPageSizeChange={handlePageSizeChange}
+        sortConfig={tableState.sort}
+        onSort={handleSort}
+        columnLayout={columnLayout}
+        onColumnLayoutChange={setColumnLayout}
+        selectedRowKeys={rowSelection.isAllMatching ? users.map((u) => u.id) : rowSelection.selectedIds}
+        onSelectionChange={canWrite ? rowSelection.setSelectedIds : undefined}
+        onCellEdit={handleCellEdit}
+        onRowClick={setUserToView}
         rowKey="id"
         emptyTitle="No users found"
         emptyDescription="No users match your search criteria."
         enableVirtualization={users.length > 100}
       />
 
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} entities={['users']} />
+
+      <UserDetailSheet
+        user={userToView}
+        onOpenChange={(open) => !open && setUserToView(null)}
+        onEdit={(user) => {
+          setUserToView(null);
+          openEditForm(user);
+        }}
+      />
+
       {/* Create/Edit Form Dialog */}
       <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
         <DialogContent className="sm:max-w-md">
@@ -356,15 +615,18 @@ const UsersPage = () => {
                   <Label htmlFor="role">Role</Label>
                   <Select
                     defaultValue={selectedUser?.role || 'user'}
-                    onValueChange={(value) => setValue('role', value as UserRole)}
+                    onValueChange={(value) => setValue('role', value)}
+                    disabled={!canAssignRole}
                   >
                     <SelectTrigger className={errors.role ? 'border-destructive' : ''}>
                       <SelectValue placeholder="Select role" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="admin">Admin</SelectItem>
-                      <SelectItem value="manager">Manager</SelectItem>
-                      <SelectItem value="user">User</SelectItem>
+                      {roleOptions.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>
+                          {role.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   {errors.role && (
@@ -416,6 +678,8 @@ const UsersPage = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImpersonateDialog user={userToImpersonate} onOpenChange={(open) => !open && setUserToImpersonate(null)} />
     </div>
   );
 };
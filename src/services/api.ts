@@ -3,18 +3,59 @@
 // Centralized API layer with interceptors
 // ============================================
 
-import { createApi, fetchBaseQuery, BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query/react';
+import { createApi, fetchBaseQuery, BaseQueryApi, BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query/react';
 import type { RootState } from '@/app/store';
 import { config } from '@/config';
-import { logout, setCredentials } from '@/features/auth/authSlice';
-import type { User, Product, PaginatedResponse, AuthResponse, LoginCredentials } from '@/types';
+import { logout, updateUser } from '@/features/auth/authSlice';
+import { serializeFilters, serializeSort } from '@/lib/tableQuery';
+import { getClientId } from '@/lib/clientId';
+import { activityResources } from '@/lib/activity';
+import { mockFetch } from '@/services/mockServer';
+import { isTokenExpiring, refreshAccessToken, waitForRefresh } from '@/services/tokenManager';
+import type {
+  ActivityActor,
+  ActivityLog,
+  ActivityQuery,
+  ApiError,
+  AuthResponse,
+  ImpersonationEvent,
+  ImpersonationRequest,
+  ListPosition,
+  RecordHistoryQuery,
+  RestoreVersionRequest,
+  User,
+  Product,
+  PaginatedResponse,
+  LoginCredentials,
+  LoginResult,
+  OidcCodeExchange,
+  PasswordChangeRequest,
+  Role,
+  RoleImpact,
+  RoleInput,
+  RolePermissionChange,
+  SavedView,
+  SavedViewInput,
+  TableId,
+  TableState,
+  BulkSelection,
+  BulkActionResult,
+  BulkCreateResult,
+  TwoFactorEnrollment,
+  TwoFactorPolicy,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from '@/types';
 
 // Custom base query with auth header and refresh token logic
 const baseQuery = fetchBaseQuery({
   baseUrl: config.apiBaseUrl,
+  timeout: config.apiTimeout,
+  fetchFn: config.useMockApi ? mockFetch : undefined,
   prepareHeaders: (headers, { getState }) => {
     const token = (getState() as RootState).auth.token;
-    if (token) {
+    // A request may name the session it is for, as when ending one that was replaced
+    if (token && !headers.has('Authorization')) {
       headers.set('Authorization', `Bearer ${token}`);
     }
     headers.set('Content-Type', 'application/json');
@@ -22,71 +63,216 @@ const baseQuery = fetchBaseQuery({
   },
 });
 
-// Wrapper with retry and token refresh logic
+// Wrapper with proactive and reactive token refresh. Requests wait for a refresh already in
+// flight, refresh first when the token is inside the expiry buffer (e.g. after the tab slept
+// through the scheduled refresh), and retry once with the new token after a 401.
 const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError> = async (
   args,
   api,
   extraOptions
 ) => {
+  await waitForRefresh();
+  const { auth } = api.getState() as RootState;
+  if (auth.token && isTokenExpiring(auth.expiresAt)) {
+    await refreshAccessToken(baseQuery, api, extraOptions);
+  }
+
+  const sentToken = (api.getState() as RootState).auth.token;
   let result = await baseQuery(args, api, extraOptions);
 
-  if (result.error && result.error.status === 401) {
-    // Try to refresh the token
-    const refreshToken = (api.getState() as RootState).auth.refreshToken;
-    
-    if (refreshToken) {
-      const refreshResult = await baseQuery(
-        {
-          url: '/auth/refresh',
-          method: 'POST',
-          body: { refreshToken },
-        },
-        api,
-        extraOptions
-      );
-
-      if (refreshResult.data) {
-        const authData = refreshResult.data as AuthResponse;
-        api.dispatch(setCredentials(authData));
-        // Retry the original query
-        result = await baseQuery(args, api, extraOptions);
-      } else {
-        api.dispatch(logout());
-      }
-    } else {
-      api.dispatch(logout());
+  if (result.error && result.error.status === 401 && sentToken) {
+    // Another request may already have refreshed while this one was in flight
+    const currentToken = (api.getState() as RootState).auth.token;
+    const isRefreshed = currentToken !== sentToken || (await refreshAccessToken(baseQuery, api, extraOptions));
+    if (isRefreshed && (api.getState() as RootState).auth.token) {
+      // Retry the original query
+      result = await baseQuery(args, api, extraOptions);
     }
+  } else if (result.error && result.error.status === 401) {
+    api.dispatch(logout());
   }
 
   return result;
 };
 
+// Requests that start or end a session skip the refresh and retry above. A 401 from a sign-in
+// means the credentials were wrong (the lock screen signs in while still holding a token) and a
+// retry would count as a second failed attempt; a session being ended needs no refresh.
+const sessionQuery = async <T>(args: FetchArgs, api: BaseQueryApi, extraOptions: object) => {
+  const result = await baseQuery(args, api, extraOptions);
+  return result.error ? { error: result.error } : { data: result.data as T };
+};
+
+type TableQueryArgs = Partial<Pick<TableState, 'page' | 'pageSize' | 'search' | 'sort' | 'filters'>>;
+
+// Same encoding as the page URL, so the server parses sort/filters with the shared helpers
+const tableQueryParams = ({ page = 1, pageSize = 25, search = '', sort = [], filters = [] }: TableQueryArgs) => ({
+  page,
+  pageSize,
+  search,
+  sort: serializeSort(sort),
+  filters: serializeFilters(filters),
+});
+
+// Human-readable message for a failed query or an unwrapped mutation
+export const getApiErrorMessage = (error: unknown): string => {
+  if (error && typeof error === 'object') {
+    const { data, error: fetchError, message } = error as { data?: Partial<ApiError>; error?: string; message?: string };
+    if (data?.message) return data.message;
+    if (fetchError) return fetchError;
+    if (message) return message;
+  }
+  return 'Something went wrong';
+};
+
 // Create the API slice
 export const apiSlice = createApi({
   reducerPath: 'api',
   baseQuery: baseQueryWithReauth,
-  tagTypes: ['User', 'Product', 'Dashboard'],
+  tagTypes: ['User', 'Product', 'Dashboard', 'SavedView', 'TwoFactor', 'Role', 'Activity'],
   endpoints: (builder) => ({
     // Auth endpoints
-    login: builder.mutation<AuthResponse, LoginCredentials>({
-      query: (credentials) => ({
-        url: '/auth/login',
+    // The sign-in and sign-out endpoints are called from the auth thunks, which keep the session in the auth slice
+    login: builder.mutation<LoginResult, LoginCredentials>({
+      queryFn: (credentials, api, extraOptions) =>
+        sessionQuery<LoginResult>(
+          {
+            url: '/auth/login',
+            method: 'POST',
+            body: credentials,
+            headers: { 'X-Client-Id': getClientId() },
+          },
+          api,
+          extraOptions
+        ),
+    }),
+
+    verifyTwoFactorLogin: builder.mutation<AuthResponse, { challengeToken: string; code: string }>({
+      queryFn: (body, api, extraOptions) =>
+        sessionQuery<AuthResponse>({ url: '/auth/2fa/verify', method: 'POST', body }, api, extraOptions),
+    }),
+
+    loginWithOidc: builder.mutation<AuthResponse, OidcCodeExchange>({
+      queryFn: (body, api, extraOptions) =>
+        sessionQuery<AuthResponse>({ url: '/auth/oidc', method: 'POST', body }, api, extraOptions),
+    }),
+    
+    // Ends the session for the given token, which by then may no longer be the current one
+    logout: builder.mutation<void, string>({
+      queryFn: (token, api, extraOptions) =>
+        sessionQuery<void>(
+          { url: '/auth/logout', method: 'POST', headers: { Authorization: `Bearer ${token}` } },
+          api,
+          extraOptions
+        ),
+    }),
+
+    // Used by the refresh scheduler; requests refresh on their own via baseQueryWithReauth
+    refreshSession: builder.mutation<boolean, void>({
+      queryFn: async (_, api, extraOptions) => ({ data: await refreshAccessToken(baseQuery, api, extraOptions) }),
+    }),
+
+    getCurrentUser: builder.query<User, void>({
+      query: () => '/auth/me',
+    }),
+
+    // Returns the profile with the new expiry and `passwordChangeRequired` cleared
+    changePassword: builder.mutation<User, PasswordChangeRequest>({
+      query: (body) => ({
+        url: '/auth/password',
         method: 'POST',
-        body: credentials,
+        body,
       }),
+      async onQueryStarted(_, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(updateUser(data));
+        } catch {
+          // The form shows the error
+        }
+      },
     }),
-    
-    logout: builder.mutation<void, void>({
+
+    // Impersonation. Both return the session to switch to; see useImpersonation.
+    startImpersonation: builder.mutation<AuthResponse, ImpersonationRequest>({
+      query: (body) => ({
+        url: '/auth/impersonate',
+        method: 'POST',
+        body,
+      }),
+    }),
+
+    stopImpersonation: builder.mutation<AuthResponse, void>({
       query: () => ({
-        url: '/auth/logout',
+        url: '/auth/impersonate/stop',
         method: 'POST',
       }),
     }),
 
+    getImpersonationLog: builder.query<PaginatedResponse<ImpersonationEvent>, { page: number; pageSize: number }>({
+      query: (params) => ({ url: '/audit/impersonation', params }),
+    }),
+
+    // Two-factor endpoints. `challengeToken` authorizes setup during sign-in when the
+    // user's role requires 2FA and there is no session yet.
+    getTwoFactorStatus: builder.query<TwoFactorStatus, void>({
+      query: () => '/auth/2fa',
+      providesTags: ['TwoFactor'],
+    }),
+
+    startTwoFactorSetup: builder.mutation<TwoFactorSetup, { challengeToken?: string } | void>({
+      query: (body) => ({
+        url: '/auth/2fa/setup',
+        method: 'POST',
+        body: body ?? {},
+      }),
+    }),
+
+    enableTwoFactor: builder.mutation<TwoFactorEnrollment, { code: string; challengeToken?: string }>({
+      query: (body) => ({
+        url: '/auth/2fa/enable',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    disableTwoFactor: builder.mutation<void, { code: string }>({
+      query: (body) => ({
+        url: '/auth/2fa/disable',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    regenerateRecoveryCodes: builder.mutation<TwoFactorEnrollment, { code: string }>({
+      query: (body) => ({
+        url: '/auth/2fa/recovery-codes',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    getTwoFactorPolicy: builder.query<TwoFactorPolicy, void>({
+      query: () => '/auth/2fa/policy',
+      providesTags: [{ type: 'TwoFactor', id: 'POLICY' }],
+    }),
+
+    updateTwoFactorPolicy: builder.mutation<TwoFactorPolicy, TwoFactorPolicy>({
+      query: (body) => ({
+        url: '/auth/2fa/policy',
+        method: 'PUT',
+        body,
+      }),
+      // The admin's own status may now show 2FA as required
+      invalidatesTags: ['TwoFactor'],
+    }),
+
     // User endpoints
-    getUsers: builder.query<PaginatedResponse<User>, { page?: number; pageSize?: number; search?: string }>({
-      query: ({ page = 1, pageSize = 25, search = '' }) => 
-        `/users?page=${page}&pageSize=${pageSize}&search=${search}`,
+    getUsers: builder.query<PaginatedResponse<User>, TableQueryArgs>({
+      query: (args) => ({ url: '/users', params: tableQueryParams(args) }),
       providesTags: (result) =>
         result
           ? [
@@ -107,7 +293,7 @@ export const apiSlice = createApi({
         method: 'POST',
         body: user,
       }),
-      invalidatesTags: [{ type: 'User', id: 'LIST' }],
+      invalidatesTags: [{ type: 'User', id: 'LIST' }, 'Dashboard', 'Activity'],
     }),
 
     updateUser: builder.mutation<User, { id: string; data: Partial<User> }>({
@@ -116,7 +302,16 @@ export const apiSlice = createApi({
         method: 'PUT',
         body: data,
       }),
-      invalidatesTags: (result, error, { id }) => [{ type: 'User', id }],
+      invalidatesTags: (result, error, { id }) => [{ type: 'User', id }, 'Activity'],
+    }),
+
+    // Lifts a lockout after too many failed sign-ins
+    unlockUser: builder.mutation<User, string>({
+      query: (id) => ({
+        url: `/users/${id}/unlock`,
+        method: 'POST',
+      }),
+      invalidatesTags: (result, error, id) => [{ type: 'User', id }],
     }),
 
     deleteUser: builder.mutation<void, string>({
@@ -124,13 +319,74 @@ export const apiSlice = createApi({
         url: `/users/${id}`,
         method: 'DELETE',
       }),
-      invalidatesTags: [{ type: 'User', id: 'LIST' }],
+      invalidatesTags: [{ type: 'User', id: 'LIST' }, 'Dashboard', 'Activity'],
+    }),
+
+    bulkUpdateUsers: builder.mutation<BulkActionResult, { selection: BulkSelection; changes: Partial<Pick<User, 'role' | 'isActive'>> }>({
+      query: (body) => ({
+        url: '/users/bulk-update',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: [{ type: 'User', id: 'LIST' }, 'Dashboard', 'Activity'],
+    }),
+
+    // Role endpoints
+    getRoles: builder.query<Role[], void>({
+      query: () => '/roles',
+      providesTags: ['Role'],
+    }),
+
+    createRole: builder.mutation<Role, RoleInput>({
+      query: (body) => ({
+        url: '/roles',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['Role', 'Activity'],
+    }),
+
+    // Read-only; a POST because the proposed permission sets travel in the body
+    previewRoleChanges: builder.mutation<RoleImpact[], RolePermissionChange[]>({
+      query: (changes) => ({
+        url: '/roles/impact',
+        method: 'POST',
+        body: { changes },
+      }),
+    }),
+
+    // Editing the signed-in user's own role changes what they can do straight away; other users
+    // pick the change up with their next token refresh
+    updateRole: builder.mutation<Role, { id: string; data: Partial<RoleInput> }>({
+      query: ({ id, data }) => ({
+        url: `/roles/${id}`,
+        method: 'PUT',
+        body: data,
+      }),
+      invalidatesTags: ['Role', 'Activity'],
+      async onQueryStarted(_, { dispatch, getState, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          if ((getState() as RootState).auth.user?.role === data.id) {
+            dispatch(updateUser({ permissions: data.permissions }));
+          }
+        } catch {
+          // The caller shows the error
+        }
+      },
+    }),
+
+    deleteRole: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/roles/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Role', 'Activity'],
     }),
 
     // Product endpoints
-    getProducts: builder.query<PaginatedResponse<Product>, { page?: number; pageSize?: number; search?: string; category?: string }>({
-      query: ({ page = 1, pageSize = 25, search = '', category = '' }) => 
-        `/products?page=${page}&pageSize=${pageSize}&search=${search}&category=${category}`,
+    getProducts: builder.query<PaginatedResponse<Product>, TableQueryArgs>({
+      query: (args) => ({ url: '/products', params: tableQueryParams(args) }),
       providesTags: (result) =>
         result
           ? [
@@ -145,13 +401,19 @@ export const apiSlice = createApi({
       providesTags: (result, error, id) => [{ type: 'Product', id }],
     }),
 
+    // Previous/next product in the list the same table query shows
+    getProductPosition: builder.query<ListPosition, TableQueryArgs & { id: string }>({
+      query: ({ id, ...args }) => ({ url: `/products/${id}/position`, params: tableQueryParams(args) }),
+      providesTags: [{ type: 'Product', id: 'LIST' }],
+    }),
+
     createProduct: builder.mutation<Product, Partial<Product>>({
       query: (product) => ({
         url: '/products',
         method: 'POST',
         body: product,
       }),
-      invalidatesTags: [{ type: 'Product', id: 'LIST' }],
+      invalidatesTags: [{ type: 'Product', id: 'LIST' }, 'Dashboard', 'Activity'],
     }),
 
     updateProduct: builder.mutation<Product, { id: string; data: Partial<Product> }>({
@@ -160,7 +422,28 @@ export const apiSlice = createApi({
         method: 'PUT',
         body: data,
       }),
-      invalidatesTags: (result, error, { id }) => [{ type: 'Product', id }],
+      // Patch every cached copy right away and roll back if the server rejects the change
+      async onQueryStarted({ id, data }, { dispatch, getState, queryFulfilled }) {
+        const patches = apiSlice.util
+          .selectInvalidatedBy(getState(), [{ type: 'Product', id }])
+          .map(({ endpointName, originalArgs }) => {
+            if (endpointName === 'getProductById') {
+              return dispatch(apiSlice.util.updateQueryData('getProductById', originalArgs, (draft) => Object.assign(draft, data)));
+            }
+            return dispatch(
+              apiSlice.util.updateQueryData('getProducts', originalArgs, (draft) => {
+                const product = draft.data.find((p) => p.id === id);
+                if (product) Object.assign(product, data);
+              })
+            );
+          });
+        try {
+          await queryFulfilled;
+        } catch {
+          patches.forEach((patch) => patch.undo());
+        }
+      },
+      invalidatesTags: (result, error, { id }) => [{ type: 'Product', id }, 'Activity'],
     }),
 
     deleteProduct: builder.mutation<void, string>({
@@ -168,7 +451,114 @@ export const apiSlice = createApi({
         url: `/products/${id}`,
         method: 'DELETE',
       }),
-      invalidatesTags: [{ type: 'Product', id: 'LIST' }],
+      invalidatesTags: [{ type: 'Product', id: 'LIST' }, 'Dashboard', 'Activity'],
+    }),
+
+    bulkCreateProducts: builder.mutation<BulkCreateResult<Product>, Partial<Product>[]>({
+      query: (products) => ({
+        url: '/products/bulk',
+        method: 'POST',
+        body: products,
+      }),
+      invalidatesTags: [{ type: 'Product', id: 'LIST' }, 'Dashboard', 'Activity'],
+    }),
+
+    findExistingSkus: builder.mutation<string[], string[]>({
+      query: (skus) => ({
+        url: '/products/sku-check',
+        method: 'POST',
+        body: skus,
+      }),
+    }),
+
+    bulkUpdateProducts: builder.mutation<BulkActionResult, { selection: BulkSelection; changes: Partial<Pick<Product, 'status' | 'category'>> }>({
+      query: (body) => ({
+        url: '/products/bulk-update',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: [{ type: 'Product', id: 'LIST' }, 'Dashboard', 'Activity'],
+    }),
+
+    bulkDeleteProducts: builder.mutation<BulkActionResult, BulkSelection>({
+      query: (selection) => ({
+        url: '/products/bulk-delete',
+        method: 'POST',
+        body: selection,
+      }),
+      invalidatesTags: [{ type: 'Product', id: 'LIST' }, 'Dashboard', 'Activity'],
+    }),
+
+    // Saved view endpoints
+    getSavedViews: builder.query<SavedView[], TableId>({
+      query: (tableId) => `/views?table=${tableId}`,
+      providesTags: (result, error, tableId) => [{ type: 'SavedView', id: tableId }],
+    }),
+
+    createSavedView: builder.mutation<SavedView, SavedViewInput & { isDefault?: boolean }>({
+      query: (view) => ({
+        url: '/views',
+        method: 'POST',
+        body: view,
+      }),
+      invalidatesTags: (result, error, { tableId }) => [{ type: 'SavedView', id: tableId }],
+    }),
+
+    updateSavedView: builder.mutation<SavedView, { id: string; data: Partial<Pick<SavedView, 'name' | 'state' | 'columns' | 'sharedWithRoles'>> }>({
+      query: ({ id, data }) => ({
+        url: `/views/${id}`,
+        method: 'PUT',
+        body: data,
+      }),
+      invalidatesTags: (result) => (result ? [{ type: 'SavedView', id: result.tableId }] : []),
+    }),
+
+    deleteSavedView: builder.mutation<void, { id: string; tableId: TableId }>({
+      query: ({ id }) => ({
+        url: `/views/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { tableId }) => [{ type: 'SavedView', id: tableId }],
+    }),
+
+    setDefaultSavedView: builder.mutation<void, { tableId: TableId; viewId: string | null }>({
+      query: (body) => ({
+        url: '/views/default',
+        method: 'PUT',
+        body,
+      }),
+      invalidatesTags: (result, error, { tableId }) => [{ type: 'SavedView', id: tableId }],
+    }),
+
+    // Activity endpoints
+    getActivity: builder.query<PaginatedResponse<ActivityLog>, ActivityQuery>({
+      query: (params) => ({ url: '/activity', params }),
+      providesTags: ['Activity'],
+    }),
+
+    getActivityActors: builder.query<ActivityActor[], void>({
+      query: () => '/activity/actors',
+      providesTags: ['Activity'],
+    }),
+
+    // One user's or product's changes, readable by anyone who can read the record
+    getRecordHistory: builder.query<PaginatedResponse<ActivityLog>, RecordHistoryQuery>({
+      query: ({ entity, entityId, page, pageSize }) => ({
+        url: `/${activityResources[entity]}/${entityId}/history`,
+        params: { page, pageSize },
+      }),
+      providesTags: ['Activity'],
+    }),
+
+    restoreRecordVersion: builder.mutation<User | Product, RestoreVersionRequest>({
+      query: ({ entity, entityId, entryId }) => ({
+        url: `/${activityResources[entity]}/${entityId}/history/${entryId}/restore`,
+        method: 'POST',
+      }),
+      invalidatesTags: (result, error, { entity, entityId }) => [
+        { type: entity === 'user' ? 'User' : 'Product', id: entityId },
+        'Activity',
+      ],
     }),
 
     // Dashboard endpoints
@@ -188,16 +578,50 @@ export const apiSlice = createApi({
 export const {
   useLoginMutation,
   useLogoutMutation,
+  useRefreshSessionMutation,
+  useGetCurrentUserQuery,
+  useChangePasswordMutation,
+  useStartImpersonationMutation,
+  useStopImpersonationMutation,
+  useGetImpersonationLogQuery,
+  useGetTwoFactorStatusQuery,
+  useStartTwoFactorSetupMutation,
+  useEnableTwoFactorMutation,
+  useDisableTwoFactorMutation,
+  useRegenerateRecoveryCodesMutation,
+  useGetTwoFactorPolicyQuery,
+  useUpdateTwoFactorPolicyMutation,
   useGetUsersQuery,
   useGetUserByIdQuery,
   useCreateUserMutation,
   useUpdateUserMutation,
+  useUnlockUserMutation,
   useDeleteUserMutation,
+  useBulkUpdateUsersMutation,
+  useGetRolesQuery,
+  useCreateRoleMutation,
+  useUpdateRoleMutation,
+  usePreviewRoleChangesMutation,
+  useDeleteRoleMutation,
   useGetProductsQuery,
   useGetProductByIdQuery,
+  useGetProductPositionQuery,
   useCreateProductMutation,
   useUpdateProductMutation,
   useDeleteProductMutation,
+  useBulkCreateProductsMutation,
+  useFindExistingSkusMutation,
+  useBulkUpdateProductsMutation,
+  useBulkDeleteProductsMutation,
+  useGetSavedViewsQuery,
+  useCreateSavedViewMutation,
+  useUpdateSavedViewMutation,
+  useDeleteSavedViewMutation,
+  useSetDefaultSavedViewMutation,
+  useGetActivityQuery,
+  useGetActivityActorsQuery,
+  useGetRecordHistoryQuery,
+  useRestoreRecordVersionMutation,
   useGetDashboardMetricsQuery,
   useGetDashboardChartDataQuery,
 } = apiSlice;
@@ -3,7 +3,56 @@
 // Simulates backend for demo purposes
 // ============================================
 
-import type { User, Product, AuthResponse, PaginatedResponse, UserRole } from '@/types';
+import type {
+  ActivityAction,
+  ActivityActor,
+  ActivityEntity,
+  ActivityLog,
+  ActivityQuery,
+  HistoryEntity,
+  ListPosition,
+  User,
+  Product,
+  AuthResponse,
+  PaginatedResponse,
+  UserRole,
+  SortConfig,
+  FilterConfig,
+  Impersonation,
+  ImpersonationEvent,
+  ImpersonationEventType,
+  ImpersonationRequest,
+  SavedView,
+  SavedViewInput,
+  TableId,
+  BulkSelection,
+  BulkActionResult,
+  BulkCreateResult,
+  LoginErrorCode,
+  OidcClaims,
+  LoginResult,
+  OidcCodeExchange,
+  Permission,
+  Role,
+  RoleImpact,
+  RoleInput,
+  RolePermissionChange,
+  TwoFactorChallenge,
+  TwoFactorEnrollment,
+  TwoFactorPolicy,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  UserSummary,
+} from '@/types';
+import { filterRows, sortRows, type FieldAccessors } from '@/lib/tableQuery';
+import { base32Encode, buildOtpauthUrl, generateTotpSecret, verifyTotp } from '@/lib/totp';
+import { getPasswordPolicyErrors } from '@/lib/passwordPolicy';
+import { decodeIdToken, mapClaimsToRole } from '@/lib/oidc';
+import { diffPermissions } from '@/lib/permissions';
+import { activityEntityLabels, diffRecords } from '@/lib/activity';
+import { mockIdp } from '@/services/mockIdp';
+import { config } from '@/config';
+import { PERMISSIONS } from '@/types';
 
 // Generate mock data
 const generateUsers = (count: number): User[] => {
@@ -31,24 +80,126 @@ const generateProducts = (count: number): Product[] => {
   const adjectives = ['Premium', 'Essential', 'Professional', 'Classic', 'Modern', 'Ultra', 'Smart', 'Eco'];
   const nouns = ['Widget', 'Device', 'Tool', 'Kit', 'System', 'Solution', 'Module', 'Pack'];
 
-  return Array.from({ length: count }, (_, i) => ({
-    id: `prod-${i + 1}`,
-    sku: `SKU-${String(i + 1).padStart(6, '0')}`,
-    name: `${adjectives[Math.floor(Math.random() * adjectives.length)]} ${nouns[Math.floor(Math.random() * nouns.length)]} ${i + 1}`,
-    description: `High-quality product with excellent features and durability. Perfect for professional and personal use.`,
-    category: categories[Math.floor(Math.random() * categories.length)],
-    price: Math.round((Math.random() * 999 + 10) * 100) / 100,
-    stock: Math.floor(Math.random() * 1000),
-    status: statuses[Math.floor(Math.random() * statuses.length)],
-    createdAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date().toISOString(),
-  }));
+  return Array.from({ length: count }, (_, i) => {
+    const price = Math.round((Math.random() * 999 + 10) * 100) / 100;
+    return {
+      id: `prod-${i + 1}`,
+      sku: `SKU-${String(i + 1).padStart(6, '0')}`,
+      name: `${adjectives[Math.floor(Math.random() * adjectives.length)]} ${nouns[Math.floor(Math.random() * nouns.length)]} ${i + 1}`,
+      description: `High-quality product with excellent features and durability. Perfect for professional and personal use.`,
+      category: categories[Math.floor(Math.random() * categories.length)],
+      price,
+      cost: Math.round(price * (0.4 + Math.random() * 0.4) * 100) / 100,
+      stock: Math.floor(Math.random() * 1000),
+      status: statuses[Math.floor(Math.random() * statuses.length)],
+      createdAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  });
 };
 
 // Initialize mock data
 let mockUsers = generateUsers(10000);
 let mockProducts = generateProducts(10000);
 
+// Sort/filter keys that don't map 1:1 onto an entity field
+const userFieldAccessors: FieldAccessors<User> = {
+  name: (u) => `${u.lastName} ${u.firstName}`,
+  status: (u) => u.isActive,
+};
+
+const productFieldAccessors: FieldAccessors<Product> = {};
+
+// Rows matching a table query, before sorting and pagination
+const queryUsers = (search: string, filters: FilterConfig[]): User[] => {
+  let filtered = mockUsers;
+  if (search) {
+    const searchLower = search.toLowerCase();
+    filtered = mockUsers.filter(
+      (u) =>
+        u.firstName.toLowerCase().includes(searchLower) ||
+        u.lastName.toLowerCase().includes(searchLower) ||
+        u.email.toLowerCase().includes(searchLower)
+    );
+  }
+  return filterRows(filtered, filters, userFieldAccessors);
+};
+
+const queryProducts = (search: string, filters: FilterConfig[]): Product[] => {
+  let filtered = mockProducts;
+  if (search) {
+    const searchLower = search.toLowerCase();
+    filtered = filtered.filter(
+      (p) =>
+        p.name.toLowerCase().includes(searchLower) ||
+        p.sku.toLowerCase().includes(searchLower) ||
+        p.description.toLowerCase().includes(searchLower)
+    );
+  }
+  return filterRows(filtered, filters, productFieldAccessors);
+};
+
+const resolveSelection = <T extends { id: string }>(
+  selection: BulkSelection,
+  query: (search: string, filters: FilterConfig[]) => T[]
+): Set<string> =>
+  new Set(
+    selection.type === 'ids'
+      ? selection.ids
+      : query(selection.search, selection.filters).map((row) => row.id)
+  );
+
+// Splits resolved ids into those `allowed` lets through and a count of the rest
+const partitionSelection = <T extends { id: string }>(ids: Set<string>, rows: T[], allowed: (row: T) => boolean) => {
+  const allowedIds = new Set(rows.filter((row) => ids.has(row.id) && allowed(row)).map((row) => row.id));
+  return { ids: allowedIds, skipped: ids.size - allowedIds.size };
+};
+
+// Activity log, newest first. Kept in memory like the users and products it describes, so it
+// never refers to records from before a reload.
+const MAX_ACTIVITY_ENTRIES = 20000;
+
+const activityLog: ActivityLog[] = [];
+
+interface ActivityRecords {
+  user: User;
+  product: Product;
+  role: Role;
+}
+
+const entityNames: { [K in ActivityEntity]: (record: ActivityRecords[K]) => string } = {
+  user: (user) => `${user.firstName} ${user.lastName}`,
+  product: (product) => product.name,
+  role: (role) => role.name,
+};
+
+// Records a create (`before` null), update or delete (`after` null). Saves that change
+// nothing are left out.
+const recordActivity = <K extends ActivityEntity>(
+  actor: User,
+  entity: K,
+  before: ActivityRecords[K] | null,
+  after: ActivityRecords[K] | null
+) => {
+  const record = (after ?? before)!;
+  const action: ActivityAction = !before ? 'create' : !after ? 'delete' : 'update';
+  const changes = diffRecords(before, after);
+  if (action === 'update' && changes.length === 0) return;
+  activityLog.unshift({
+    id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId: actor.id,
+    userName: entityNames.user(actor),
+    action,
+    entity,
+    entityId: record.id,
+    entityName: entityNames[entity](record),
+    changes,
+    impersonatedBy: actor.impersonation?.actor,
+    createdAt: new Date().toISOString(),
+  });
+  activityLog.splice(MAX_ACTIVITY_ENTRIES);
+};
+
 // Demo users for authentication
 const demoUsers: Record<string, { password: string; user: User }> = {
   'admin@enterprise.com': {
@@ -82,7 +233,7 @@ const demoUsers: Record<string, { password: string; user: User }> = {
   'user@enterprise.com': {
     password: 'user123',
     user: {
-      id: 'user-1',
+      id: 'user-0',
       email: 'user@enterprise.com',
       firstName: 'Regular',
       lastName: 'User',
@@ -95,62 +246,895 @@ const demoUsers: Record<string, { password: string; user: User }> = {
   },
 };
 
+// Demo accounts are listed with everyone else, so admins can deactivate or unlock them
+mockUsers = [...Object.values(demoUsers).map(({ user }) => user), ...mockUsers];
+
+// Current profile of an account; edits made on the Users page apply to its next request
+const findAccount = (email: string): User | undefined => {
+  const normalized = email.toLowerCase();
+  return mockUsers.find((u) => u.email.toLowerCase() === normalized);
+};
+
+// Roles and their permissions, persisted so custom roles and edits survive reloads
+const ROLES_STORAGE_KEY = 'mock_roles';
+
+const seedRole = (id: UserRole, name: string, description: string, permissions: Permission[]): Role => ({
+  id,
+  name,
+  description,
+  permissions,
+  isSystem: true,
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+});
+
+const defaultRoles: Role[] = [
+  seedRole('admin', 'Admin', 'Full access, including settings and role management', [...PERMISSIONS]),
+  seedRole('manager', 'Manager', 'Manages products, users in their department and reports', [
+    'users:read',
+    'users:write',
+    'products:read',
+    'products:write',
+    'products:cost:read',
+    'dashboard:manager',
+    'reports:read',
+    'reports:export',
+    'activity:read',
+  ]),
+  seedRole('user', 'User', 'Browses the product catalogue', ['products:read']),
+];
+
+const loadRoles = (): Role[] => {
+  try {
+    const stored = localStorage.getItem(ROLES_STORAGE_KEY);
+    // The admin role picks up permissions added since it was stored
+    if (stored) {
+      return (JSON.parse(stored) as Role[]).map((role) => (role.id === 'admin' ? { ...role, permissions: [...PERMISSIONS] } : role));
+    }
+  } catch {
+    // Corrupt storage falls through to the built-in roles
+  }
+  return defaultRoles;
+};
+
+let roles = loadRoles();
+
+const persistRoles = () => {
+  localStorage.setItem(ROLES_STORAGE_KEY, JSON.stringify(roles));
+};
+
+export const getRolePermissions = (roleId: UserRole): Permission[] =>
+  roles.find((role) => role.id === roleId)?.permissions ?? [];
+
+// Keeps only known permissions, in catalogue order
+const normalizePermissions = (permissions: Permission[] = []): Permission[] =>
+  PERMISSIONS.filter((permission) => permissions.includes(permission));
+
+const validateRoleInput = ({ name }: Partial<RoleInput>, id?: string) => {
+  const trimmed = name?.trim();
+  if (!trimmed) throw new Error('Role name is required');
+  if (roles.some((role) => role.id !== id && role.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A role named "${trimmed}" already exists`);
+  }
+  return trimmed;
+};
+
+// How many affected users a role impact preview lists by name
+const ROLE_IMPACT_SAMPLE_SIZE = 25;
+
+// "Support Agent" -> "support-agent", suffixed when taken
+const createRoleId = (name: string): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'role';
+  let id = base;
+  for (let n = 2; roles.some((role) => role.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+const assertRoleExists = (roleId: UserRole | undefined) => {
+  if (roleId && !roles.some((role) => role.id === roleId)) throw new Error(`Unknown role "${roleId}"`);
+};
+
+// Saved views are persisted to localStorage so they survive reloads like a real backend would
+const SAVED_VIEWS_STORAGE_KEY = 'mock_saved_views';
+
+interface SavedViewsStore {
+  views: Omit<SavedView, 'isDefault'>[];
+  // `${userId}:${tableId}` -> view id
+  defaults: Record<string, string>;
+}
+
+const loadSavedViews = (): SavedViewsStore => {
+  try {
+    const stored = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as SavedViewsStore;
+  } catch {
+    // Corrupt storage falls through to an empty store
+  }
+  return { views: [], defaults: {} };
+};
+
+const savedViewsStore = loadSavedViews();
+
+const persistSavedViews = () => {
+  localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(savedViewsStore));
+};
+
+const toSavedView = (view: Omit<SavedView, 'isDefault'>, userId: string): SavedView => ({
+  ...view,
+  isDefault: savedViewsStore.defaults[`${userId}:${view.tableId}`] === view.id,
+});
+
+// Users see their own views and those shared with their role
+const isViewVisibleTo = (view: Omit<SavedView, 'isDefault'>, user: Pick<User, 'id' | 'role'>) =>
+  view.ownerId === user.id || view.sharedWithRoles.includes(user.role);
+
+const findOwnedView = (id: string, userId: string) => {
+  const view = savedViewsStore.views.find((v) => v.id === id);
+  if (!view) throw new Error('View not found');
+  if (view.ownerId !== userId) throw new Error('Only the owner can modify this view');
+  return view;
+};
+
+// Changed passwords are stored as SHA-256 hashes, along with the hashes of earlier ones so
+// they cannot be reused. Accounts that never changed their password use the seeded one.
+const PASSWORDS_STORAGE_KEY = 'mock_passwords';
+
+interface PasswordRecord {
+  hash: string;
+  // Most recent first, including the current password
+  history: string[];
+  changedAt: string;
+  // The password in use no longer meets the policy; cleared by the next change
+  mustChange: boolean;
+}
+
+const loadPasswords = (): Record<string, PasswordRecord> => {
+  try {
+    const stored = localStorage.getItem(PASSWORDS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as Record<string, PasswordRecord>;
+  } catch {
+    // Corrupt storage falls through to the seeded passwords
+  }
+  return {};
+};
+
+const passwords = loadPasswords();
+
+const persistPasswords = () => {
+  localStorage.setItem(PASSWORDS_STORAGE_KEY, JSON.stringify(passwords));
+};
+
+const hashPassword = async (password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const checkPassword = async (email: string, password: string): Promise<boolean> => {
+  const record = passwords[email];
+  if (record) return record.hash === (await hashPassword(password));
+  return demoUsers[email]?.password === password;
+};
+
+// Seeded passwords count as set when the account was created
+const getPasswordExpiry = (account: User): Date | null => {
+  const { maxAgeDays } = config.passwordPolicy;
+  if (!maxAgeDays) return null;
+  const changedAt = new Date(passwords[account.email]?.changedAt ?? account.createdAt);
+  return new Date(changedAt.getTime() + maxAgeDays * 24 * 60 * 60 * 1000);
+};
+
+// The profile returned to its owner, with the password state the client needs to act on.
+// Null once the account is deleted or deactivated, which also ends its sessions.
+const getAccountUser = (email: string): User | null => {
+  const account = findAccount(email);
+  if (!account?.isActive) return null;
+  const permissions = getRolePermissions(account.role);
+  if (account.authProvider === 'oidc') {
+    return { ...account, permissions, passwordChangeRequired: false, passwordExpiresAt: null };
+  }
+  const expiresAt = getPasswordExpiry(account);
+  return {
+    ...account,
+    permissions,
+    passwordChangeRequired: !!passwords[email]?.mustChange || (expiresAt !== null && expiresAt.getTime() <= Date.now()),
+    passwordExpiresAt: expiresAt?.toISOString() ?? null,
+  };
+};
+
+// Issued tokens are persisted too, so a stored session is still valid after a reload
+const SESSIONS_STORAGE_KEY = 'mock_sessions';
+
+const ACCESS_TOKEN_TTL = 3600; // seconds
+const REFRESH_TOKEN_TTL = 7 * 24 * 3600;
+
+// Who is viewing the app as the token's user
+interface StoredImpersonation extends Omit<Impersonation, 'actor'> {
+  actorEmail: string;
+}
+
+interface IssuedToken {
+  email: string; // demo user the token was issued to
+  expiresAt: number;
+  impersonation?: StoredImpersonation;
+}
+
+// token (access or refresh) -> owner and expiry
+const loadSessions = (): Record<string, IssuedToken> => {
+  try {
+    const stored = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as Record<string, IssuedToken>;
+  } catch {
+    // Corrupt storage falls through to no sessions
+  }
+  return {};
+};
+
+const sessions = loadSessions();
+
+const persistSessions = () => {
+  localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+};
+
+// Expired tokens are dropped whenever a new session is issued
+const pruneSessions = () => {
+  const now = Date.now();
+  Object.keys(sessions).forEach((token) => {
+    if (!(sessions[token]?.expiresAt > now)) delete sessions[token];
+  });
+};
+
+const toUserSummary = ({ id, email, firstName, lastName }: User): UserSummary => ({ id, email, firstName, lastName });
+
+// The user a session acts as. While impersonating that is the target, without delete
+// permissions unless they were allowed, and the session ends once the administrator loses
+// the permission or the account.
+const getSessionProfile = ({ email, impersonation }: Pick<IssuedToken, 'email' | 'impersonation'>): User | null => {
+  const user = getAccountUser(email);
+  if (!user || !impersonation) return user;
+  const { actorEmail, ...details } = impersonation;
+  const actor = getAccountUser(actorEmail);
+  if (!actor?.permissions?.includes('users:impersonate')) return null;
+  return {
+    ...user,
+    permissions: details.allowDestructive ? user.permissions : user.permissions?.filter((p) => !p.endsWith(':delete')),
+    // Changing the user's password is not the administrator's to do
+    passwordChangeRequired: false,
+    impersonation: { ...details, actor: { ...toUserSummary(actor), authProvider: actor.authProvider } },
+  };
+};
+
+const issueSession = (email: string, impersonation?: StoredImpersonation): AuthResponse => {
+  const issuedAt = Date.now();
+  // The random suffix keeps tokens unique when several are issued in the same millisecond
+  const suffix = `${issuedAt}-${Math.random().toString(36).slice(2, 10)}`;
+  const token = `mock-jwt-token-${suffix}`;
+  const refreshToken = `mock-refresh-token-${suffix}`;
+  pruneSessions();
+  sessions[token] = { email, impersonation, expiresAt: issuedAt + ACCESS_TOKEN_TTL * 1000 };
+  sessions[refreshToken] = { email, impersonation, expiresAt: issuedAt + REFRESH_TOKEN_TTL * 1000 };
+  persistSessions();
+  return { user: getSessionProfile({ email, impersonation })!, token, refreshToken, expiresIn: ACCESS_TOKEN_TTL };
+};
+
+// Unexpired token with the given prefix
+const resolveSession = (token: string, prefix: string): IssuedToken | null => {
+  const issued = token.startsWith(prefix) ? sessions[token] : undefined;
+  return issued && issued.expiresAt > Date.now() ? issued : null;
+};
+
+// Owner of an unexpired token with the given prefix
+const resolveToken = (token: string, prefix: string): string | null => resolveSession(token, prefix)?.email ?? null;
+
+// Resolves the user an access token was issued to, or null if it is unknown or expired
+export const getSessionUser = (token: string): User | null => {
+  const issued = resolveSession(token, 'mock-jwt-token');
+  return issued ? getSessionProfile(issued) : null;
+};
+
+// Audit trail of impersonation sessions and the changes made during them, newest first
+const IMPERSONATION_LOG_STORAGE_KEY = 'mock_impersonation_log';
+const MAX_IMPERSONATION_EVENTS = 1000;
+
+const loadImpersonationLog = (): ImpersonationEvent[] => {
+  try {
+    const stored = localStorage.getItem(IMPERSONATION_LOG_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as ImpersonationEvent[];
+  } catch {
+    // Corrupt storage falls through to an empty log
+  }
+  return [];
+};
+
+const impersonationLog = loadImpersonationLog();
+
+// Records an event for a session that is impersonating; `user` is the session's effective user
+export const recordImpersonationEvent = (
+  user: User,
+  type: ImpersonationEventType,
+  details: Pick<ImpersonationEvent, 'method' | 'path' | 'status'> = {}
+) => {
+  if (!user.impersonation) return;
+  impersonationLog.unshift({
+    id: `imp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    actor: user.impersonation.actor,
+    target: toUserSummary(user),
+    timestamp: new Date().toISOString(),
+    reason: type === 'start' ? user.impersonation.reason : undefined,
+    ...details,
+  });
+  impersonationLog.splice(MAX_IMPERSONATION_EVENTS);
+  localStorage.setItem(IMPERSONATION_LOG_STORAGE_KEY, JSON.stringify(impersonationLog));
+};
+
+// Two-factor enrollments and the enforcement policy, persisted like sessions
+const TWO_FACTOR_STORAGE_KEY = 'mock_two_factor';
+const TOTP_ISSUER = 'Enterprise Portal';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = 300; // seconds to enter the second factor after the password
+
+interface TwoFactorRecord {
+  secret: string;
+  recoveryCodes: string[];
+  enabledAt: string;
+  // Each TOTP code is accepted once, even though it stays valid for its whole time step
+  lastUsedStep: number;
+}
+
+interface TwoFactorStore {
+  // email -> active enrollment
+  enrolled: Record<string, TwoFactorRecord>;
+  // email -> secret shown during setup, until the first code confirms it
+  pending: Record<string, string>;
+  requiredRoles: UserRole[];
+}
+
+const loadTwoFactor = (): TwoFactorStore => {
+  try {
+    const stored = localStorage.getItem(TWO_FACTOR_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as TwoFactorStore;
+  } catch {
+    // Corrupt storage falls through to no enrollments
+  }
+  return { enrolled: {}, pending: {}, requiredRoles: [] };
+};
+
+const twoFactorStore = loadTwoFactor();
+
+const persistTwoFactor = () => {
+  localStorage.setItem(TWO_FACTOR_STORAGE_KEY, JSON.stringify(twoFactorStore));
+};
+
+const isTwoFactorRequired = (email: string) => {
+  const role = findAccount(email)?.role;
+  return !!role && twoFactorStore.requiredRoles.includes(role);
+};
+
+// Ten single-use codes formatted like "k7rq2-m4xfa"
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+// Accepts a current TOTP code or one of the unused recovery codes (which is then spent)
+const verifySecondFactor = async (email: string, code: string) => {
+  const record = twoFactorStore.enrolled[email];
+  if (!record) throw new Error('Two-factor authentication is not enabled');
+
+  const trimmed = code.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) {
+    const step = await verifyTotp(record.secret, trimmed);
+    if (step === null || step <= record.lastUsedStep) throw new Error('Invalid verification code');
+    record.lastUsedStep = step;
+  } else {
+    const index = record.recoveryCodes.indexOf(trimmed);
+    if (index === -1) throw new Error('Invalid recovery code');
+    record.recoveryCodes.splice(index, 1);
+  }
+  persistTwoFactor();
+};
+
+// challenge token -> user who passed the password step. Kept in memory: a reload restarts sign-in.
+const loginChallenges: Record<string, { email: string; enrollmentRequired: boolean; expiresAt: number }> = {};
+
+const issueChallenge = (email: string, enrollmentRequired: boolean): TwoFactorChallenge => {
+  const challengeToken = `mock-2fa-challenge-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  loginChallenges[challengeToken] = { email, enrollmentRequired, expiresAt: Date.now() + CHALLENGE_TTL * 1000 };
+  return { challengeToken, enrollmentRequired, expiresIn: CHALLENGE_TTL };
+};
+
+const resolveChallenge = (challengeToken: string) => {
+  const challenge = loginChallenges[challengeToken];
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    delete loginChallenges[challengeToken];
+    throw new Error('Your sign-in attempt has expired. Please sign in again.');
+  }
+  return challenge;
+};
+
+const startTotpSetup = (email: string): TwoFactorSetup => {
+  if (twoFactorStore.enrolled[email]) throw new Error('Two-factor authentication is already enabled');
+  const secret = generateTotpSecret();
+  twoFactorStore.pending[email] = secret;
+  persistTwoFactor();
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, email, TOTP_ISSUER) };
+};
+
+const confirmTotpSetup = async (email: string, code: string): Promise<string[]> => {
+  const secret = twoFactorStore.pending[email];
+  if (!secret) throw new Error('Start two-factor setup first');
+  const step = await verifyTotp(secret, code.trim());
+  if (step === null) throw new Error('Invalid verification code');
+
+  const recoveryCodes = generateRecoveryCodes();
+  twoFactorStore.enrolled[email] = { secret, recoveryCodes, enabledAt: new Date().toISOString(), lastUsedStep: step };
+  delete twoFactorStore.pending[email];
+  persistTwoFactor();
+  return recoveryCodes;
+};
+
+// Failed sign-ins per account and per client, persisted so a reload does not reset the count
+const LOGIN_ATTEMPTS_STORAGE_KEY = 'mock_login_attempts';
+
+interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+interface LoginAttemptsStore {
+  // email -> failures against that account
+  accounts: Record<string, AttemptRecord>;
+  // client id -> failures from that browser, across all accounts
+  clients: Record<string, AttemptRecord>;
+}
+
+const loadLoginAttempts = (): LoginAttemptsStore => {
+  try {
+    const stored = localStorage.getItem(LOGIN_ATTEMPTS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as LoginAttemptsStore;
+  } catch {
+    // Corrupt storage falls through to no recorded failures
+  }
+  return { accounts: {}, clients: {} };
+};
+
+const loginAttempts = loadLoginAttempts();
+
+const persistLoginAttempts = () => {
+  localStorage.setItem(LOGIN_ATTEMPTS_STORAGE_KEY, JSON.stringify(loginAttempts));
+};
+
+// Thrown by login with the details the client needs to explain a refusal
+export class LoginAttemptError extends Error {
+  constructor(
+    public code: LoginErrorCode,
+    message: string,
+    public retryAfter?: number,
+    public attemptsRemaining?: number
+  ) {
+    super(message);
+    this.name = 'LoginAttemptError';
+  }
+}
+
+// The current record for a key, dropping failures that fell outside the window and expired locks
+const getAttempts = (records: Record<string, AttemptRecord>, key: string): AttemptRecord | null => {
+  const record = records[key];
+  if (!record) return null;
+  const now = Date.now();
+  const windowMs = config.loginProtection.attemptWindowMinutes * 60 * 1000;
+  if (record.lockedUntil ? record.lockedUntil <= now : record.lastFailureAt + windowMs <= now) {
+    delete records[key];
+    return null;
+  }
+  return record;
+};
+
+const secondsUntil = (time: number) => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+// Wait imposed after the latest failure: none for the first few, then doubling up to the cap
+const getBackoffSeconds = (failures: number) => {
+  const { backoffAfter, backoffBaseSeconds, backoffMaxSeconds } = config.loginProtection;
+  if (failures < backoffAfter) return 0;
+  return Math.min(backoffBaseSeconds * 2 ** (failures - backoffAfter), backoffMaxSeconds);
+};
+
+const lockedError = (lockedUntil: number) =>
+  new LoginAttemptError(
+    'ACCOUNT_LOCKED',
+    'This account is temporarily locked after too many failed sign-in attempts.',
+    secondsUntil(lockedUntil)
+  );
+
+const clientLockedError = (lockedUntil: number) =>
+  new LoginAttemptError(
+    'TOO_MANY_ATTEMPTS',
+    'Too many failed sign-in attempts from this device. Try again later.',
+    secondsUntil(lockedUntil)
+  );
+
+// Refuses the attempt before the password is even checked while the client or account is blocked
+const assertCanAttempt = (email: string, clientId: string | null) => {
+  const now = Date.now();
+  const client = clientId ? getAttempts(loginAttempts.clients, clientId) : null;
+  if (client?.lockedUntil) throw clientLockedError(client.lockedUntil);
+
+  const account = getAttempts(loginAttempts.accounts, email);
+  if (account?.lockedUntil) throw lockedError(account.lockedUntil);
+
+  const waitUntil = Math.max(
+    ...[account, client].map((record) => (record ? record.lastFailureAt + getBackoffSeconds(record.failures) * 1000 : 0))
+  );
+  if (waitUntil > now) {
+    throw new LoginAttemptError('TOO_MANY_ATTEMPTS', 'Too many sign-in attempts. Please wait before trying again.', secondsUntil(waitUntil));
+  }
+};
+
+const recordFailure = (records: Record<string, AttemptRecord>, key: string, maxAttempts: number): AttemptRecord => {
+  const now = Date.now();
+  const record = getAttempts(records, key) ?? { failures: 0, lastFailureAt: now, lockedUntil: null };
+  record.failures += 1;
+  record.lastFailureAt = now;
+  if (record.failures >= maxAttempts) {
+    record.lockedUntil = now + config.loginProtection.lockoutMinutes * 60 * 1000;
+  }
+  records[key] = record;
+  return record;
+};
+
+// Counts a failed password or second factor and returns the error to report. Unknown emails are
+// counted like real ones so the response does not reveal which accounts exist.
+const loginFailure = (email: string, clientId: string | null, message = 'Invalid email or password') => {
+  const { maxAttempts, clientMaxAttempts } = config.loginProtection;
+  const account = recordFailure(loginAttempts.accounts, email, maxAttempts);
+  const client = clientId ? recordFailure(loginAttempts.clients, clientId, clientMaxAttempts) : null;
+  persistLoginAttempts();
+
+  if (account.lockedUntil) return lockedError(account.lockedUntil);
+  if (client?.lockedUntil) return clientLockedError(client.lockedUntil);
+
+  const remaining = maxAttempts - account.failures;
+  return new LoginAttemptError(
+    'INVALID_CREDENTIALS',
+    message,
+    getBackoffSeconds(account.failures) || undefined,
+    // Only worth mentioning once the lock is close
+    remaining <= 2 ? remaining : undefined
+  );
+};
+
+// A successful sign-in only clears the account; the client count decays with the window, so one
+// valid account cannot be used to keep guessing at others from the same device
+const clearAttempts = (email: string) => {
+  if (!loginAttempts.accounts[email]) return;
+  delete loginAttempts.accounts[email];
+  persistLoginAttempts();
+};
+
+// Adds the lock expiry shown to admins on the Users page
+const withLockState = (user: User): User => {
+  const lockedUntil = getAttempts(loginAttempts.accounts, user.email.toLowerCase())?.lockedUntil;
+  return { ...user, lockedUntil: lockedUntil ? new Date(lockedUntil).toISOString() : null };
+};
+
+// Creates the account on first single sign-on, and keeps its name and role in step with the
+// identity provider on every later one. Existing password accounts with the same email are linked.
+const provisionOidcAccount = (claims: OidcClaims, role: UserRole): User => {
+  const now = new Date().toISOString();
+  const existing = findAccount(claims.email!);
+  const profile = {
+    firstName: claims.given_name || existing?.firstName || '',
+    lastName: claims.family_name || existing?.lastName || '',
+    role,
+    updatedAt: now,
+  };
+  if (existing) {
+    const updated = { ...existing, ...profile };
+    mockUsers = mockUsers.map((u) => (u.id === existing.id ? updated : u));
+    return updated;
+  }
+  const created: User = {
+    id: `user-${Date.now()}`,
+    email: claims.email!.toLowerCase(),
+    department: '',
+    createdAt: now,
+    isActive: true,
+    authProvider: 'oidc',
+    ...profile,
+  };
+  mockUsers = [created, ...mockUsers];
+  return created;
+};
+
 // Simulate network delay
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 // Mock API methods
 export const mockApi = {
   // Auth
-  async login(email: string, password: string): Promise<AuthResponse> {
+  async login(email: string, password: string, clientId: string | null = null): Promise<LoginResult> {
     await delay(800);
-    
-    const demoUser = demoUsers[email];
-    if (!demoUser || demoUser.password !== password) {
-      throw new Error('Invalid email or password');
+    email = email.trim().toLowerCase();
+
+    assertCanAttempt(email, clientId);
+    if (!(await checkPassword(email, password))) throw loginFailure(email, clientId);
+    clearAttempts(email);
+
+    // Only reported once the password is right, so it does not help guessing
+    if (!findAccount(email)?.isActive) {
+      throw new LoginAttemptError('ACCOUNT_INACTIVE', 'This account has been deactivated. Contact an administrator.');
     }
 
-    return {
-      user: demoUser.user,
-      token: `mock-jwt-token-${Date.now()}`,
-      refreshToken: `mock-refresh-token-${Date.now()}`,
-      expiresIn: 3600,
-    };
+    // Passwords set before the policy was tightened must be replaced right after signing in
+    if (getPasswordPolicyErrors(password).length > 0 && !passwords[email]?.mustChange) {
+      const hash = await hashPassword(password);
+      passwords[email] = {
+        hash,
+        history: passwords[email]?.history ?? [hash],
+        changedAt: passwords[email]?.changedAt ?? findAccount(email)!.createdAt,
+        mustChange: true,
+      };
+      persistPasswords();
+    }
+
+    if (twoFactorStore.enrolled[email]) return issueChallenge(email, false);
+    if (isTwoFactorRequired(email)) return issueChallenge(email, true);
+    return issueSession(email);
+  },
+
+  // Second sign-in step: a TOTP or recovery code for the challenge issued by login
+  async verifyTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    await delay(500);
+    const { email, enrollmentRequired } = resolveChallenge(challengeToken);
+    if (enrollmentRequired) throw new Error('Set up two-factor authentication to continue');
+    assertCanAttempt(email, null);
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const failure = await verifySecondFactor(email, code).then(
+      () => null,
+      (error: Error) => error
+    );
+    if (failure) {
+      const error = loginFailure(email, null, failure.message);
+      if (error.code === 'ACCOUNT_LOCKED') delete loginChallenges[challengeToken];
+      throw error;
+    }
+    clearAttempts(email);
+    delete loginChallenges[challengeToken];
+    return issueSession(email);
+  },
+
+  // Single sign-on: redeems the authorization code with the identity provider and signs in the
+  // user its ID token describes. Second factors are left to the identity provider.
+  async loginWithOidc({ code, codeVerifier, redirectUri, nonce }: OidcCodeExchange): Promise<AuthResponse> {
+    await delay(600);
+    const tokens = await mockIdp.token({
+      grantType: 'authorization_code',
+      code,
+      redirectUri,
+      clientId: config.oidc.clientId,
+      codeVerifier,
+    });
+
+    // Received directly from the token endpoint, so the issuer is trusted without a signature check
+    const claims = decodeIdToken(tokens.id_token);
+    if (claims.iss !== config.oidc.issuer || claims.aud !== config.oidc.clientId || claims.exp * 1000 <= Date.now()) {
+      throw new Error('The identity provider returned an invalid ID token');
+    }
+    if (claims.nonce !== nonce) throw new Error('The ID token was not issued for this sign-in');
+    if (!claims.email) throw new Error('The identity provider did not share an email address');
+
+    const role = mapClaimsToRole(claims);
+    if (!role) {
+      throw new Error('Your organization account has not been given access to this application. Contact an administrator.');
+    }
+    // Deactivated on the Users page: the IdP vouches for who they are, not that they may still sign in
+    if (findAccount(claims.email)?.isActive === false) {
+      throw new LoginAttemptError('ACCOUNT_INACTIVE', 'This account has been deactivated. Contact an administrator.');
+    }
+    return issueSession(provisionOidcAccount(claims, role).email);
   },
 
   async refreshToken(refreshToken: string): Promise<AuthResponse> {
     await delay(300);
     
-    if (!refreshToken.startsWith('mock-refresh-token')) {
+    const email = resolveToken(refreshToken, 'mock-refresh-token');
+    if (!email) {
       throw new Error('Invalid refresh token');
     }
 
-    // Return admin user for demo
+    // Refresh tokens are single use, and an impersonation carries over to the new pair
+    const { impersonation } = sessions[refreshToken];
+    delete sessions[refreshToken];
+    if (!getSessionProfile({ email, impersonation })) throw new Error('Account is no longer active');
+    return issueSession(email, impersonation);
+  },
+
+  // Validates an access token and returns the profile it was issued to
+  async getCurrentUser(token: string): Promise<User> {
+    await delay(300);
+    const user = getSessionUser(token);
+    if (!user) throw new Error('Session expired or invalid');
+    return user;
+  },
+
+  async logout(token: string): Promise<void> {
+    await delay(200);
+    const user = getSessionUser(token);
+    if (user) recordImpersonationEvent(user, 'stop');
+    delete sessions[token];
+    persistSessions();
+  },
+
+  // Swaps the administrator's access token for a session as the target user. Their own
+  // session is restored by stopImpersonation.
+  async startImpersonation(
+    actor: User,
+    token: string,
+    { userId, reason, allowDestructive = false }: ImpersonationRequest
+  ): Promise<AuthResponse> {
+    await delay(300);
+    if (actor.impersonation) throw new Error('Stop viewing as the current user first');
+    if (!reason?.trim()) throw new Error('A reason is required');
+    const target = mockUsers.find((u) => u.id === userId);
+    if (!target) throw new Error('User not found');
+    if (target.id === actor.id) throw new Error('You cannot impersonate yourself');
+    if (!target.isActive) throw new Error('Deactivated users cannot be impersonated');
+    if (getRolePermissions(target.role).includes('users:impersonate')) {
+      throw new Error('Users who can impersonate others cannot be impersonated');
+    }
+
+    delete sessions[token];
+    const session = issueSession(target.email, {
+      actorEmail: actor.email,
+      reason: reason.trim(),
+      startedAt: new Date().toISOString(),
+      allowDestructive,
+    });
+    recordImpersonationEvent(session.user, 'start');
+    return session;
+  },
+
+  async stopImpersonation(token: string): Promise<AuthResponse> {
+    await delay(300);
+    const user = getSessionUser(token);
+    const actorEmail = sessions[token]?.impersonation?.actorEmail;
+    if (!user || !actorEmail) throw new Error('You are not viewing the app as another user');
+    recordImpersonationEvent(user, 'stop');
+    delete sessions[token];
+    if (!getAccountUser(actorEmail)) throw new Error('Account is no longer active');
+    return issueSession(actorEmail);
+  },
+
+  async getImpersonationLog(page: number, pageSize: number): Promise<PaginatedResponse<ImpersonationEvent>> {
+    await delay(300);
+    const start = (page - 1) * pageSize;
     return {
-      user: demoUsers['admin@enterprise.com'].user,
-      token: `mock-jwt-token-${Date.now()}`,
-      refreshToken: `mock-refresh-token-${Date.now()}`,
-      expiresIn: 3600,
+      data: impersonationLog.slice(start, start + pageSize),
+      pagination: {
+        page,
+        pageSize,
+        total: impersonationLog.length,
+        totalPages: Math.ceil(impersonationLog.length / pageSize),
+      },
     };
   },
 
-  // Users
-  async getUsers(page: number, pageSize: number, search: string): Promise<PaginatedResponse<User>> {
+  async changePassword(email: string, currentPassword: string, newPassword: string): Promise<User> {
+    await delay(600);
+    if (!(await checkPassword(email, currentPassword))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    // The client validates with the same rules, but the server is the one that must enforce them
+    const [policyError] = getPasswordPolicyErrors(newPassword);
+    if (policyError) throw new Error(policyError);
+
+    const { historySize } = config.passwordPolicy;
+    const hash = await hashPassword(newPassword);
+    const history = passwords[email]?.history ?? [await hashPassword(demoUsers[email].password)];
+    if (history.slice(0, historySize).includes(hash)) {
+      throw new Error(`You cannot reuse any of your last ${historySize} passwords`);
+    }
+
+    passwords[email] = {
+      hash,
+      history: [hash, ...history].slice(0, historySize),
+      changedAt: new Date().toISOString(),
+      mustChange: false,
+    };
+    persistPasswords();
+    return getAccountUser(email)!;
+  },
+
+  // Two-factor authentication
+  async getTwoFactorStatus(email: string): Promise<TwoFactorStatus> {
+    await delay(300);
+    const record = twoFactorStore.enrolled[email];
+    return {
+      enabled: !!record,
+      required: isTwoFactorRequired(email),
+      enabledAt: record?.enabledAt ?? null,
+      recoveryCodesRemaining: record?.recoveryCodes.length ?? 0,
+    };
+  },
+
+  async beginTwoFactorSetup(email: string): Promise<TwoFactorSetup> {
+    await delay(300);
+    return startTotpSetup(email);
+  },
+
+  async enableTwoFactor(email: string, code: string): Promise<TwoFactorEnrollment> {
     await delay(500);
+    return { recoveryCodes: await confirmTotpSetup(email, code) };
+  },
+
+  // Enrollment forced by the policy happens before a session exists, authorized by the challenge
+  async beginChallengeEnrollment(challengeToken: string): Promise<TwoFactorSetup> {
+    await delay(300);
+    const { email, enrollmentRequired } = resolveChallenge(challengeToken);
+    if (!enrollmentRequired) throw new Error('Two-factor authentication is already enabled');
+    return startTotpSetup(email);
+  },
 
-    let filtered = mockUsers;
-    if (search) {
-      const searchLower = search.toLowerCase();
-      filtered = mockUsers.filter(
-        (u) =>
-          u.firstName.toLowerCase().includes(searchLower) ||
-          u.lastName.toLowerCase().includes(searchLower) ||
-          u.email.toLowerCase().includes(searchLower)
-      );
+  async completeChallengeEnrollment(challengeToken: string, code: string): Promise<TwoFactorEnrollment> {
+    await delay(500);
+    const { email, enrollmentRequired } = resolveChallenge(challengeToken);
+    if (!enrollmentRequired) throw new Error('Two-factor authentication is already enabled');
+    const recoveryCodes = await confirmTotpSetup(email, code);
+    delete loginChallenges[challengeToken];
+    return { recoveryCodes, session: issueSession(email) };
+  },
+
+  async disableTwoFactor(email: string, code: string): Promise<void> {
+    await delay(500);
+    if (isTwoFactorRequired(email)) {
+      throw new Error('Two-factor authentication is required for your role and cannot be turned off');
     }
+    await verifySecondFactor(email, code);
+    delete twoFactorStore.enrolled[email];
+    persistTwoFactor();
+  },
+
+  async regenerateRecoveryCodes(email: string, code: string): Promise<TwoFactorEnrollment> {
+    await delay(500);
+    await verifySecondFactor(email, code);
+    const recoveryCodes = generateRecoveryCodes();
+    twoFactorStore.enrolled[email].recoveryCodes = recoveryCodes;
+    persistTwoFactor();
+    return { recoveryCodes };
+  },
+
+  async getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+    await delay(300);
+    return { requiredRoles: [...twoFactorStore.requiredRoles] };
+  },
+
+  // Applies from each user's next sign-in, when those without 2FA are asked to enroll
+  async updateTwoFactorPolicy(policy: TwoFactorPolicy): Promise<TwoFactorPolicy> {
+    await delay(300);
+    twoFactorStore.requiredRoles = [...new Set(policy.requiredRoles)];
+    persistTwoFactor();
+    return { requiredRoles: [...twoFactorStore.requiredRoles] };
+  },
+
+  // Users
+  async getUsers(
+    page: number,
+    pageSize: number,
+    search: string,
+    sort: SortConfig[] = [],
+    filters: FilterConfig[] = []
+  ): Promise<PaginatedResponse<User>> {
+    await delay(500);
+
+    const filtered = sortRows(queryUsers(search, filters), sort, (u) => u.id, userFieldAccessors);
 
     const start = (page - 1) * pageSize;
     const end = start + pageSize;
-    const data = filtered.slice(start, end);
+    const data = filtered.slice(start, end).map(withLockState);
 
     return {
       data,
@@ -167,11 +1151,12 @@ export const mockApi = {
     await delay(300);
     const user = mockUsers.find((u) => u.id === id);
     if (!user) throw new Error('User not found');
-    return user;
+    return withLockState(user);
   },
 
-  async createUser(userData: Partial<User>): Promise<User> {
+  async createUser(userData: Partial<User>, actor: User): Promise<User> {
     await delay(500);
+    assertRoleExists(userData.role);
     const newUser: User = {
       id: `user-${Date.now()}`,
       email: userData.email || '',
@@ -184,45 +1169,167 @@ export const mockApi = {
       isActive: true,
     };
     mockUsers = [newUser, ...mockUsers];
+    recordActivity(actor, 'user', null, newUser);
     return newUser;
   },
 
-  async updateUser(id: string, userData: Partial<User>): Promise<User> {
+  async updateUser(id: string, userData: Partial<User>, actor: User): Promise<User> {
     await delay(500);
     const index = mockUsers.findIndex((u) => u.id === id);
     if (index === -1) throw new Error('User not found');
-    
+    assertRoleExists(userData.role);
+
+    const before = mockUsers[index];
     mockUsers[index] = {
-      ...mockUsers[index],
+      ...before,
       ...userData,
+      id: before.id,
+      createdAt: before.createdAt,
       updatedAt: new Date().toISOString(),
     };
-    return mockUsers[index];
+    recordActivity(actor, 'user', before, mockUsers[index]);
+    return withLockState(mockUsers[index]);
   },
 
-  async deleteUser(id: string): Promise<void> {
+  async deleteUser(id: string, actor: User): Promise<void> {
     await delay(500);
+    const user = mockUsers.find((u) => u.id === id);
     mockUsers = mockUsers.filter((u) => u.id !== id);
+    if (user) recordActivity(actor, 'user', user, null);
   },
 
-  // Products
-  async getProducts(page: number, pageSize: number, search: string, category: string): Promise<PaginatedResponse<Product>> {
-    await delay(500);
+  // Lifts a lockout early and forgets the account's failed attempts
+  async unlockUser(id: string): Promise<User> {
+    await delay(300);
+    const user = mockUsers.find((u) => u.id === id);
+    if (!user) throw new Error('User not found');
+    clearAttempts(user.email.toLowerCase());
+    return withLockState(user);
+  },
+
+  // `canChange` leaves out selected users the caller may not change
+  async bulkUpdateUsers(
+    selection: BulkSelection,
+    changes: Partial<Pick<User, 'role' | 'isActive'>>,
+    actor: User,
+    canChange: (user: User) => boolean = () => true
+  ): Promise<BulkActionResult> {
+    await delay(800);
+    assertRoleExists(changes.role);
+    // Selecting every matching user would otherwise let the caller deactivate or demote themselves
+    const selected = resolveSelection(selection, queryUsers);
+    const skippedSelf = selected.delete(actor.id);
+    const { ids, skipped } = partitionSelection(selected, mockUsers, canChange);
+    const updatedAt = new Date().toISOString();
+    mockUsers = mockUsers.map((u) => {
+      if (!ids.has(u.id)) return u;
+      const updated = { ...u, ...changes, updatedAt };
+      recordActivity(actor, 'user', u, updated);
+      return updated;
+    });
+    return { ids: [...ids], skipped, skippedSelf };
+  },
+
+  // Roles
+  async getRoles(): Promise<Role[]> {
+    await delay(300);
+    return roles;
+  },
 
-    let filtered = mockProducts;
-    if (search) {
-      const searchLower = search.toLowerCase();
-      filtered = filtered.filter(
-        (p) =>
-          p.name.toLowerCase().includes(searchLower) ||
-          p.sku.toLowerCase().includes(searchLower) ||
-          p.description.toLowerCase().includes(searchLower)
-      );
+  async createRole(input: RoleInput, actor: User): Promise<Role> {
+    await delay(400);
+    const name = validateRoleInput(input);
+    const now = new Date().toISOString();
+    const role: Role = {
+      id: createRoleId(name),
+      name,
+      description: input.description?.trim() ?? '',
+      permissions: normalizePermissions(input.permissions),
+      isSystem: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    roles = [...roles, role];
+    persistRoles();
+    recordActivity(actor, 'role', null, role);
+    return role;
+  },
+
+  async updateRole(id: string, input: Partial<RoleInput>, actor: User): Promise<Role> {
+    await delay(400);
+    const role = roles.find((r) => r.id === id);
+    if (!role) throw new Error('Role not found');
+    const name = input.name === undefined ? role.name : validateRoleInput(input, id);
+    if (role.isSystem && name !== role.name) throw new Error('Built-in roles cannot be renamed');
+    const permissions = input.permissions ? normalizePermissions(input.permissions) : role.permissions;
+    // Someone must always be able to manage roles, so the admin role keeps everything
+    if (id === 'admin' && permissions.length !== PERMISSIONS.length) {
+      throw new Error('The Admin role always has every permission');
     }
-    if (category) {
-      filtered = filtered.filter((p) => p.category === category);
+
+    const updated: Role = {
+      ...role,
+      name,
+      description: input.description?.trim() ?? role.description,
+      permissions,
+      updatedAt: new Date().toISOString(),
+    };
+    roles = roles.map((r) => (r.id === id ? updated : r));
+    persistRoles();
+    recordActivity(actor, 'role', role, updated);
+    return updated;
+  },
+
+  // Changes nothing: lists the users each proposed permission set would affect
+  async previewRoleChanges(changes: RolePermissionChange[]): Promise<RoleImpact[]> {
+    await delay(300);
+    return changes.flatMap(({ roleId, permissions }) => {
+      const role = roles.find((r) => r.id === roleId);
+      if (!role) throw new Error('Role not found');
+      const { granted, revoked } = diffPermissions(role.permissions, normalizePermissions(permissions));
+      if (granted.length === 0 && revoked.length === 0) return [];
+      const assigned = mockUsers.filter((u) => u.role === roleId);
+      const users = assigned
+        .slice(0, ROLE_IMPACT_SAMPLE_SIZE)
+        .map(({ id, firstName, lastName, email, isActive }) => ({ id, firstName, lastName, email, isActive }));
+      return [{ roleId, granted, revoked, userCount: assigned.length, users }];
+    });
+  },
+
+  async deleteRole(id: string, actor: User): Promise<void> {
+    await delay(400);
+    const role = roles.find((r) => r.id === id);
+    if (!role) throw new Error('Role not found');
+    if (role.isSystem) throw new Error('Built-in roles cannot be deleted');
+    const assigned = mockUsers.filter((u) => u.role === id).length;
+    if (assigned > 0) {
+      throw new Error(`${assigned} user${assigned === 1 ? ' is' : 's are'} still assigned to this role`);
     }
 
+    roles = roles.filter((r) => r.id !== id);
+    persistRoles();
+    recordActivity(actor, 'role', role, null);
+    // Drop references that would otherwise point at a role that no longer exists
+    twoFactorStore.requiredRoles = twoFactorStore.requiredRoles.filter((r) => r !== id);
+    persistTwoFactor();
+    savedViewsStore.views.forEach((view) => {
+      view.sharedWithRoles = view.sharedWithRoles.filter((r) => r !== id);
+    });
+    persistSavedViews();
+  },
+
+  // Products
+  async getProducts(
+    page: number,
+    pageSize: number,
+    search: string,
+    sort: SortConfig[] = [],
+    filters: FilterConfig[] = []
+  ): Promise<PaginatedResponse<Product>> {
+    await delay(500);
+
+    const filtered = sortRows(queryProducts(search, filters), sort, (p) => p.id, productFieldAccessors);
+
     const start = (page - 1) * pageSize;
     const end = start + pageSize;
     const data = filtered.slice(start, end);
@@ -238,6 +1345,26 @@ export const mockApi = {
     };
   },
 
+  // Where a product sits in the list getProducts returns for the same query, for stepping
+  // through it one record at a time
+  async getProductPosition(
+    id: string,
+    search: string,
+    sort: SortConfig[] = [],
+    filters: FilterConfig[] = []
+  ): Promise<ListPosition> {
+    await delay(200);
+    const ids = sortRows(queryProducts(search, filters), sort, (p) => p.id, productFieldAccessors).map((p) => p.id);
+    const index = ids.indexOf(id);
+    if (index === -1) return { position: null, total: ids.length, previousId: null, nextId: null };
+    return {
+      position: index + 1,
+      total: ids.length,
+      previousId: ids[index - 1] ?? null,
+      nextId: ids[index + 1] ?? null,
+    };
+  },
+
   async getProductById(id: string): Promise<Product> {
     await delay(300);
     const product = mockProducts.find((p) => p.id === id);
@@ -245,7 +1372,7 @@ export const mockApi = {
     return product;
   },
 
-  async createProduct(productData: Partial<Product>): Promise<Product> {
+  async createProduct(productData: Partial<Product>, actor: User): Promise<Product> {
     await delay(500);
     const newProduct: Product = {
       id: `prod-${Date.now()}`,
@@ -254,31 +1381,247 @@ export const mockApi = {
       description: productData.description || '',
       category: productData.category || 'General',
       price: productData.price || 0,
+      cost: productData.cost,
       stock: productData.stock || 0,
       status: productData.status || 'active',
+      createdBy: actor.id,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
     mockProducts = [newProduct, ...mockProducts];
+    recordActivity(actor, 'product', null, newProduct);
     return newProduct;
   },
 
-  async updateProduct(id: string, productData: Partial<Product>): Promise<Product> {
+  async updateProduct(id: string, productData: Partial<Product>, actor: User): Promise<Product> {
     await delay(500);
     const index = mockProducts.findIndex((p) => p.id === id);
     if (index === -1) throw new Error('Product not found');
     
+    const before = mockProducts[index];
     mockProducts[index] = {
-      ...mockProducts[index],
+      ...before,
       ...productData,
+      id: before.id,
+      sku: before.sku,
+      createdBy: before.createdBy,
+      createdAt: before.createdAt,
       updatedAt: new Date().toISOString(),
     };
+    recordActivity(actor, 'product', before, mockProducts[index]);
     return mockProducts[index];
   },
 
-  async deleteProduct(id: string): Promise<void> {
+  async deleteProduct(id: string, actor: User): Promise<void> {
     await delay(500);
+    const product = mockProducts.find((p) => p.id === id);
     mockProducts = mockProducts.filter((p) => p.id !== id);
+    if (product) recordActivity(actor, 'product', product, null);
+  },
+
+  async bulkCreateProducts(productsData: Partial<Product>[], actor: User): Promise<BulkCreateResult<Product>> {
+    await delay(600);
+    const existingSkus = new Set(mockProducts.map((p) => p.sku.toLowerCase()));
+    const created: Product[] = [];
+    const rejected: BulkCreateResult<Product>['rejected'] = [];
+    const now = new Date().toISOString();
+
+    productsData.forEach((data, index) => {
+      const sku = data.sku?.trim();
+      if (!sku) {
+        rejected.push({ index, error: 'SKU is required' });
+        return;
+      }
+      if (existingSkus.has(sku.toLowerCase())) {
+        rejected.push({ index, error: `SKU ${sku} already exists` });
+        return;
+      }
+      existingSkus.add(sku.toLowerCase());
+      created.push({
+        id: `prod-${Date.now()}-${index}`,
+        sku,
+        name: data.name || '',
+        description: data.description || '',
+        category: data.category || 'General',
+        price: data.price || 0,
+        cost: data.cost,
+        stock: data.stock || 0,
+        status: data.status || 'active',
+        createdBy: actor.id,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+
+    mockProducts = [...created, ...mockProducts];
+    created.forEach((product) => recordActivity(actor, 'product', null, product));
+    return { created, rejected };
+  },
+
+  // Returns the subset of `skus` already used by a product (case-insensitive)
+  async findExistingSkus(skus: string[]): Promise<string[]> {
+    await delay(300);
+    const existing = new Set(mockProducts.map((p) => p.sku.toLowerCase()));
+    return skus.filter((sku) => existing.has(sku.toLowerCase()));
+  },
+
+  async bulkUpdateProducts(
+    selection: BulkSelection,
+    changes: Partial<Pick<Product, 'status' | 'category'>>,
+    actor: User,
+    canChange: (product: Product) => boolean = () => true
+  ): Promise<BulkActionResult> {
+    await delay(800);
+    const { ids, skipped } = partitionSelection(resolveSelection(selection, queryProducts), mockProducts, canChange);
+    const updatedAt = new Date().toISOString();
+    mockProducts = mockProducts.map((p) => {
+      if (!ids.has(p.id)) return p;
+      const updated = { ...p, ...changes, updatedAt };
+      recordActivity(actor, 'product', p, updated);
+      return updated;
+    });
+    return { ids: [...ids], skipped };
+  },
+
+  async bulkDeleteProducts(
+    selection: BulkSelection,
+    actor: User,
+    canDelete: (product: Product) => boolean = () => true
+  ): Promise<BulkActionResult> {
+    await delay(800);
+    const { ids, skipped } = partitionSelection(resolveSelection(selection, queryProducts), mockProducts, canDelete);
+    mockProducts = mockProducts.filter((p) => {
+      if (!ids.has(p.id)) return true;
+      recordActivity(actor, 'product', p, null);
+      return false;
+    });
+    return { ids: [...ids], skipped };
+  },
+
+  // Activity. `isVisible` leaves out entries the caller may not see.
+  async getActivity(
+    { page, pageSize, userId, entity, entityId, action, from, to }: ActivityQuery,
+    isVisible: (entry: ActivityLog) => boolean = () => true
+  ): Promise<PaginatedResponse<ActivityLog>> {
+    await delay(300);
+    const filtered = activityLog.filter(
+      (entry) =>
+        (!userId || entry.userId === userId) &&
+        (!entity || entry.entity === entity) &&
+        (!entityId || entry.entityId === entityId) &&
+        (!action || entry.action === action) &&
+        (!from || entry.createdAt >= from) &&
+        (!to || entry.createdAt <= to) &&
+        isVisible(entry)
+    );
+    const start = (page - 1) * pageSize;
+    return {
+      data: filtered.slice(start, start + pageSize),
+      pagination: {
+        page,
+        pageSize,
+        total: filtered.length,
+        totalPages: Math.ceil(filtered.length / pageSize),
+      },
+    };
+  },
+
+  // Everyone with an entry, for filtering by user
+  async getActivityActors(isVisible: (entry: ActivityLog) => boolean = () => true): Promise<ActivityActor[]> {
+    await delay(200);
+    const actors = new Map<string, string>();
+    activityLog.forEach((entry) => {
+      if (!actors.has(entry.userId) && isVisible(entry)) actors.set(entry.userId, entry.userName);
+    });
+    return [...actors].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  // The changes that put a record back the way it was right after `entryId`, found by undoing
+  // every later change to it
+  async getRestoreChanges(entity: HistoryEntity, entityId: string, entryId: string): Promise<Record<string, unknown>> {
+    await delay(200);
+    const index = activityLog.findIndex((e) => e.id === entryId && e.entity === entity && e.entityId === entityId);
+    if (index === -1) throw new Error('Version not found');
+    if (activityLog[index].action === 'delete') throw new Error('A deleted record has no version to restore');
+    const records: { id: string }[] = entity === 'user' ? mockUsers : mockProducts;
+    const current = records.find((r) => r.id === entityId);
+    if (!current) throw new Error(`${activityEntityLabels[entity]} not found`);
+
+    const version: Record<string, unknown> = { ...current };
+    // Newest first, so each field ends up with its value from just after the entry
+    activityLog
+      .slice(0, index)
+      .filter((e) => e.entity === entity && e.entityId === entityId)
+      .forEach((e) => e.changes.forEach((change) => (version[change.field] = change.before)));
+    return Object.fromEntries(diffRecords(current, version).map((change) => [change.field, change.after]));
+  },
+
+  // Saved Views
+  async getSavedViews(tableId: TableId, user: Pick<User, 'id' | 'role'>): Promise<SavedView[]> {
+    await delay(300);
+    return savedViewsStore.views
+      .filter((v) => v.tableId === tableId && isViewVisibleTo(v, user))
+      .map((v) => toSavedView(v, user.id));
+  },
+
+  async createSavedView(input: SavedViewInput, owner: User): Promise<SavedView> {
+    await delay(300);
+    if (!input.name.trim()) throw new Error('View name is required');
+
+    const view: Omit<SavedView, 'isDefault'> = {
+      ...input,
+      name: input.name.trim(),
+      id: `view-${Date.now()}`,
+      ownerId: owner.id,
+      ownerName: `${owner.firstName} ${owner.lastName}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    savedViewsStore.views = [...savedViewsStore.views, view];
+    persistSavedViews();
+    return toSavedView(view, owner.id);
+  },
+
+  async updateSavedView(
+    id: string,
+    userId: string,
+    data: Partial<Pick<SavedView, 'name' | 'state' | 'columns' | 'sharedWithRoles'>>
+  ): Promise<SavedView> {
+    await delay(300);
+    const view = findOwnedView(id, userId);
+    if (data.name !== undefined && !data.name.trim()) throw new Error('View name is required');
+
+    const updated = { ...view, ...data, updatedAt: new Date().toISOString() };
+    savedViewsStore.views = savedViewsStore.views.map((v) => (v.id === id ? updated : v));
+    persistSavedViews();
+    return toSavedView(updated, userId);
+  },
+
+  async deleteSavedView(id: string, userId: string): Promise<void> {
+    await delay(300);
+    findOwnedView(id, userId);
+    savedViewsStore.views = savedViewsStore.views.filter((v) => v.id !== id);
+    savedViewsStore.defaults = Object.fromEntries(
+      Object.entries(savedViewsStore.defaults).filter(([, viewId]) => viewId !== id)
+    );
+    persistSavedViews();
+  },
+
+  // Only a view the user can see, for the same table, may become their default; `null` clears it
+  async setDefaultSavedView(tableId: TableId, user: Pick<User, 'id' | 'role'>, viewId: string | null): Promise<void> {
+    await delay(300);
+    const key = `${user.id}:${tableId}`;
+    const isVisible = (v: Omit<SavedView, 'isDefault'>) =>
+      v.id === viewId && v.tableId === tableId && isViewVisibleTo(v, user);
+    if (viewId && !savedViewsStore.views.some(isVisible)) {
+      throw new Error('View not found');
+    }
+    if (viewId) {
+      savedViewsStore.defaults[key] = viewId;
+    } else {
+      delete savedViewsStore.defaults[key];
+    }
+    persistSavedViews();
   },
 
   // Dashboard
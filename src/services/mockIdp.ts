@@ -0,0 +1,219 @@
+// ============================================
+// Mock Identity Provider
+// Local OpenID Connect provider so single sign-on works offline
+// ============================================
+
+import { config } from '@/config';
+import { base64UrlEncode, createCodeChallenge } from '@/lib/oidc';
+import type { OidcClaims } from '@/types';
+
+export interface MockIdpAccount {
+  sub: string;
+  email: string;
+  givenName: string;
+  familyName: string;
+  groups: string[];
+}
+
+// The directory the mock IdP signs in against. The contractor is in no mapped group, to show a
+// user the portal refuses; the admin shares an email with the demo account to show linking.
+export const mockIdpAccounts: MockIdpAccount[] = [
+  { sub: 'idp-1001', email: 'admin@enterprise.com', givenName: 'Admin', familyName: 'User', groups: ['portal-admins', 'staff'] },
+  { sub: 'idp-1002', email: 'olivia.chen@enterprise.com', givenName: 'Olivia', familyName: 'Chen', groups: ['portal-managers', 'staff'] },
+  { sub: 'idp-1003', email: 'sam.patel@enterprise.com', givenName: 'Sam', familyName: 'Patel', groups: ['portal-users', 'staff'] },
+  { sub: 'idp-1004', email: 'alex.rivera@contractor.example', givenName: 'Alex', familyName: 'Rivera', groups: ['contractors'] },
+];
+
+const CODES_STORAGE_KEY = 'mock_idp_codes';
+const CODE_TTL = 60; // seconds to redeem an authorization code
+const ID_TOKEN_TTL = 300;
+
+// Redirect URIs must match exactly; anything else could leak the code to another site
+const getRegisteredRedirectUris = (clientId: string): string[] =>
+  clientId === config.oidc.clientId ? [`${window.location.origin}${config.oidc.redirectPath}`] : [];
+
+export interface AuthorizeRequest {
+  clientId: string;
+  redirectUri: string;
+  responseType: string;
+  scope: string[];
+  state: string | null;
+  nonce: string | null;
+  codeChallenge: string | null;
+  codeChallengeMethod: string | null;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  sub: string;
+  expiresAt: number;
+}
+
+export interface TokenRequest {
+  grantType: string;
+  code: string;
+  redirectUri: string;
+  clientId: string;
+  codeVerifier: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  id_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+}
+
+// OAuth error codes (RFC 6749 §5.2) with a readable description
+export class OidcError extends Error {
+  constructor(
+    public error: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+// The IdP's codes are persisted because the browser leaves the app and comes back between
+// issuing and redeeming one
+const loadCodes = (): Record<string, IssuedCode> => {
+  try {
+    const stored = localStorage.getItem(CODES_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as Record<string, IssuedCode>;
+  } catch {
+    // Corrupt storage falls through to no codes
+  }
+  return {};
+};
+
+const persistCodes = (codes: Record<string, IssuedCode>) => {
+  localStorage.setItem(CODES_STORAGE_KEY, JSON.stringify(codes));
+};
+
+const withParams = (url: string, params: Record<string, string | null>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== null) search.set(key, value);
+  });
+  return `${url}?${search.toString()}`;
+};
+
+// Unsigned ("alg": "none"). The token only ever travels from the token endpoint to the backend,
+// which OpenID Connect Core §3.1.3.7 allows to trust over TLS without a signature.
+const encodeIdToken = (claims: OidcClaims) =>
+  `${base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}.`;
+
+export const mockIdp = {
+  /**
+   * Parses an authorization request. Throws when the client or redirect URI is unknown, since
+   * then the error must be shown here rather than sent back; other problems are reported to the
+   * client by `authorize`.
+   */
+  parseAuthorizeRequest(params: URLSearchParams): AuthorizeRequest {
+    const clientId = params.get('client_id') ?? '';
+    const redirectUri = params.get('redirect_uri') ?? '';
+    if (getRegisteredRedirectUris(clientId).length === 0) {
+      throw new OidcError('invalid_client', `Unknown application "${clientId}".`);
+    }
+    if (!getRegisteredRedirectUris(clientId).includes(redirectUri)) {
+      throw new OidcError('invalid_request', 'The redirect URI is not registered for this application.');
+    }
+    return {
+      clientId,
+      redirectUri,
+      responseType: params.get('response_type') ?? '',
+      scope: (params.get('scope') ?? '').split(' ').filter(Boolean),
+      state: params.get('state'),
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge'),
+      codeChallengeMethod: params.get('code_challenge_method'),
+    };
+  },
+
+  // Where to send the browser when the user cancels or the request is invalid
+  errorRedirect(request: AuthorizeRequest, error: string, description?: string): string {
+    return withParams(request.redirectUri, { error, error_description: description ?? null, state: request.state });
+  },
+
+  // Signs the chosen account in and returns the redirect back to the client with a code
+  authorize(request: AuthorizeRequest, sub: string): string {
+    if (request.responseType !== 'code') {
+      return this.errorRedirect(request, 'unsupported_response_type', 'Only the authorization code flow is supported.');
+    }
+    if (!request.scope.includes('openid')) {
+      return this.errorRedirect(request, 'invalid_scope', 'The "openid" scope is required.');
+    }
+    // Public clients must use PKCE, and only with the S256 method
+    if (!request.codeChallenge || request.codeChallengeMethod !== 'S256') {
+      return this.errorRedirect(request, 'invalid_request', 'PKCE with code_challenge_method=S256 is required.');
+    }
+    const account = mockIdpAccounts.find((a) => a.sub === sub);
+    if (!account) return this.errorRedirect(request, 'access_denied');
+
+    const code = base64UrlEncode(crypto.getRandomValues(new Uint8Array(24)));
+    const now = Date.now();
+    const codes = loadCodes();
+    // Drop codes that were never redeemed
+    Object.keys(codes).forEach((key) => {
+      if (codes[key].expiresAt <= now) delete codes[key];
+    });
+    codes[code] = {
+      clientId: request.clientId,
+      redirectUri: request.redirectUri,
+      codeChallenge: request.codeChallenge,
+      nonce: request.nonce,
+      sub,
+      expiresAt: now + CODE_TTL * 1000,
+    };
+    persistCodes(codes);
+    return withParams(request.redirectUri, { code, state: request.state });
+  },
+
+  // Token endpoint: redeems a code once, proving with the PKCE verifier who requested it
+  async token({ grantType, code, redirectUri, clientId, codeVerifier }: TokenRequest): Promise<TokenResponse> {
+    if (grantType !== 'authorization_code') throw new OidcError('unsupported_grant_type', 'Unsupported grant type');
+
+    const codes = loadCodes();
+    const issued = codes[code];
+    delete codes[code];
+    persistCodes(codes);
+
+    if (!issued || issued.expiresAt <= Date.now()) {
+      throw new OidcError('invalid_grant', 'The authorization code is invalid or has expired');
+    }
+    if (issued.clientId !== clientId || issued.redirectUri !== redirectUri) {
+      throw new OidcError('invalid_grant', 'The authorization code was issued to another client');
+    }
+    if ((await createCodeChallenge(codeVerifier)) !== issued.codeChallenge) {
+      throw new OidcError('invalid_grant', 'The code verifier does not match the code challenge');
+    }
+
+    const account = mockIdpAccounts.find((a) => a.sub === issued.sub);
+    if (!account) throw new OidcError('invalid_grant', 'The account no longer exists');
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const idToken = encodeIdToken({
+      iss: config.oidc.issuer,
+      sub: account.sub,
+      aud: clientId,
+      iat: issuedAt,
+      exp: issuedAt + ID_TOKEN_TTL,
+      ...(issued.nonce ? { nonce: issued.nonce } : {}),
+      email: account.email,
+      email_verified: true,
+      given_name: account.givenName,
+      family_name: account.familyName,
+      groups: account.groups,
+    });
+    return {
+      access_token: base64UrlEncode(crypto.getRandomValues(new Uint8Array(24))),
+      id_token: idToken,
+      token_type: 'Bearer',
+      expires_in: ID_TOKEN_TTL,
+    };
+  },
+};
@@ -0,0 +1,606 @@
+// ============================================
+// Mock Server
+// Serves /api routes from the mock backend so RTK Query runs over real requests
+// ============================================
+
+import { config } from '@/config';
+import { mockApi, getSessionUser, recordImpersonationEvent, LoginAttemptError } from '@/services/mockApi';
+import { parseFilters, parseSort } from '@/lib/tableQuery';
+import { canReadField, findDenyingRule, getUnwritableChanges, redactRecord, type AccessRecords } from '@/lib/accessPolicy';
+import { activityResources } from '@/lib/activity';
+import type {
+  AccessAction,
+  AccessResource,
+  ActivityAction,
+  ActivityEntity,
+  ActivityLog,
+  ApiError,
+  HistoryEntity,
+  BulkSelection,
+  Impersonation,
+  ImpersonationRequest,
+  LoginCredentials,
+  LoginErrorCode,
+  OidcCodeExchange,
+  PasswordChangeRequest,
+  Permission,
+  Product,
+  RoleInput,
+  RolePermissionChange,
+  SavedView,
+  SavedViewInput,
+  TableId,
+  TwoFactorPolicy,
+  User,
+} from '@/types';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  headers: Headers;
+  token: string | null;
+  // Resolved from the bearer token; always set for routes that require auth
+  user: User | null;
+}
+
+type MockHandler = (request: MockRequest) => Promise<unknown>;
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+  isPublic: boolean;
+}
+
+// Thrown by handlers to respond with a specific status; plain errors become 400s
+export class MockHttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public extra?: Pick<ApiError, 'retryAfter' | 'attemptsRemaining'>
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+// Compiles an express-style path ('/users/:id') into a matcher
+const route = (method: HttpMethod, path: string, handler: MockHandler, isPublic = false): MockRoute => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}$`), keys, handler, isPublic };
+};
+
+// Mirrors the mock backend's messages onto the status codes a real API would use
+const notFoundOr = <T>(promise: Promise<T>): Promise<T> =>
+  promise.catch((error: Error) => {
+    if (/not found/i.test(error.message)) throw new MockHttpError(404, 'NOT_FOUND', error.message);
+    throw error;
+  });
+
+const requirePermission = (user: User | null, permission: Permission) => {
+  if (!user?.permissions?.includes(permission)) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'You do not have permission to perform this action');
+  }
+};
+
+// Attribute rules for acting on one stored record
+const requireRecordAccess = <K extends AccessResource>(user: User, resource: K, action: AccessAction, record: AccessRecords[K]) => {
+  const rule = findDenyingRule(user, resource, action, record);
+  if (rule) throw new MockHttpError(403, 'FORBIDDEN', rule.description);
+};
+
+// A create (`before` null) or update must be allowed on the record as it is and as it would
+// be, so a change cannot move a record out of the caller's reach; every changed field must be
+// writable too
+const requireWriteAccess = <K extends AccessResource>(
+  user: User,
+  resource: K,
+  before: AccessRecords[K] | null,
+  changes: AccessRecords[K]
+) => {
+  if (before) requireRecordAccess(user, resource, 'write', before);
+  requireRecordAccess(user, resource, 'write', { ...before, ...changes });
+  const fields = getUnwritableChanges(user, resource, before ?? {}, changes);
+  if (fields.length > 0) {
+    throw new MockHttpError(403, 'FORBIDDEN', `You do not have permission to change ${fields.join(', ')}`);
+  }
+};
+
+// What a client may set on a record. Ids, SKUs, ownership and timestamps are the server's, so a
+// body cannot move a record into the caller's reach by claiming it.
+const editableFields: { [K in AccessResource]: (keyof AccessRecords[K] & string)[] } = {
+  users: ['email', 'firstName', 'lastName', 'role', 'department', 'isActive'],
+  products: ['name', 'description', 'category', 'price', 'cost', 'stock', 'status'],
+};
+
+const pickEditable = <K extends AccessResource>(
+  resource: K,
+  body: unknown,
+  extraFields: string[] = []
+): AccessRecords[K] => {
+  const fields = new Set<string>([...editableFields[resource], ...extraFields]);
+  return Object.fromEntries(
+    Object.entries((body ?? {}) as Record<string, unknown>).filter(([field]) => fields.has(field))
+  ) as AccessRecords[K];
+};
+
+// Bulk actions set only these fields. Anything else in the request is refused rather than
+// merged into every matching record, and the fields must be writable as in a single update.
+const bulkEditableFields: { [K in AccessResource]: (keyof AccessRecords[K] & string)[] } = {
+  users: ['role', 'isActive'],
+  products: ['status', 'category'],
+};
+
+const requireBulkChanges = <K extends AccessResource>(user: User, resource: K, body: unknown): AccessRecords[K] => {
+  const changes = (body ?? {}) as AccessRecords[K];
+  const allowed = new Set<string>(bulkEditableFields[resource]);
+  const invalid = Object.keys(changes).filter((field) => !allowed.has(field));
+  if (invalid.length > 0) {
+    throw new MockHttpError(400, 'BAD_REQUEST', `${invalid.join(', ')} cannot be changed in bulk`);
+  }
+  const fields = getUnwritableChanges(user, resource, {}, changes);
+  if (fields.length > 0) {
+    throw new MockHttpError(403, 'FORBIDDEN', `You do not have permission to change ${fields.join(', ')}`);
+  }
+  return changes;
+};
+
+// Whether a bulk change may touch a record, judged like a single update
+const canBulkChange =
+  <K extends AccessResource>(user: User, resource: K, action: AccessAction, changes: AccessRecords[K] = {}) =>
+  (record: AccessRecords[K]) =>
+    !findDenyingRule(user, resource, action, record) && !findDenyingRule(user, resource, action, { ...record, ...changes });
+
+const redactProduct = (user: User | null) => (product: Product) => redactRecord(user!, 'products', product);
+
+// Activity is visible for the entities the caller can read, without fields they cannot read
+const activityReadPermissions: Record<ActivityEntity, Permission> = {
+  user: 'users:read',
+  product: 'products:read',
+  role: 'roles:read',
+};
+
+const canSeeActivity = (user: User) => (entry: ActivityLog) => !!user.permissions?.includes(activityReadPermissions[entry.entity]);
+
+const redactActivity = (user: User) => (entry: ActivityLog): ActivityLog => {
+  const resource = activityResources[entry.entity];
+  if (!resource) return entry;
+  return { ...entry, changes: entry.changes.filter((change) => canReadField(user, resource, change.field)) };
+};
+
+// A record's own history comes with reading the record, without needing the full activity log
+const getRecordHistory = async (user: User, entity: HistoryEntity, entityId: string, query: URLSearchParams) => {
+  const page = await mockApi.getActivity({
+    page: Number(query.get('page')) || 1,
+    pageSize: Number(query.get('pageSize')) || config.paginationDefaults.pageSize,
+    entity,
+    entityId,
+  });
+  return { ...page, data: page.data.map(redactActivity(user)) };
+};
+
+// Fields the caller cannot read are left out of their history, so restoring leaves them as they are
+const getRestoreChanges = async (user: User, entity: HistoryEntity, entityId: string, entryId: string) => {
+  const resource = activityResources[entity]!;
+  const changes = await notFoundOr(mockApi.getRestoreChanges(entity, entityId, entryId));
+  const visible = Object.fromEntries(Object.entries(changes).filter(([field]) => canReadField(user, resource, field)));
+  if (Object.keys(visible).length === 0) {
+    throw new MockHttpError(409, 'NO_CHANGES', 'The record already matches this version');
+  }
+  return visible;
+};
+
+const loginErrorStatus: Record<LoginErrorCode, number> = {
+  INVALID_CREDENTIALS: 401,
+  ACCOUNT_INACTIVE: 403,
+  ACCOUNT_LOCKED: 423,
+  TOO_MANY_ATTEMPTS: 429,
+  SSO_FAILED: 400,
+};
+
+// Refused sign-ins keep their code, with the retry hints in the error body
+const loginErrorOr = <T>(promise: Promise<T>, invalidStatus = loginErrorStatus.INVALID_CREDENTIALS): Promise<T> =>
+  promise.catch((error: Error) => {
+    if (!(error instanceof LoginAttemptError)) throw error;
+    const { code, message, retryAfter, attemptsRemaining } = error;
+    const status = code === 'INVALID_CREDENTIALS' ? invalidStatus : loginErrorStatus[code];
+    throw new MockHttpError(status, code, message, { retryAfter, attemptsRemaining });
+  });
+
+// Changes made while viewing as another user are audited, except ending the session (which
+// records its own event), signing in again from the lock screen (which ends it) and token upkeep
+const unauditedPaths = ['/auth/refresh', '/auth/logout', '/auth/impersonate/stop', '/auth/login', '/auth/2fa/verify'];
+
+// Why a change is refused while impersonating: deleting unless the session allows it, and the
+// user's own sign-in settings always
+const getImpersonationRestriction = (method: HttpMethod, path: string, impersonation: Impersonation): string | null => {
+  if (path.startsWith('/auth/password') || path.startsWith('/auth/2fa')) {
+    return 'Sign-in settings cannot be changed while viewing as another user';
+  }
+  if (!impersonation.allowDestructive && (method === 'DELETE' || path.endsWith('/bulk-delete'))) {
+    return 'Deleting is disabled while viewing as another user';
+  }
+  return null;
+};
+
+// Sorting or filtering on a field the caller cannot read would give its values away through
+// the order and count of the rows, so those keys are dropped
+const isReadableKey = (user: User, resource: AccessResource) => ({ field }: { field: string }) =>
+  canReadField(user, resource, field);
+
+const tableQuery = (query: URLSearchParams, user: User, resource: AccessResource) =>
+  [
+    Number(query.get('page')) || 1,
+    Number(query.get('pageSize')) || config.paginationDefaults.pageSize,
+    query.get('search') ?? '',
+    parseSort(query.get('sort')).filter(isReadableKey(user, resource)),
+    parseFilters(query.get('filters')).filter(isReadableKey(user, resource)),
+  ] as const;
+
+const readableSelection = (user: User, resource: AccessResource, selection: BulkSelection): BulkSelection =>
+  selection.type === 'query'
+    ? { ...selection, filters: selection.filters.filter(isReadableKey(user, resource)) }
+    : selection;
+
+const routes: MockRoute[] = [
+  // Auth
+  route(
+    'POST',
+    '/auth/login',
+    ({ body, headers }) => {
+      const { email, password } = body as LoginCredentials;
+      return loginErrorOr(mockApi.login(email, password, headers.get('X-Client-Id')));
+    },
+    true
+  ),
+  route('POST', '/auth/oidc', ({ body }) => loginErrorOr(mockApi.loginWithOidc(body as OidcCodeExchange)), true),
+  route(
+    'POST',
+    '/auth/refresh',
+    ({ body }) =>
+      mockApi.refreshToken((body as { refreshToken: string }).refreshToken).catch((error: Error) => {
+        throw new MockHttpError(401, 'INVALID_REFRESH_TOKEN', error.message);
+      }),
+    true
+  ),
+  route('GET', '/auth/me', ({ token }) =>
+    mockApi.getCurrentUser(token ?? '').catch((error: Error) => {
+      throw new MockHttpError(401, 'UNAUTHORIZED', error.message);
+    })
+  ),
+  route('POST', '/auth/logout', ({ token }) => mockApi.logout(token ?? '')),
+  // Viewing the app as another user; the responses replace the caller's session
+  route('POST', '/auth/impersonate', ({ body, token, user }) => {
+    requirePermission(user, 'users:impersonate');
+    return notFoundOr(mockApi.startImpersonation(user!, token!, body as ImpersonationRequest));
+  }),
+  route('POST', '/auth/impersonate/stop', ({ token }) => mockApi.stopImpersonation(token!)),
+  route('GET', '/audit/impersonation', ({ query, user }) => {
+    requirePermission(user, 'users:impersonate');
+    return mockApi.getImpersonationLog(
+      Number(query.get('page')) || 1,
+      Number(query.get('pageSize')) || config.paginationDefaults.pageSize
+    );
+  }),
+  route('POST', '/auth/password', ({ body, user }) => {
+    const { currentPassword, newPassword } = body as PasswordChangeRequest;
+    return mockApi.changePassword(user!.email, currentPassword, newPassword);
+  }),
+
+  // Two-factor authentication. Setup and enable also accept a sign-in challenge instead of a
+  // session, for users whose role requires 2FA before they can sign in. The challenge wins when
+  // both are sent, as from the lock screen.
+  route(
+    'POST',
+    '/auth/2fa/verify',
+    ({ body }) => {
+      const { challengeToken, code } = body as { challengeToken: string; code: string };
+      // A wrong code is a 400 so a signed-in caller (the lock screen) is not sent to refresh
+      return loginErrorOr(mockApi.verifyTwoFactorLogin(challengeToken, code), 400);
+    },
+    true
+  ),
+  route('GET', '/auth/2fa', ({ user }) => mockApi.getTwoFactorStatus(user!.email)),
+  route(
+    'POST',
+    '/auth/2fa/setup',
+    ({ body, user }) => {
+      const { challengeToken } = (body ?? {}) as { challengeToken?: string };
+      if (challengeToken) return mockApi.beginChallengeEnrollment(challengeToken);
+      if (!user) throw new MockHttpError(401, 'UNAUTHORIZED', 'Session expired or invalid');
+      return mockApi.beginTwoFactorSetup(user.email);
+    },
+    true
+  ),
+  route(
+    'POST',
+    '/auth/2fa/enable',
+    ({ body, user }) => {
+      const { code, challengeToken } = body as { code: string; challengeToken?: string };
+      if (challengeToken) return mockApi.completeChallengeEnrollment(challengeToken, code);
+      if (!user) throw new MockHttpError(401, 'UNAUTHORIZED', 'Session expired or invalid');
+      return mockApi.enableTwoFactor(user.email, code);
+    },
+    true
+  ),
+  route('POST', '/auth/2fa/disable', ({ body, user }) =>
+    mockApi.disableTwoFactor(user!.email, (body as { code: string }).code)
+  ),
+  route('POST', '/auth/2fa/recovery-codes', ({ body, user }) =>
+    mockApi.regenerateRecoveryCodes(user!.email, (body as { code: string }).code)
+  ),
+  route('GET', '/auth/2fa/policy', () => mockApi.getTwoFactorPolicy()),
+  route('PUT', '/auth/2fa/policy', ({ body, user }) => {
+    requirePermission(user, 'settings:write');
+    return mockApi.updateTwoFactorPolicy(body as TwoFactorPolicy);
+  }),
+
+  // Users
+  route('GET', '/users', ({ query, user }) => {
+    requirePermission(user, 'users:read');
+    return mockApi.getUsers(...tableQuery(query, user!, 'users'));
+  }),
+  route('POST', '/users', ({ body, user }) => {
+    requirePermission(user, 'users:write');
+    const data = pickEditable('users', body);
+    requireWriteAccess(user!, 'users', null, data);
+    return mockApi.createUser(data, user!);
+  }),
+  route('POST', '/users/bulk-update', ({ body, user }) => {
+    requirePermission(user, 'users:write');
+    const { selection, changes: requested } = body as { selection: BulkSelection; changes: unknown };
+    const changes = requireBulkChanges(user!, 'users', requested);
+    return mockApi.bulkUpdateUsers(readableSelection(user!, 'users', selection), changes, user!, canBulkChange(user!, 'users', 'write', changes));
+  }),
+  route('GET', '/users/:id', ({ params, user }) => {
+    requirePermission(user, 'users:read');
+    return notFoundOr(mockApi.getUserById(params.id));
+  }),
+  route('PUT', '/users/:id', async ({ params, body, user }) => {
+    requirePermission(user, 'users:write');
+    const existing = await notFoundOr(mockApi.getUserById(params.id));
+    const data = pickEditable('users', body);
+    requireWriteAccess(user!, 'users', existing, data);
+    return notFoundOr(mockApi.updateUser(params.id, data, user!));
+  }),
+  route('DELETE', '/users/:id', async ({ params, user }) => {
+    requirePermission(user, 'users:delete');
+    requireRecordAccess(user!, 'users', 'delete', await notFoundOr(mockApi.getUserById(params.id)));
+    return mockApi.deleteUser(params.id, user!);
+  }),
+  route('POST', '/users/:id/unlock', async ({ params, user }) => {
+    requirePermission(user, 'users:write');
+    requireRecordAccess(user!, 'users', 'write', await notFoundOr(mockApi.getUserById(params.id)));
+    return notFoundOr(mockApi.unlockUser(params.id));
+  }),
+  route('GET', '/users/:id/history', async ({ params, query, user }) => {
+    requirePermission(user, 'users:read');
+    await notFoundOr(mockApi.getUserById(params.id));
+    return getRecordHistory(user!, 'user', params.id, query);
+  }),
+  route('POST', '/users/:id/history/:entryId/restore', async ({ params, user }) => {
+    requirePermission(user, 'users:write');
+    const existing = await notFoundOr(mockApi.getUserById(params.id));
+    const changes = pickEditable('users', await getRestoreChanges(user!, 'user', params.id, params.entryId));
+    requireWriteAccess(user!, 'users', existing, changes);
+    return notFoundOr(mockApi.updateUser(params.id, changes, user!));
+  }),
+
+  // Roles. Everyone signed in can list them, to show role names.
+  route('GET', '/roles', () => mockApi.getRoles()),
+  route('POST', '/roles', ({ body, user }) => {
+    requirePermission(user, 'roles:write');
+    return mockApi.createRole(body as RoleInput, user!);
+  }),
+  route('POST', '/roles/impact', ({ body, user }) => {
+    requirePermission(user, 'roles:write');
+    return notFoundOr(mockApi.previewRoleChanges((body as { changes: RolePermissionChange[] }).changes ?? []));
+  }),
+  route('PUT', '/roles/:id', ({ params, body, user }) => {
+    requirePermission(user, 'roles:write');
+    return notFoundOr(mockApi.updateRole(params.id, body as Partial<RoleInput>, user!));
+  }),
+  route('DELETE', '/roles/:id', ({ params, user }) => {
+    requirePermission(user, 'roles:write');
+    return notFoundOr(mockApi.deleteRole(params.id, user!));
+  }),
+
+  // Products
+  route('GET', '/products', async ({ query, user }) => {
+    requirePermission(user, 'products:read');
+    const page = await mockApi.getProducts(...tableQuery(query, user!, 'products'));
+    return { ...page, data: page.data.map(redactProduct(user)) };
+  }),
+  route('POST', '/products', async ({ body, user }) => {
+    requirePermission(user, 'products:write');
+    const data = pickEditable('products', body);
+    requireWriteAccess(user!, 'products', null, { ...data, createdBy: user!.id });
+    return redactProduct(user)(await mockApi.createProduct(data, user!));
+  }),
+  route('POST', '/products/bulk', async ({ body, user }) => {
+    requirePermission(user, 'products:write');
+    // Imported rows bring their own SKUs
+    const rows = (body as unknown[]).map((row) => pickEditable('products', row, ['sku']));
+    rows.forEach((row) => requireWriteAccess(user!, 'products', null, { ...row, createdBy: user!.id }));
+    const result = await mockApi.bulkCreateProducts(rows, user!);
+    return { ...result, created: result.created.map(redactProduct(user)) };
+  }),
+  route('POST', '/products/sku-check', ({ body }) => mockApi.findExistingSkus(body as string[])),
+  route('POST', '/products/bulk-update', ({ body, user }) => {
+    requirePermission(user, 'products:write');
+    const { selection, changes: requested } = body as { selection: BulkSelection; changes: unknown };
+    const changes = requireBulkChanges(user!, 'products', requested);
+    return mockApi.bulkUpdateProducts(readableSelection(user!, 'products', selection), changes, user!, canBulkChange(user!, 'products', 'write', changes));
+  }),
+  route('POST', '/products/bulk-delete', ({ body, user }) => {
+    requirePermission(user, 'products:delete');
+    return mockApi.bulkDeleteProducts(readableSelection(user!, 'products', body as BulkSelection), user!, canBulkChange(user!, 'products', 'delete'));
+  }),
+  route('GET', '/products/:id', async ({ params, user }) => {
+    requirePermission(user, 'products:read');
+    return redactProduct(user)(await notFoundOr(mockApi.getProductById(params.id)));
+  }),
+  route('PUT', '/products/:id', async ({ params, body, user }) => {
+    requirePermission(user, 'products:write');
+    const existing = await notFoundOr(mockApi.getProductById(params.id));
+    const data = pickEditable('products', body);
+    requireWriteAccess(user!, 'products', existing, data);
+    return redactProduct(user)(await mockApi.updateProduct(params.id, data, user!));
+  }),
+  route('DELETE', '/products/:id', async ({ params, user }) => {
+    requirePermission(user, 'products:delete');
+    requireRecordAccess(user!, 'products', 'delete', await notFoundOr(mockApi.getProductById(params.id)));
+    return mockApi.deleteProduct(params.id, user!);
+  }),
+  route('GET', '/products/:id/position', ({ params, query, user }) => {
+    requirePermission(user, 'products:read');
+    const [, , search, sort, filters] = tableQuery(query, user!, 'products');
+    return mockApi.getProductPosition(params.id, search, sort, filters);
+  }),
+  route('GET', '/products/:id/history', async ({ params, query, user }) => {
+    requirePermission(user, 'products:read');
+    await notFoundOr(mockApi.getProductById(params.id));
+    return getRecordHistory(user!, 'product', params.id, query);
+  }),
+  route('POST', '/products/:id/history/:entryId/restore', async ({ params, user }) => {
+    requirePermission(user, 'products:write');
+    const existing = await notFoundOr(mockApi.getProductById(params.id));
+    const changes = pickEditable('products', await getRestoreChanges(user!, 'product', params.id, params.entryId));
+    requireWriteAccess(user!, 'products', existing, changes);
+    return redactProduct(user)(await mockApi.updateProduct(params.id, changes, user!));
+  }),
+
+  // Saved views
+  route('GET', '/views', ({ query, user }) => mockApi.getSavedViews(query.get('table') as TableId, user!)),
+  route('POST', '/views', async ({ body, user }) => {
+    const { isDefault, ...input } = body as SavedViewInput & { isDefault?: boolean };
+    const view = await mockApi.createSavedView(input, user!);
+    if (!isDefault) return view;
+    await mockApi.setDefaultSavedView(view.tableId, user!, view.id);
+    return { ...view, isDefault: true };
+  }),
+  route('PUT', '/views/default', ({ body, user }) => {
+    const { tableId, viewId } = body as { tableId: TableId; viewId: string | null };
+    return notFoundOr(mockApi.setDefaultSavedView(tableId, user!, viewId));
+  }),
+  route('PUT', '/views/:id', ({ params, body, user }) =>
+    notFoundOr(
+      mockApi.updateSavedView(
+        params.id,
+        user!.id,
+        body as Partial<Pick<SavedView, 'name' | 'state' | 'columns' | 'sharedWithRoles'>>
+      )
+    )
+  ),
+  route('DELETE', '/views/:id', ({ params, user }) => notFoundOr(mockApi.deleteSavedView(params.id, user!.id))),
+
+  // Activity
+  route('GET', '/activity', async ({ query, user }) => {
+    requirePermission(user, 'activity:read');
+    const page = await mockApi.getActivity(
+      {
+        page: Number(query.get('page')) || 1,
+        pageSize: Number(query.get('pageSize')) || config.paginationDefaults.pageSize,
+        userId: query.get('userId') || undefined,
+        entity: (query.get('entity') as ActivityEntity | null) || undefined,
+        entityId: query.get('entityId') || undefined,
+        action: (query.get('action') as ActivityAction | null) || undefined,
+        from: query.get('from') || undefined,
+        to: query.get('to') || undefined,
+      },
+      canSeeActivity(user!)
+    );
+    return { ...page, data: page.data.map(redactActivity(user!)) };
+  }),
+  route('GET', '/activity/actors', ({ user }) => {
+    requirePermission(user, 'activity:read');
+    return mockApi.getActivityActors(canSeeActivity(user!));
+  }),
+
+  // Dashboard
+  route('GET', '/dashboard/metrics', () => mockApi.getDashboardMetrics()),
+  route('GET', '/dashboard/charts/:type', ({ params }) => mockApi.getChartData(params.type)),
+];
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const errorResponse = (status: number, code: string, message: string, extra?: Partial<ApiError>) =>
+  jsonResponse(status, { status, code, message, ...extra } satisfies ApiError);
+
+const readBody = async (request: Request): Promise<unknown> => {
+  const text = await request.text();
+  return text ? JSON.parse(text) : undefined;
+};
+
+// Drop-in replacement for `fetch`, passed to fetchBaseQuery as `fetchFn`.
+// Requests outside the API base URL are forwarded to the real network.
+export const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  const request = new Request(input, init);
+  const url = new URL(request.url, window.location.origin);
+  if (url.origin !== window.location.origin || !url.pathname.startsWith(config.apiBaseUrl)) {
+    return fetch(request);
+  }
+
+  const path = url.pathname.slice(config.apiBaseUrl.length) || '/';
+  const method = request.method.toUpperCase() as HttpMethod;
+  const candidates = routes.filter((r) => r.pattern.test(path));
+  const match = candidates.find((r) => r.method === method);
+  if (!match) {
+    return candidates.length > 0
+      ? errorResponse(405, 'METHOD_NOT_ALLOWED', `${method} ${path} is not allowed`)
+      : errorResponse(404, 'NOT_FOUND', `No route for ${method} ${path}`);
+  }
+
+  const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? null;
+  const user = token ? getSessionUser(token) : null;
+  if (!match.isPublic && !user) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Session expired or invalid');
+  }
+
+  const isAudited = !!user?.impersonation && method !== 'GET' && !unauditedPaths.includes(path);
+  const restriction = isAudited ? getImpersonationRestriction(method, path, user!.impersonation!) : null;
+  if (restriction) {
+    recordImpersonationEvent(user!, 'blocked', { method, path, status: 403 });
+    return errorResponse(403, 'IMPERSONATION_RESTRICTED', restriction);
+  }
+
+  const values = match.pattern.exec(path)!.slice(1);
+  const params = Object.fromEntries(match.keys.map((key, i) => [key, decodeURIComponent(values[i])]));
+
+  const respond = async (): Promise<Response> => {
+    try {
+      const result = await match.handler({
+        params,
+        query: url.searchParams,
+        body: await readBody(request),
+        headers: request.headers,
+        token,
+        user,
+      });
+      // Callers that gave up (unmounted, timed out) get a proper abort instead of a stale response
+      request.signal.throwIfAborted();
+      return jsonResponse(result === undefined ? 204 : 200, result);
+    } catch (error) {
+      if (error instanceof DOMException) throw error;
+      if (error instanceof MockHttpError) return errorResponse(error.status, error.code, error.message, error.extra);
+      return errorResponse(400, 'BAD_REQUEST', (error as Error).message);
+    }
+  };
+
+  const response = await respond();
+  if (isAudited) recordImpersonationEvent(user!, 'request', { method, path, status: response.status });
+  return response;
+};
@@ -0,0 +1,39 @@
+// ============================================
+// Session Sync
+// Broadcasts auth changes to the app's other open tabs
+// ============================================
+
+import { config } from '@/config';
+import { readStoredSession } from '@/features/auth/authSlice';
+import type { SessionSnapshot } from '@/types';
+
+export type SessionSyncMessage = { type: 'session'; session: SessionSnapshot } | { type: 'logout' };
+
+const CHANNEL_NAME = 'enterprise_auth_sync';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+// Messages are never delivered back to the tab that posted them
+export const publishSessionChange = (message: SessionSyncMessage) => {
+  channel?.postMessage(message);
+};
+
+/**
+ * Calls `listener` for session changes made in other tabs. Without BroadcastChannel this falls
+ * back to `storage` events on the token key, which carry the tokens but not the user profile.
+ */
+export const subscribeToSessionChanges = (listener: (message: SessionSyncMessage) => void): (() => void) => {
+  if (channel) {
+    const handleMessage = (event: MessageEvent<SessionSyncMessage>) => listener(event.data);
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== config.tokenKey) return;
+    const session = readStoredSession();
+    listener(session ? { type: 'session', session } : { type: 'logout' });
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,87 @@
+// ============================================
+// Token Manager
+// Access token expiry and a single shared refresh
+// ============================================
+
+import type { BaseQueryApi, BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import type { RootState } from '@/app/store';
+import { config } from '@/config';
+import { logout, readStoredSession, sessionSynced, setCredentials } from '@/features/auth/authSlice';
+import type { AuthResponse } from '@/types';
+
+type RawBaseQuery = BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError>;
+
+const bufferMs = () => config.tokenExpiryBuffer * 60 * 1000;
+
+// Milliseconds until the token should be refreshed (never negative)
+export const getRefreshDelay = (expiresAt: number): number => Math.max(0, expiresAt - bufferMs() - Date.now());
+
+// True once the token is inside the refresh buffer, or already expired
+export const isTokenExpiring = (expiresAt: number | null): boolean =>
+  expiresAt !== null && Date.now() >= expiresAt - bufferMs();
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Every tab holds the same refresh token, so exchanges are serialized across tabs as well
+const REFRESH_LOCK = 'enterprise_token_refresh';
+
+const withCrossTabLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks.request(REFRESH_LOCK, task) : task();
+
+// Resolves once any refresh already running has settled, so callers send the newest token
+export const waitForRefresh = async (): Promise<void> => {
+  if (refreshInFlight) await refreshInFlight;
+};
+
+/**
+ * Exchanges the refresh token for a new session. Concurrent callers (the scheduler and any
+ * number of requests that got a 401) share one request, since refresh tokens are single use
+ * and a second exchange would fail and sign the user out. If another tab rotated the tokens
+ * while this one waited for the lock, the stored session is adopted instead.
+ *
+ * Resolves `true` when new credentials were stored. A rejected refresh token logs out; network
+ * failures leave the session in place so a later request can try again.
+ */
+export const refreshAccessToken = (
+  baseQuery: RawBaseQuery,
+  api: BaseQueryApi,
+  extraOptions: object = {}
+): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = withCrossTabLock(async () => {
+      const refreshToken = (api.getState() as RootState).auth.refreshToken;
+      if (!refreshToken) {
+        api.dispatch(logout());
+        return false;
+      }
+
+      const stored = readStoredSession();
+      if (stored && stored.refreshToken !== refreshToken) {
+        api.dispatch(sessionSynced(stored));
+        return true;
+      }
+
+      const result = await baseQuery(
+        {
+          url: '/auth/refresh',
+          method: 'POST',
+          body: { refreshToken },
+        },
+        api,
+        extraOptions
+      );
+
+      if (result.data) {
+        api.dispatch(setCredentials(result.data as AuthResponse));
+        return true;
+      }
+      if (result.error?.status === 401 || result.error?.status === 400) {
+        api.dispatch(logout());
+      }
+      return false;
+    }).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
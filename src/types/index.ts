@@ -4,7 +4,13 @@
 // ============================================
 
 // User & Authentication Types
-export type UserRole = 'admin' | 'manager' | 'user';
+// Roles that always exist. Custom roles created in Settings are identified by their own ids.
+export type BuiltInRole = 'admin' | 'manager' | 'user';
+// The `string & {}` keeps editor completion for the built-in roles
+export type UserRole = BuiltInRole | (string & {});
+
+// How an account signs in. Single sign-on accounts have no password of their own.
+export type AuthProvider = 'password' | 'oidc';
 
 export interface User {
   id: string;
@@ -17,17 +23,141 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
+  authProvider?: AuthProvider;
+  // Set on the signed-in user only. An expired or administratively reset password must be
+  // changed before anything else can be used.
+  passwordChangeRequired?: boolean;
+  passwordExpiresAt?: string | null;
+  // Set in admin listings while the account is locked after failed sign-ins
+  lockedUntil?: string | null;
+  // Resolved from the role on the signed-in user only; what the UI gates on
+  permissions?: Permission[];
+  // Set on the signed-in user while an administrator is viewing the app as them
+  impersonation?: Impersonation | null;
+}
+
+export type UserSummary = Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+
+// `actor` is the administrator really signed in. Unless `allowDestructive` was chosen when
+// starting, deleting anything is refused for the whole session.
+export interface Impersonation {
+  actor: UserSummary & Pick<User, 'authProvider'>;
+  reason: string;
+  startedAt: string;
+  allowDestructive: boolean;
+}
+
+export interface ImpersonationRequest {
+  userId: string;
+  reason: string;
+  allowDestructive?: boolean;
 }
 
+// 'request' is a change made while impersonating, 'blocked' one that was refused for it
+export type ImpersonationEventType = 'start' | 'stop' | 'request' | 'blocked';
+
+export interface ImpersonationEvent {
+  id: string;
+  type: ImpersonationEventType;
+  actor: UserSummary;
+  target: UserSummary;
+  timestamp: string;
+  reason?: string;
+  method?: string;
+  path?: string;
+  status?: number;
+}
+
+export type SessionLockReason = 'idle' | 'absolute' | 'manual';
+
 export interface AuthState {
   user: User | null;
   token: string | null;
   refreshToken: string | null;
+  // Epoch ms when the access token expires, derived from `expiresIn`
+  expiresAt: number | null;
   isAuthenticated: boolean;
+  // A stored token is being validated and the profile loaded after a reload
+  isRestoring: boolean;
+  // Another tab ended the session; shown instead of silently redirecting to login
+  signedOutElsewhere: boolean;
+  // Epoch ms of the password sign-in; token refreshes keep it, so it bounds the session's age
+  sessionStartedAt: number | null;
+  // Set while the lock screen is up; the session stays valid but the UI is hidden
+  lockReason: SessionLockReason | null;
+  // Structured form of `error` when signing in failed
+  loginError: LoginError | null;
+  // Password accepted, waiting for the second factor (or its enrollment)
+  twoFactorChallenge: TwoFactorChallenge | null;
   isLoading: boolean;
   error: string | null;
 }
 
+// Session credentials as shared between tabs. `user` is null when only the stored
+// tokens are known (e.g. read back from localStorage).
+export interface SessionSnapshot {
+  token: string;
+  refreshToken: string;
+  expiresAt: number | null;
+  sessionStartedAt: number | null;
+  user: User | null;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historySize: number; // previous passwords that cannot be reused
+  maxAgeDays: number; // 0 disables expiry
+}
+
+export interface PasswordChangeRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export type LoginErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_INACTIVE'
+  | 'TOO_MANY_ATTEMPTS'
+  | 'SSO_FAILED';
+
+// A failed sign-in, detailed enough for the form to explain what happened
+export interface LoginError {
+  code: LoginErrorCode;
+  message: string;
+  // Epoch ms before which another attempt will be refused
+  retryAt?: number;
+  // Failures left before the account locks, when close to the limit
+  attemptsRemaining?: number;
+}
+
+// Claims of an OpenID Connect ID token that the app relies on
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+// Authorization code returned to the SSO callback, with the PKCE verifier that proves this
+// browser started the request
+export interface OidcCodeExchange {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -40,6 +170,43 @@ export interface AuthResponse {
   expiresIn: number;
 }
 
+// Returned by login instead of a session when a second factor is needed
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  // The user's role requires 2FA but none is set up yet; enrolling completes the sign-in
+  enrollmentRequired: boolean;
+  expiresIn: number;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge =>
+  'challengeToken' in result;
+
+// A new, not yet verified TOTP secret
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorEnrollment {
+  recoveryCodes: string[];
+  // Set when enrolling during sign-in, which completes it
+  session?: AuthResponse;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // The user's role is in the enforcement policy, so 2FA cannot be turned off
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorPolicy {
+  requiredRoles: UserRole[];
+}
+
 // API Response Types
 export interface ApiResponse<T> {
   data: T;
@@ -62,6 +229,9 @@ export interface ApiError {
   code: string;
   status: number;
   details?: Record<string, string[]>;
+  // Seconds until the request may be retried (423 and 429 responses)
+  retryAfter?: number;
+  attemptsRemaining?: number;
 }
 
 // Table & Data Types
@@ -79,11 +249,58 @@ export interface FilterConfig {
 export interface TableState {
   page: number;
   pageSize: number;
-  sort: SortConfig | null;
+  sort: SortConfig[];
   filters: FilterConfig[];
   search: string;
 }
 
+// Rows targeted by a bulk action: explicit ids, or every row matching the current query
+export type BulkSelection =
+  | { type: 'ids'; ids: string[] }
+  | { type: 'query'; search: string; filters: FilterConfig[] };
+
+export interface BulkActionResult {
+  ids: string[];
+  // Matching records left unchanged because the access policy does not allow changing them
+  skipped?: number;
+  // Whether the caller's own account matched; bulk changes to users always leave it out
+  skippedSelf?: boolean;
+}
+
+export interface BulkCreateResult<T> {
+  created: T[];
+  // Rows the server refused, by their index in the submitted batch
+  rejected: { index: number; error: string }[];
+}
+
+// User-controlled column layout for a table; keys refer to `Column.id`
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+  pinned: Record<string, 'left' | 'right'>;
+}
+
+// Saved Views
+export type TableId = 'products' | 'users';
+
+export interface SavedView {
+  id: string;
+  tableId: TableId;
+  name: string;
+  ownerId: string;
+  ownerName: string;
+  state: TableState;
+  columns: ColumnLayout;
+  sharedWithRoles: UserRole[];
+  // Resolved for the requesting user; each user picks their own default
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedViewInput = Pick<SavedView, 'tableId' | 'name' | 'state' | 'columns' | 'sharedWithRoles'>;
+
 // Product Entity
 export interface Product {
   id: string;
@@ -92,8 +309,12 @@ export interface Product {
   description: string;
   category: string;
   price: number;
+  // Unit cost; left out of responses for users without 'products:cost:read'
+  cost?: number;
   stock: number;
   status: 'active' | 'inactive' | 'discontinued';
+  // Id of the user who created the product, when known
+  createdBy?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -132,7 +353,8 @@ export interface NavItem {
   label: string;
   path: string;
   icon: string;
-  permissions: UserRole[];
+  // Shown to everyone signed in when omitted
+  permission?: Permission;
   children?: NavItem[];
 }
 
@@ -147,16 +369,76 @@ export interface Notification {
 }
 
 // Activity Log
+export const ACTIVITY_ACTIONS = ['create', 'update', 'delete'] as const;
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number];
+
+export const ACTIVITY_ENTITIES = ['user', 'product', 'role'] as const;
+export type ActivityEntity = (typeof ACTIVITY_ENTITIES)[number];
+
+// One changed field; `before` is absent on creates and `after` on deletes
+export interface ActivityChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
 export interface ActivityLog {
   id: string;
+  // Who made the change, as shown at the time
   userId: string;
-  action: string;
-  entity: string;
+  userName: string;
+  action: ActivityAction;
+  entity: ActivityEntity;
   entityId: string;
-  details: Record<string, unknown>;
+  entityName: string;
+  changes: ActivityChange[];
+  // Set when an administrator made the change while viewing the app as `userId`
+  impersonatedBy?: UserSummary;
   createdAt: string;
 }
 
+// `from` and `to` are ISO timestamps, both inclusive
+export interface ActivityQuery {
+  page: number;
+  pageSize: number;
+  userId?: string;
+  entity?: ActivityEntity;
+  entityId?: string;
+  action?: ActivityAction;
+  from?: string;
+  to?: string;
+}
+
+export interface ActivityActor {
+  id: string;
+  name: string;
+}
+
+// Users and products keep a history that earlier versions can be restored from
+export type HistoryEntity = Extract<ActivityEntity, 'user' | 'product'>;
+
+// Where one record sits in a filtered, sorted list; position is null when it is not in it
+export interface ListPosition {
+  position: number | null;
+  total: number;
+  previousId: string | null;
+  nextId: string | null;
+}
+
+export interface RecordHistoryQuery {
+  entity: HistoryEntity;
+  entityId: string;
+  page: number;
+  pageSize: number;
+}
+
+// Puts the record back the way it was right after the entry's change
+export interface RestoreVersionRequest {
+  entity: HistoryEntity;
+  entityId: string;
+  entryId: string;
+}
+
 // Form Types
 export interface FormField {
   name: string;
@@ -169,45 +451,107 @@ export interface FormField {
 }
 
 // UI State Types
+export interface Breadcrumb {
+  label: string;
+  path?: string;
+}
+
 export interface UIState {
   sidebarCollapsed: boolean;
   activeModal: string | null;
   isOnline: boolean;
   notifications: Notification[];
   theme: 'light' | 'dark' | 'system';
+  // Set by pages deeper than the navigation, e.g. one product; null falls back to the nav item
+  breadcrumbs: Breadcrumb[] | null;
 }
 
 // Permission Types
-export type Permission = 
-  | 'users:read'
-  | 'users:write'
-  | 'users:delete'
-  | 'products:read'
-  | 'products:write'
-  | 'products:delete'
-  | 'dashboard:admin'
-  | 'dashboard:manager'
-  | 'reports:read'
-  | 'reports:export'
-  | 'settings:read'
-  | 'settings:write';
-
-export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
-  admin: [
-    'users:read', 'users:write', 'users:delete',
-    'products:read', 'products:write', 'products:delete',
-    'dashboard:admin', 'dashboard:manager',
-    'reports:read', 'reports:export',
-    'settings:read', 'settings:write',
-  ],
-  manager: [
-    'users:read',
-    'products:read', 'products:write',
-    'dashboard:manager',
-    'reports:read', 'reports:export',
-  ],
-  user: [
-    'products:read',
-    'reports:read',
-  ],
-};
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'users:delete',
+  'users:impersonate',
+  'products:read',
+  'products:write',
+  'products:delete',
+  'products:cost:read',
+  'products:cost:write',
+  'dashboard:admin',
+  'dashboard:manager',
+  'reports:read',
+  'reports:export',
+  'settings:read',
+  'settings:write',
+  'roles:read',
+  'roles:write',
+  'activity:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Role definitions are owned by the backend; the permission sets of every role, including the
+// built-in ones, can change at runtime
+export interface Role {
+  id: UserRole;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  // Built-in roles cannot be renamed or deleted
+  isSystem: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RoleInput = Pick<Role, 'name' | 'description' | 'permissions'>;
+
+// Attribute-based access: rules that narrow a permission down to individual records
+export type AccessResource = 'users' | 'products';
+export type AccessAction = 'write' | 'delete';
+
+export type AccessCondition =
+  // The record is the user themselves, or was created by them
+  | { type: 'owner' }
+  // The record belongs to the user's department
+  | { type: 'department' }
+  | { type: 'status'; values: string[] };
+
+export interface AccessRule {
+  id: string;
+  // Shown when the rule refuses a change
+  description: string;
+  roles: UserRole[];
+  resource: AccessResource;
+  actions: AccessAction[];
+  // A record passes the rule when it meets any one of these
+  conditions: AccessCondition[];
+}
+
+// Field-level access: fields that need a permission beyond the resource's own
+export interface FieldAccessRule {
+  resource: AccessResource;
+  field: string;
+  read?: Permission;
+  write?: Permission;
+}
+
+export interface AccessPolicy {
+  rules: AccessRule[];
+  fields: FieldAccessRule[];
+}
+
+// A proposed permission set for a role, previewed before it is saved
+export interface RolePermissionChange {
+  roleId: UserRole;
+  permissions: Permission[];
+}
+
+// Who a proposed change affects and how their access differs
+export interface RoleImpact {
+  roleId: UserRole;
+  granted: Permission[];
+  revoked: Permission[];
+  userCount: number;
+  // The first affected users, for display; `userCount` has the total
+  users: Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'isActive'>[];
+}